@@ -0,0 +1,92 @@
+-- Migration: Atomic saves with revision numbers and optimistic concurrency
+-- Run this in Supabase SQL Editor
+
+-- The revision the stored doc belongs to (0 = never saved through save_recipe)
+alter table public.recipes
+  add column if not exists revision integer not null default 0;
+
+-- Renumber revisions that collided under the old read-then-insert numbering
+with numbered as (
+  select ctid, row_number() over (partition by recipe_id order by revision, created_at) as n
+  from public.recipe_revisions
+)
+update public.recipe_revisions v
+set revision = numbered.n
+from numbered
+where v.ctid = numbered.ctid
+  and v.revision <> numbered.n;
+
+update public.recipes r
+set revision = coalesce(
+  (select max(v.revision) from public.recipe_revisions v where v.recipe_id = r.id),
+  0
+);
+
+-- One row per revision number (also serves the newest-first history listing)
+drop index if exists public.recipe_revisions_recipe_id_revision_idx;
+create unique index if not exists recipe_revisions_recipe_id_revision_key
+  on public.recipe_revisions (recipe_id, revision desc);
+
+-- Saves a recipe and appends its revision in one transaction.
+-- p_id null creates the recipe. Otherwise p_base_revision must be the
+-- revision the client edited from; when someone saved in between nothing is
+-- written and the current revision and doc come back as a conflict.
+-- Runs as the caller, so RLS still limits writes to the owner.
+create or replace function public.save_recipe(p_id uuid, p_doc jsonb, p_base_revision integer)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_owner uuid := auth.uid();
+  v_row public.recipes%rowtype;
+begin
+  if v_owner is null then
+    raise exception 'AUTH_REQUIRED';
+  end if;
+
+  if p_id is null then
+    insert into public.recipes (owner_id, title, doc, revision)
+    values (v_owner, p_doc->'recipe'->>'name', p_doc, 1)
+    returning * into v_row;
+  else
+    -- Concurrent saves of the same recipe wait here for each other
+    select * into v_row from public.recipes where id = p_id for update;
+    if not found then
+      raise exception 'NOT_FOUND';
+    end if;
+
+    if p_base_revision is distinct from v_row.revision then
+      return jsonb_build_object(
+        'status', 'conflict',
+        'id', v_row.id,
+        'revision', v_row.revision,
+        'doc', v_row.doc
+      );
+    end if;
+
+    update public.recipes
+    set doc = p_doc,
+        title = p_doc->'recipe'->>'name',
+        revision = v_row.revision + 1,
+        updated_at = now()
+    where id = p_id
+    returning * into v_row;
+  end if;
+
+  insert into public.recipe_revisions (recipe_id, owner_id, revision, doc)
+  values (v_row.id, v_owner, v_row.revision, p_doc);
+
+  return jsonb_build_object(
+    'status', 'saved',
+    'id', v_row.id,
+    'title', v_row.title,
+    'updated_at', v_row.updated_at,
+    'is_public', coalesce(v_row.is_public, false),
+    'public_id', v_row.public_id,
+    'revision', v_row.revision
+  );
+end $$;
+
+grant execute on function public.save_recipe(uuid, jsonb, integer) to authenticated;
@@ -0,0 +1,24 @@
+-- Migration: Storage bucket for recipe and step images (illustrated stack)
+-- Run this in Supabase SQL Editor
+
+-- Public-read bucket; files are stored as <owner_id>/<image_id>/<width>.<ext>
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('recipe-images', 'recipe-images', true, 10485760, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+-- Authenticated users may only write inside their own folder
+drop policy if exists "recipe images owner insert" on storage.objects;
+create policy "recipe images owner insert"
+on storage.objects for insert to authenticated
+with check (
+  bucket_id = 'recipe-images'
+  and (storage.foldername(name))[1] = auth.uid()::text
+);
+
+drop policy if exists "recipe images owner delete" on storage.objects;
+create policy "recipe images owner delete"
+on storage.objects for delete to authenticated
+using (
+  bucket_id = 'recipe-images'
+  and (storage.foldername(name))[1] = auth.uid()::text
+);
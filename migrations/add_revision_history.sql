@@ -0,0 +1,10 @@
+-- Migration: Revision history browsing
+-- Run this in Supabase SQL Editor
+
+-- Timestamps shown in the history panel
+alter table public.recipe_revisions
+  add column if not exists created_at timestamptz not null default now();
+
+-- History is listed per recipe, newest first
+create index if not exists recipe_revisions_recipe_id_revision_idx
+  on public.recipe_revisions (recipe_id, revision desc);
@@ -1,5 +1,11 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    serverActions: {
+      // Image uploads send every resized width in one request
+      bodySizeLimit: '12mb',
+    },
+  },
+}
 
 module.exports = nextConfig
-
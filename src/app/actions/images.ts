@@ -0,0 +1,64 @@
+'use server';
+
+import { randomUUID } from 'crypto';
+import { supabaseServer } from '@/lib/supabase/server';
+import { getImageStorage } from '@/lib/storage/imageStorage';
+import { IMAGE_WIDTHS, checkImageFile, imageVariantKey } from '@/lib/mise/images';
+import type { ImageVariant, RecipeImage } from '@/lib/mise/types';
+
+/**
+ * Stores an image resized in the browser. The form carries one file per
+ * width ("w480", "w960", ...), plus "alt", "width" and "height" of the
+ * largest variant. Returns the image to attach to a recipe or step.
+ */
+export async function uploadRecipeImageAction(form: FormData): Promise<RecipeImage> {
+  const supabase = supabaseServer();
+  const { data: auth } = await supabase.auth.getUser();
+
+  if (!auth.user) {
+    throw new Error('AUTH_REQUIRED');
+  }
+
+  const files = Array.from(form.entries())
+    .map(([name, value]) => ({ width: Number(name.match(/^w(\d+)$/)?.[1]), value }))
+    .filter((entry): entry is { width: number; value: File } => entry.width > 0 && entry.value instanceof File)
+    .sort((a, b) => a.width - b.width);
+
+  // The fixed widths, or a single original smaller than all of them
+  const fixedWidths: readonly number[] = IMAGE_WIDTHS;
+  const widthsOk =
+    (files.length === 1 && files[0].width < fixedWidths[0]) ||
+    (files.length > 0 && files.every(({ width }) => fixedWidths.includes(width)));
+  if (!widthsOk || files.some(({ value }) => checkImageFile(value) !== null)) {
+    throw new Error('INVALID_IMAGE');
+  }
+
+  const storage = getImageStorage(supabase);
+  const imageId = randomUUID();
+  const variants: ImageVariant[] = [];
+  const storedKeys: string[] = [];
+  try {
+    for (const { width, value } of files) {
+      const key = imageVariantKey(auth.user.id, imageId, width, value.type);
+      const url = await storage.put(key, new Uint8Array(await value.arrayBuffer()), value.type);
+      storedKeys.push(key);
+      variants.push({ width, url });
+    }
+  } catch (error) {
+    // Do not leave a partial set of widths behind
+    await storage.remove(storedKeys).catch(() => undefined);
+    console.error('Image upload failed:', error);
+    throw new Error('UPLOAD_FAILED');
+  }
+
+  const alt = String(form.get('alt') ?? '').trim();
+  const width = Number(form.get('width'));
+  const height = Number(form.get('height'));
+  return {
+    url: variants[variants.length - 1].url,
+    ...(alt && { alt }),
+    ...(width > 0 && { width }),
+    ...(height > 0 && { height }),
+    variants,
+  };
+}
@@ -2,46 +2,39 @@
 
 import { supabaseServer } from '@/lib/supabase/server';
 import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import { validateRecipe } from '@/lib/mise/schemaValidation';
+import { migrateWorkbenchDoc } from '@/lib/mise/docMigrations';
+
+export type SavedRecipe = {
+  status: 'saved';
+  id: string;
+  title: string;
+  updated_at: string;
+  is_public: boolean;
+  public_id: string | null;
+  revision: number;
+};
 
 /**
- * Computes the next revision number for a recipe.
- * Returns max(revision) + 1, or 1 if no revisions exist.
+ * Someone saved the recipe after the revision the client edited from.
+ * Nothing was written; `doc` is what is stored now.
  */
-async function getNextRevision(
-  supabase: ReturnType<typeof supabaseServer>,
-  recipeId: string,
-  ownerId: string
-): Promise<number> {
-  const { data, error } = await supabase
-    .from('recipe_revisions')
-    .select('revision')
-    .eq('recipe_id', recipeId)
-    .eq('owner_id', ownerId)
-    .order('revision', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
-    // For any error, log and default to 1
-    console.warn('Error fetching max revision, defaulting to 1:', error);
-    return 1;
-  }
-
-  // If no rows found (data is null), start at revision 1
-  // Otherwise, use max revision + 1
-  return (data?.revision ?? 0) + 1;
-}
+export type SaveConflict = {
+  status: 'conflict';
+  id: string;
+  revision: number;
+  doc: WorkbenchDoc;
+};
 
+/**
+ * Saves a recipe and appends its revision atomically (save_recipe RPC).
+ * Updates must pass the revision they were edited from as `baseRevision`.
+ */
 export async function saveRecipeAction(args: {
   id?: string;
   doc: WorkbenchDoc;
-}): Promise<{
-  id: string;
-  title: string;
-  updated_at: string;
-  is_public: boolean;
-  public_id: string | null;
-}> {
+  baseRevision?: number;
+}): Promise<SavedRecipe | SaveConflict> {
   const supabase = supabaseServer();
   const { data: auth } = await supabase.auth.getUser();
 
@@ -49,72 +42,45 @@ export async function saveRecipeAction(args: {
     throw new Error('AUTH_REQUIRED');
   }
 
-  const userId = auth.user.id;
-
-  // Build payload - only include id if provided (for updates)
-  const payload: {
-    id?: string;
-    owner_id: string;
-    title: string;
-    doc: WorkbenchDoc;
-  } = {
-    owner_id: userId,
-    title: args.doc.recipe.name,
-    doc: args.doc,
-  };
-
-  // Only include id if provided (for updates)
-  if (args.id) {
-    payload.id = args.id;
+  // Only schema-valid recipes are stored (the editor reports the errors)
+  if (validateRecipe(args.doc.recipe).length > 0) {
+    throw new Error('INVALID_RECIPE');
   }
 
-  // Use upsert with onConflict to ensure updates work correctly
-  const { data, error } = await supabase
-    .from('recipes')
-    .upsert(payload, {
-      onConflict: 'id',
-    })
-    .select('id,updated_at,title,is_public,public_id')
-    .single();
+  const { data, error } = await supabase.rpc('save_recipe', {
+    p_id: args.id ?? null,
+    p_doc: args.doc,
+    p_base_revision: args.baseRevision ?? null,
+  });
 
   if (error || !data) {
-    throw new Error('NOT_FOUND');
+    if (error?.message?.includes('AUTH_REQUIRED')) {
+      throw new Error('AUTH_REQUIRED');
+    }
+    if (error?.message?.includes('NOT_FOUND')) {
+      throw new Error('NOT_FOUND');
+    }
+    // Anything else may be temporary; callers keep the doc to retry
+    throw new Error('SAVE_FAILED');
   }
 
-  // Append-only revision: insert snapshot into recipe_revisions
-  // Best-effort: if this fails, log but don't fail the save
-  const recipeId = data.id;
-  try {
-    const nextRevision = await getNextRevision(supabase, recipeId, userId);
-
-    const { error: revisionError } = await supabase
-      .from('recipe_revisions')
-      .insert({
-        recipe_id: recipeId,
-        owner_id: userId,
-        revision: nextRevision,
-        doc: args.doc,
-      });
-
-    if (revisionError) {
-      console.error(
-        'Failed to insert recipe revision (non-fatal):',
-        revisionError
-      );
-    }
-  } catch (revisionErr) {
-    console.error(
-      'Error creating recipe revision (non-fatal):',
-      revisionErr
-    );
+  if (data.status === 'conflict') {
+    return {
+      status: 'conflict',
+      id: data.id,
+      revision: data.revision,
+      doc: migrateWorkbenchDoc(data.doc as WorkbenchDoc),
+    };
   }
 
   return {
+    status: 'saved',
     id: data.id,
     title: data.title,
     updated_at: data.updated_at,
     is_public: data.is_public ?? false,
     public_id: data.public_id ?? null,
+    revision: data.revision,
   };
 }
 
@@ -135,6 +101,22 @@ export async function setRecipePublicAction(args: {
     throw new Error('AUTH_REQUIRED');
   }
 
+  // Recipes saved before validation existed are checked again on publish
+  if (args.makePublic) {
+    const { data: stored, error: storedError } = await supabase
+      .from('recipes')
+      .select('doc')
+      .eq('id', args.recipeId)
+      .single();
+
+    if (storedError || !stored) {
+      throw new Error('NOT_FOUND');
+    }
+    if (validateRecipe(migrateWorkbenchDoc(stored.doc as WorkbenchDoc)?.recipe).length > 0) {
+      throw new Error('INVALID_RECIPE');
+    }
+  }
+
   const { data, error } = await supabase
     .from('recipes')
     .update({ is_public: args.makePublic })
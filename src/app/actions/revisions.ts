@@ -0,0 +1,107 @@
+'use server';
+
+import { supabaseServer } from '@/lib/supabase/server';
+import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import { migrateRecipe, migrateWorkbenchDoc } from '@/lib/mise/docMigrations';
+import { compileProfile } from '@/lib/mise/profiles';
+import { validateRecipe, type SchemaError } from '@/lib/mise/schemaValidation';
+import { saveRecipeAction, type SaveConflict, type SavedRecipe } from './recipes';
+
+export type RecipeRevisionSummary = {
+  revision: number;
+  created_at: string;
+  title: string;
+};
+
+/**
+ * A revision that still fails validation after migrating; it is returned
+ * unsaved so the editor can load it for fixing
+ */
+export type InvalidRevision = {
+  status: 'invalid';
+  doc: WorkbenchDoc;
+  errors: SchemaError[];
+};
+
+async function requireUser(supabase: ReturnType<typeof supabaseServer>) {
+  const { data: auth } = await supabase.auth.getUser();
+  if (!auth.user) {
+    throw new Error('AUTH_REQUIRED');
+  }
+  return auth.user;
+}
+
+/**
+ * Lists a recipe's saved revisions, newest first (owner-only via RLS)
+ */
+export async function listRecipeRevisionsAction(recipeId: string): Promise<RecipeRevisionSummary[]> {
+  const supabase = supabaseServer();
+  const user = await requireUser(supabase);
+
+  const { data, error } = await supabase
+    .from('recipe_revisions')
+    .select('revision,created_at,title:doc->recipe->>name')
+    .eq('recipe_id', recipeId)
+    .eq('owner_id', user.id)
+    .order('revision', { ascending: false });
+
+  if (error) {
+    throw new Error('NOT_FOUND');
+  }
+
+  return (data ?? []).map((row) => ({
+    revision: row.revision,
+    created_at: row.created_at,
+    title: row.title ?? '',
+  }));
+}
+
+/**
+ * Loads one revision's document, migrated to the current format
+ */
+export async function getRecipeRevisionAction(args: {
+  recipeId: string;
+  revision: number;
+}): Promise<WorkbenchDoc> {
+  const supabase = supabaseServer();
+  const user = await requireUser(supabase);
+
+  const { data, error } = await supabase
+    .from('recipe_revisions')
+    .select('doc')
+    .eq('recipe_id', args.recipeId)
+    .eq('owner_id', user.id)
+    .eq('revision', args.revision)
+    .single();
+
+  if (error || !data?.doc) {
+    throw new Error('NOT_FOUND');
+  }
+
+  return migrateWorkbenchDoc(data.doc as WorkbenchDoc);
+}
+
+/**
+ * Saves an old revision as the recipe's newest revision. History is never
+ * rewritten: the restored content is appended like any other save, with
+ * the same conflict check against `baseRevision`. The revision is migrated
+ * and its profile recompiled first; if it still fails validation nothing
+ * is saved and it comes back as an InvalidRevision.
+ */
+export async function restoreRecipeRevisionAction(args: {
+  recipeId: string;
+  revision: number;
+  baseRevision: number;
+}): Promise<(SavedRecipe & { doc: WorkbenchDoc }) | SaveConflict | InvalidRevision> {
+  const restored = await getRecipeRevisionAction(args);
+  const doc: WorkbenchDoc = {
+    ...restored,
+    recipe: compileProfile(migrateRecipe(restored.recipe)),
+    meta: { ...restored.meta, updatedAt: new Date().toISOString() },
+  };
+  const errors = validateRecipe(doc.recipe);
+  if (errors.length > 0) return { status: 'invalid', doc, errors };
+  const result = await saveRecipeAction({ id: args.recipeId, doc, baseRevision: args.baseRevision });
+  if (result.status === 'conflict') return result;
+  return { ...result, doc };
+}
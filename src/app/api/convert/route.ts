@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
-
-const CANONICAL_SCHEMA_URL = 'https://soustack.org/lite.schema.json';
+import { SOUSTACK_SCHEMA_URL } from '@/lib/mise/soustackSchemas';
+import { migrateRecipe } from '@/lib/mise/docMigrations';
 
 // Initialize Gemini
 function getGeminiModel() {
@@ -127,7 +127,7 @@ function transformToSoustackRecipe(
   const stacks = inferStacks(geminiOutput);
 
   const recipe: SoustackLiteRecipe = {
-    $schema: CANONICAL_SCHEMA_URL,
+    $schema: SOUSTACK_SCHEMA_URL,
     profile: 'lite',
     stacks,
     name: geminiOutput.name?.trim() || 'Untitled Recipe',
@@ -145,7 +145,8 @@ function transformToSoustackRecipe(
     },
   };
 
-  return recipe;
+  // Model output may use older shapes, e.g. spec-style sections
+  return migrateRecipe(recipe);
 }
 
 export async function POST(request: NextRequest) {
@@ -0,0 +1,71 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { getPublicRecipe } from '@/lib/db/publicRecipes';
+import { toSchemaOrgRecipe } from '@/lib/mise/schemaOrgExport';
+import PublicRecipeView from '@/components/PublicRecipeView';
+
+type PageProps = {
+  params: { public_id: string };
+};
+
+/**
+ * Absolute URL of this page, from the incoming request host
+ */
+function pageUrl(publicId: string): string {
+  const requestHeaders = headers();
+  const host = requestHeaders.get('x-forwarded-host') || requestHeaders.get('host') || 'localhost:3000';
+  const protocol = requestHeaders.get('x-forwarded-proto') || (host.startsWith('localhost') ? 'http' : 'https');
+  return `${protocol}://${host}/p/${publicId}`;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const recipe = await getPublicRecipe(params.public_id);
+  if (!recipe) {
+    return { title: 'Recipe not found · Soustack Mise' };
+  }
+
+  const url = pageUrl(params.public_id);
+  const images = Array.isArray(recipe.images) ? recipe.images.map((image) => image.url) : [];
+  return {
+    metadataBase: new URL(url),
+    title: `${recipe.name} · Soustack Mise`,
+    description: recipe.description,
+    alternates: {
+      types: {
+        'application/vnd.soustack+json': `/soustack/public/${params.public_id}.soustack.json`,
+        'application/ld+json': `/soustack/public/${params.public_id}.soustack.json?format=jsonld`,
+      },
+    },
+    openGraph: {
+      type: 'article',
+      title: recipe.name,
+      description: recipe.description,
+      url,
+      ...(images.length > 0 && { images }),
+    },
+  };
+}
+
+/**
+ * Public recipe page, fully server-rendered so it works without JavaScript
+ */
+export default async function PublicRecipePage({ params }: PageProps) {
+  const recipe = await getPublicRecipe(params.public_id);
+  if (!recipe) {
+    notFound();
+  }
+
+  // Escape "<" so recipe text cannot close the script tag
+  const jsonLd = JSON.stringify(toSchemaOrgRecipe(recipe, { url: pageUrl(params.public_id) })).replace(
+    /</g,
+    '\\u003c'
+  );
+
+  return (
+    <>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />
+      <PublicRecipeView recipe={recipe} />
+    </>
+  );
+}
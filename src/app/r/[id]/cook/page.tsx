@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { loadRecipeForView } from '@/lib/db/recipes';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import CookMode from '@/components/CookMode';
+
+export default function CookModePage() {
+  const params = useParams();
+  const id = params.id as string;
+  const [recipe, setRecipe] = useState<SoustackLiteRecipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadRecipeForView(id)
+      .then((data) => {
+        if (cancelled) return;
+        if (!data) setError('Recipe not found');
+        else setRecipe(data.doc.recipe);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error && err.message ? err.message : 'Failed to load recipe');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (loading) {
+    return (
+      <div
+        style={{
+          minHeight: '100vh',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          fontSize: '16px',
+          color: '#666',
+        }}
+      >
+        Loading recipe...
+      </div>
+    );
+  }
+
+  if (error || !recipe) {
+    return (
+      <div
+        style={{
+          minHeight: '100vh',
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '16px',
+        }}
+      >
+        <div style={{ fontSize: '16px', color: '#dc2626' }}>{error || 'Recipe not found'}</div>
+        <Link href="/recipes" className="button buttonPrimary">
+          Back to Recipes
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: '#fafafa' }}>
+      <header style={{ padding: '16px 24px', borderBottom: '1px solid #e0e0e0', backgroundColor: '#fff' }}>
+        <div className="container" style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+          <Link href={`/r/${id}`} style={{ fontSize: '14px', color: '#666', textDecoration: 'none' }}>
+            ← Exit cook mode
+          </Link>
+          <h1 style={{ margin: 0, fontSize: '20px', fontWeight: 600 }}>{recipe.name}</h1>
+        </div>
+      </header>
+      <main className="container" style={{ paddingTop: '32px', paddingBottom: '32px', maxWidth: '860px' }}>
+        <CookMode recipeId={id} recipe={recipe} />
+      </main>
+    </div>
+  );
+}
@@ -179,15 +179,28 @@ export default function RecipeViewPage() {
               {recipeData.is_public && (
                 <span className="chip chipSuccess">Public</span>
               )}
+              {recipeData.is_public && recipeData.public_id && (
+                <Link
+                  href={`/p/${recipeData.public_id}`}
+                  style={{ fontSize: '14px', color: '#666' }}
+                >
+                  View public page
+                </Link>
+              )}
             </div>
-            {recipeData.is_owner && (
-              <Link
-                href={`/recipes/${id}`}
-                className="button buttonPrimary"
-              >
-                Edit in Mise
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <Link href={`/r/${id}/cook`} className="button buttonSecondary">
+                Cook mode
               </Link>
-            )}
+              {recipeData.is_owner && (
+                <Link
+                  href={`/recipes/${id}`}
+                  className="button buttonPrimary"
+                >
+                  Edit in Mise
+                </Link>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -16,12 +16,13 @@ export default function RecipePage() {
   const [error, setError] = useState<string | null>(null);
   const [initialIsPublic, setInitialIsPublic] = useState<boolean>(false);
   const [initialPublicId, setInitialPublicId] = useState<string | null>(null);
+  const [initialRevision, setInitialRevision] = useState<number>(0);
 
   const loadRecipeDoc = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const { doc: loaded, is_public, public_id } = await loadRecipeWithMeta(id);
+      const { doc: loaded, is_public, public_id, revision } = await loadRecipeWithMeta(id);
       // Validate loaded doc structure
       if (
         loaded &&
@@ -34,6 +35,7 @@ export default function RecipePage() {
         // Store public status for Workbench
         setInitialIsPublic(is_public);
         setInitialPublicId(public_id);
+        setInitialRevision(revision);
       } else {
         // Malformed doc, fall back to empty
         console.warn('Loaded recipe doc is malformed, using empty doc');
@@ -115,6 +117,7 @@ export default function RecipePage() {
       initialRecipeId={id}
       initialIsPublic={initialIsPublic}
       initialPublicId={initialPublicId}
+      initialRevision={initialRevision}
     />
   );
 }
@@ -1,22 +1,24 @@
 import { NextResponse } from 'next/server';
-import { supabaseServer } from '@/lib/supabase/server';
-import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import { getPublicRecipe } from '@/lib/db/publicRecipes';
+import { toSchemaOrgRecipe } from '@/lib/mise/schemaOrgExport';
+
+/**
+ * schema.org JSON-LD is served for `Accept: application/ld+json`
+ * or `?format=jsonld`; everything else gets Soustack JSON.
+ */
+function wantsJsonLd(req: Request): boolean {
+  const url = new URL(req.url);
+  if (url.searchParams.get('format') === 'jsonld') return true;
+  return (req.headers.get('accept') || '').includes('application/ld+json');
+}
 
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: { public_id: string } }
 ) {
-  const supabase = supabaseServer();
-
-  // Call the SECURITY DEFINER function to get public recipe
-  // No auth required - uses anon key
-  const { data, error } = await supabase.rpc('get_public_recipe', {
-    p_public_id: params.public_id,
-  });
+  const recipe = await getPublicRecipe(params.public_id);
 
-  // If RPC returns null/empty => 404
-  // RPC returns jsonb, which may be null if not found
-  if (error || !data || data === null) {
+  if (!recipe) {
     return NextResponse.json(
       { error: 'NOT_FOUND' },
       {
@@ -29,11 +31,15 @@ export async function GET(
     );
   }
 
-  // Safety: if recipe is missing/malformed, fall back to minimal always-valid recipe
-  // data is jsonb from the function, which should be the recipe object
-  let recipe = data;
-  if (!recipe || typeof recipe !== 'object' || !recipe.name) {
-    recipe = compileLiteRecipe({});
+  if (wantsJsonLd(req)) {
+    return new NextResponse(JSON.stringify(toSchemaOrgRecipe(recipe)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/ld+json; charset=utf-8',
+        'Cache-Control': 'public, max-age=60, s-maxage=600',
+        Vary: 'Accept',
+      },
+    });
   }
 
   // Return only the recipe JSON with public caching headers
@@ -42,6 +48,7 @@ export async function GET(
     headers: {
       'Content-Type': 'application/vnd.soustack+json; charset=utf-8',
       'Cache-Control': 'public, max-age=60, s-maxage=600',
+      Vary: 'Accept',
     },
   });
 }
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { supabaseServer } from '@/lib/supabase/server';
 import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
 import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import { migrateWorkbenchDoc } from '@/lib/mise/docMigrations';
 
 export async function GET(
   _req: Request,
@@ -47,7 +48,7 @@ export async function GET(
   }
 
   // A3) Extract recipe from WorkbenchDoc - return ONLY doc.recipe
-  const workbenchDoc = data.doc as WorkbenchDoc;
+  const workbenchDoc = migrateWorkbenchDoc(data.doc as WorkbenchDoc);
   let recipe = workbenchDoc?.recipe;
 
   // A3) Safety: if recipe is missing/malformed, fall back to compileLiteRecipe({})
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import {
+  buildCookSteps,
+  clearCookProgress,
+  formatCountdown,
+  readCookProgress,
+  writeCookProgress,
+} from '@/lib/mise/cookMode';
+import type { CookProgress, CookTimer } from '@/lib/mise/cookMode';
+
+type CookModeProps = {
+  recipeId: string;
+  recipe: SoustackLiteRecipe;
+};
+
+const EMPTY_PROGRESS: CookProgress = { step: 0, done: [], timers: [] };
+
+/**
+ * Keeps the screen on while mounted, where the Wake Lock API exists.
+ * The lock is dropped by the browser when the tab is hidden, so it is
+ * requested again when the page becomes visible.
+ */
+function useWakeLock(): boolean {
+  const [active, setActive] = useState(false);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          sentinel.release();
+          return;
+        }
+        setActive(true);
+        sentinel.addEventListener('release', () => setActive(false));
+      } catch {
+        setActive(false);
+      }
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      sentinel?.release().catch(() => undefined);
+    };
+  }, []);
+
+  return active;
+}
+
+/**
+ * Hands-in-the-kitchen view: one step at a time in large type, the step's
+ * ingredients, parallel countdown timers and progress saved per recipe
+ */
+export default function CookMode({ recipeId, recipe }: CookModeProps) {
+  const steps = useMemo(() => buildCookSteps(recipe), [recipe]);
+  const [progress, setProgress] = useState<CookProgress>(EMPTY_PROGRESS);
+  const [loaded, setLoaded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const notifiedRef = useRef<Set<string>>(new Set());
+  const screenAwake = useWakeLock();
+
+  // Restore progress once on the client
+  useEffect(() => {
+    setProgress(readCookProgress(window.localStorage, recipeId, steps.length) ?? EMPTY_PROGRESS);
+    setLoaded(true);
+  }, [recipeId, steps.length]);
+
+  useEffect(() => {
+    if (loaded) writeCookProgress(window.localStorage, recipeId, progress);
+  }, [loaded, recipeId, progress]);
+
+  // Tick while any timer is running
+  const hasTimers = progress.timers.length > 0;
+  useEffect(() => {
+    if (!hasTimers) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasTimers]);
+
+  // Buzz once per finished timer
+  useEffect(() => {
+    for (const timer of progress.timers) {
+      if (timer.endsAt <= now && !notifiedRef.current.has(timer.id)) {
+        notifiedRef.current.add(timer.id);
+        if (typeof navigator !== 'undefined' && 'vibrate' in navigator) navigator.vibrate([300, 150, 300]);
+      }
+    }
+  }, [now, progress.timers]);
+
+  const goTo = (step: number) => {
+    setProgress((prev) => ({ ...prev, step: Math.min(Math.max(0, step), steps.length - 1) }));
+  };
+
+  const handleNext = () => {
+    setProgress((prev) => ({
+      ...prev,
+      done: prev.done.includes(prev.step) ? prev.done : [...prev.done, prev.step],
+      step: Math.min(prev.step + 1, steps.length - 1),
+    }));
+  };
+
+  const handleStartTimer = (stepIndex: number) => {
+    const timer = steps[stepIndex]?.timer;
+    if (!timer) return;
+    const started = Date.now();
+    const next: CookTimer = {
+      id: `${stepIndex}-${started}`,
+      step: stepIndex,
+      label: `Step ${stepIndex + 1}: ${timer.label}`,
+      endsAt: started + timer.seconds * 1000,
+    };
+    setNow(started);
+    setProgress((prev) => ({ ...prev, timers: [...prev.timers, next] }));
+  };
+
+  const handleDismissTimer = (id: string) => {
+    setProgress((prev) => ({ ...prev, timers: prev.timers.filter((timer) => timer.id !== id) }));
+  };
+
+  const handleStartOver = () => {
+    clearCookProgress(window.localStorage, recipeId);
+    notifiedRef.current.clear();
+    setProgress(EMPTY_PROGRESS);
+  };
+
+  // Arrow keys step through the recipe
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'ArrowRight') handleNext();
+      if (e.key === 'ArrowLeft') goTo(progress.step - 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  if (steps.length === 0) {
+    return <p style={{ color: '#666', fontStyle: 'italic' }}>This recipe has no steps to cook.</p>;
+  }
+
+  const current = steps[progress.step];
+  const isLast = progress.step === steps.length - 1;
+  const stepTimerRunning = progress.timers.some((timer) => timer.step === progress.step && timer.endsAt > now);
+
+  const buttonStyle = {
+    padding: '16px 28px',
+    fontSize: '18px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '8px',
+    backgroundColor: '#fff',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '14px', color: '#666' }}>
+        <span>
+          Step {progress.step + 1} of {steps.length}
+          {current.section && ` · ${current.section}`}
+        </span>
+        <span style={{ display: 'flex', gap: '16px', alignItems: 'center' }}>
+          {screenAwake && <span className="chip">Screen stays on</span>}
+          <button
+            onClick={handleStartOver}
+            style={{ background: 'none', border: 'none', color: '#666', textDecoration: 'underline', cursor: 'pointer' }}
+          >
+            Start over
+          </button>
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {steps.map((_, idx) => (
+          <button
+            key={idx}
+            onClick={() => goTo(idx)}
+            aria-label={`Go to step ${idx + 1}`}
+            style={{
+              flex: 1,
+              height: '6px',
+              border: 'none',
+              borderRadius: '3px',
+              cursor: 'pointer',
+              backgroundColor: idx === progress.step ? '#000' : progress.done.includes(idx) ? '#66bb6a' : '#e0e0e0',
+            }}
+          />
+        ))}
+      </div>
+
+      <p style={{ margin: 0, fontSize: '32px', lineHeight: '1.4', fontWeight: 500 }}>{current.text}</p>
+
+      {current.completionCue && (
+        <p style={{ margin: 0, fontSize: '18px', color: '#666' }}>Done when: {current.completionCue}</p>
+      )}
+
+      {current.ingredients.length > 0 && (
+        <div className="card">
+          <div className="cardBody">
+            <ul style={{ margin: 0, paddingLeft: '24px', fontSize: '20px', lineHeight: '1.6' }}>
+              {current.ingredients.map((line, idx) => (
+                <li key={idx}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {current.timer && (
+        <button
+          onClick={() => handleStartTimer(progress.step)}
+          disabled={stepTimerRunning}
+          style={{ ...buttonStyle, alignSelf: 'flex-start', opacity: stepTimerRunning ? 0.5 : 1 }}
+        >
+          ⏱ Start {current.timer.label} timer
+        </button>
+      )}
+
+      {progress.timers.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px' }}>
+          {progress.timers.map((timer) => {
+            const remaining = (timer.endsAt - now) / 1000;
+            const finished = remaining <= 0;
+            return (
+              <div
+                key={timer.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '12px 16px',
+                  borderRadius: '8px',
+                  border: `2px solid ${finished ? '#dc2626' : '#d0d0d0'}`,
+                  backgroundColor: finished ? '#fef2f2' : '#fff',
+                }}
+              >
+                <button
+                  onClick={() => goTo(timer.step)}
+                  style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: '14px', color: '#666' }}
+                >
+                  {timer.label}
+                </button>
+                <span style={{ fontSize: '24px', fontVariantNumeric: 'tabular-nums', color: finished ? '#dc2626' : '#000' }}>
+                  {finished ? 'Done!' : formatCountdown(remaining)}
+                </span>
+                <button
+                  onClick={() => handleDismissTimer(timer.id)}
+                  aria-label="Dismiss timer"
+                  style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '18px', color: '#666' }}
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '16px' }}>
+        <button onClick={() => goTo(progress.step - 1)} disabled={progress.step === 0} style={buttonStyle}>
+          ← Back
+        </button>
+        <button
+          onClick={handleNext}
+          disabled={isLast && progress.done.includes(progress.step)}
+          style={{ ...buttonStyle, backgroundColor: '#000', color: '#fff', border: '1px solid #000' }}
+        >
+          {isLast ? 'Finish' : 'Next →'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import { buildCookSchedule, describeTimeline } from '@/lib/mise/schedule';
+import { parseServeTime, planForServeTime, servePlanToIcs } from '@/lib/mise/servePlan';
+import type { ServePlan } from '@/lib/mise/servePlan';
+import { formatDuration } from '@/lib/mise/recipeMeta';
+import { slugify } from '@/lib/utils/slugify';
+
+const ACTIVITY_COLORS = {
+  active: '#1e88e5',
+  passive: '#b0bec5',
+};
+
+const HEADING_STYLE = {
+  margin: '0 0 12px 0',
+  fontSize: '18px',
+  fontWeight: 600,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.5px',
+  color: '#666',
+};
+
+function clockLabel(date: Date): string {
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function minutesLabel(minutes: number): string {
+  return formatDuration({ minutes: Math.round(minutes) });
+}
+
+/**
+ * Gantt-style cook schedule for the timed stack: one bar per step on a
+ * shared time axis, then a "what to do when" list
+ */
+export default function CookScheduleView({ recipe }: { recipe: SoustackLiteRecipe }) {
+  const [serveText, setServeText] = useState('');
+  const schedule = buildCookSchedule(recipe);
+  const slices = describeTimeline(schedule);
+  const total = schedule.totalMinutes;
+
+  if (schedule.steps.length === 0 || total === 0) {
+    return (
+      <p style={{ color: '#999', fontStyle: 'italic' }}>
+        Add durations to your steps to see a cook schedule.
+      </p>
+    );
+  }
+
+  const facts = [
+    `Ready in ${minutesLabel(total)}`,
+    `${minutesLabel(schedule.activeMinutes)} hands-on`,
+    schedule.passiveMinutes > 0 ? `${minutesLabel(schedule.passiveMinutes)} hands-off` : null,
+    schedule.sequentialMinutes > total ? `saves ${minutesLabel(schedule.sequentialMinutes - total)} by overlapping` : null,
+  ].filter((fact): fact is string => fact !== null);
+
+  return (
+    <div>
+      <p style={{ margin: '0 0 16px 0', fontSize: '14px', color: '#666' }}>{facts.join(' · ')}</p>
+      {schedule.untimedSteps > 0 && (
+        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: '#b26a00' }}>
+          {schedule.untimedSteps} step{schedule.untimedSteps === 1 ? ' has' : 's have'} no duration and{' '}
+          {schedule.untimedSteps === 1 ? 'is' : 'are'} shown as instant.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', gap: '16px', marginBottom: '12px', fontSize: '12px', color: '#666' }}>
+        <span>
+          <span style={{ display: 'inline-block', width: '10px', height: '10px', backgroundColor: ACTIVITY_COLORS.active, marginRight: '4px' }} />
+          Active
+        </span>
+        <span>
+          <span style={{ display: 'inline-block', width: '10px', height: '10px', backgroundColor: ACTIVITY_COLORS.passive, marginRight: '4px' }} />
+          Passive
+        </span>
+        <span>
+          <span style={{ display: 'inline-block', width: '10px', height: '10px', border: '2px solid #000', marginRight: '4px' }} />
+          Critical path
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '32px' }}>
+        {schedule.steps.map((step) => (
+          <div key={step.index} style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '13px' }}>
+            <div
+              style={{ width: '180px', flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              title={step.text}
+            >
+              {step.index + 1}. {step.text}
+            </div>
+            <div style={{ position: 'relative', flex: 1, height: '18px', backgroundColor: '#f5f5f5', borderRadius: '3px' }}>
+              <div
+                title={`${minutesLabel(step.start)} → ${minutesLabel(step.end)}`}
+                style={{
+                  position: 'absolute',
+                  left: `${(step.start / total) * 100}%`,
+                  width: `${Math.max((step.minutes / total) * 100, 0.5)}%`,
+                  top: 0,
+                  bottom: 0,
+                  backgroundColor: ACTIVITY_COLORS[step.activity],
+                  border: step.critical ? '2px solid #000' : 'none',
+                  borderRadius: '3px',
+                  boxSizing: 'border-box',
+                }}
+              />
+            </div>
+            <div style={{ width: '64px', flexShrink: 0, textAlign: 'right', color: '#666' }}>
+              {step.timed ? minutesLabel(step.minutes) : '—'}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <ServeTimePlanner recipe={recipe} serveText={serveText} onServeTextChange={setServeText} />
+
+      <h3 style={HEADING_STYLE}>What to do when</h3>
+      <ol style={{ margin: 0, paddingLeft: 0, listStyle: 'none' }}>
+        {slices.map((slice) => (
+          <li key={slice.start} style={{ display: 'flex', gap: '12px', marginBottom: '8px', fontSize: '14px', lineHeight: '1.5' }}>
+            <span style={{ width: '120px', flexShrink: 0, color: '#666' }}>
+              {minutesLabel(slice.start)} – {minutesLabel(slice.end)}
+            </span>
+            <span>
+              {slice.active ? slice.active.text : <em style={{ color: '#999' }}>Free</em>}
+              {slice.running.length > 0 && (
+                <span style={{ color: '#666' }}>
+                  {' '}
+                  (meanwhile: {slice.running.map((step) => step.text).join('; ')})
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function downloadIcs(plan: ServePlan, recipeName: string) {
+  try {
+    const blob = new Blob([servePlanToIcs(plan, recipeName)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slugify(recipeName || 'recipe')}-plan.ics`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Failed to download plan:', error);
+  }
+}
+
+/**
+ * Backward plan from a serve time ("dinner at 7:00pm") with clock times
+ * for every mise en place item and step
+ */
+function ServeTimePlanner({
+  recipe,
+  serveText,
+  onServeTextChange,
+}: {
+  recipe: SoustackLiteRecipe;
+  serveText: string;
+  onServeTextChange: (text: string) => void;
+}) {
+  const serveAt = serveText.trim() ? parseServeTime(serveText) : null;
+  const plan = serveAt ? planForServeTime(recipe, serveAt) : null;
+
+  return (
+    <section style={{ marginBottom: '32px' }}>
+      <h3 style={HEADING_STYLE}>Plan for a serve time</h3>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <input
+          type="text"
+          value={serveText}
+          onChange={(e) => onServeTextChange(e.target.value)}
+          placeholder="dinner at 7:00pm"
+          style={{ flex: 1, padding: '6px 8px', border: '1px solid #d0d0d0', borderRadius: '4px', fontSize: '14px' }}
+        />
+        {plan && (
+          <button
+            onClick={() => downloadIcs(plan, recipe.name)}
+            style={{
+              padding: '6px 12px',
+              border: '1px solid #d0d0d0',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontSize: '13px',
+            }}
+          >
+            Download .ics
+          </button>
+        )}
+      </div>
+
+      {serveText.trim() && !plan && (
+        <p style={{ margin: 0, fontSize: '13px', color: '#b26a00' }}>
+          Enter a time such as &quot;7pm&quot; or &quot;19:30&quot;.
+        </p>
+      )}
+
+      {plan && (
+        <>
+          <p style={{ margin: '0 0 12px 0', fontSize: '14px', color: '#666' }}>
+            Start at {clockLabel(plan.startAt)} to serve at {clockLabel(plan.serveAt)}
+            {plan.slackMinutes > 0 && ` · may be ready up to ${minutesLabel(plan.slackMinutes)} early`}
+          </p>
+          <ol style={{ margin: 0, paddingLeft: 0, listStyle: 'none' }}>
+            {plan.items.map((item, idx) => (
+              <li key={idx} style={{ display: 'flex', gap: '12px', marginBottom: '8px', fontSize: '14px', lineHeight: '1.5' }}>
+                <span style={{ width: '120px', flexShrink: 0, color: '#666' }}>
+                  {clockLabel(item.start)} – {clockLabel(item.end)}
+                </span>
+                <span>
+                  {item.kind === 'mise' && <span className="chip" style={{ marginRight: '6px' }}>Mise</span>}
+                  {item.text}
+                  {item.activity === 'passive' && <span style={{ color: '#666' }}> (hands-off)</span>}
+                  {item.slackMinutes > 0 && (
+                    <span style={{ color: '#b26a00' }}> · may finish {minutesLabel(item.slackMinutes)} early</span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+type DraftRestoreBannerProps = {
+  savedAt: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+};
+
+const linkButtonStyle = {
+  marginLeft: '12px',
+  padding: '4px 8px',
+  border: 'none',
+  backgroundColor: 'transparent',
+  cursor: 'pointer',
+  fontSize: '14px',
+  color: '#92400e',
+  textDecoration: 'underline',
+};
+
+/**
+ * Offers unsaved changes kept on this device from an earlier visit
+ */
+export default function DraftRestoreBanner({ savedAt, onRestore, onDiscard }: DraftRestoreBannerProps) {
+  return (
+    <div
+      role="status"
+      style={{
+        padding: '12px 24px',
+        borderBottom: '1px solid #e0e0e0',
+        backgroundColor: '#fef3c7',
+        color: '#92400e',
+        fontSize: '14px',
+      }}
+    >
+      You have unsaved changes on this device from {new Date(savedAt).toLocaleString()}.
+      <button onClick={onRestore} style={{ ...linkButtonStyle, fontWeight: 600 }}>
+        Restore
+      </button>
+      <button onClick={onDiscard} style={linkButtonStyle}>
+        Discard
+      </button>
+    </div>
+  );
+}
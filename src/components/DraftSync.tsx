@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect } from 'react';
+import { saveRecipeAction } from '@/app/actions/recipes';
+import { syncPendingDrafts, type DraftSyncOutcome, type StoredDraft } from '@/lib/mise/drafts';
+
+// Drafts an open editor syncs itself: it can resolve conflicts and needs the new id
+const claimedDrafts = new Set<string>();
+
+/**
+ * Marks a draft as handled by the calling editor until the returned
+ * function is called
+ */
+export function claimDraft(key: string): () => void {
+  claimedDrafts.add(key);
+  return () => {
+    claimedDrafts.delete(key);
+  };
+}
+
+async function saveDraft(draft: StoredDraft): Promise<DraftSyncOutcome> {
+  try {
+    const result = await saveRecipeAction({
+      id: draft.recipeId,
+      doc: draft.doc,
+      baseRevision: draft.baseRevision,
+    });
+    return { status: result.status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    if (message === 'INVALID_RECIPE' || message === 'NOT_FOUND') return { status: 'rejected' };
+    // A recipe never saved while signed out has no owner to save it for;
+    // it stays on the device for the restore prompt
+    if (message === 'AUTH_REQUIRED') return { status: draft.recipeId ? 'retry' : 'rejected' };
+    if (message === 'SAVE_FAILED') return { status: 'retry' };
+    // Offline or unreachable: keep the queue for the next attempt
+    throw error;
+  }
+}
+
+/**
+ * Sends saves queued while offline once the browser is back online (and
+ * on page load, for saves queued before a reload)
+ */
+export default function DraftSync() {
+  useEffect(() => {
+    let running = false;
+    const sync = async () => {
+      if (running || !navigator.onLine) return;
+      running = true;
+      try {
+        await syncPendingDrafts(window.localStorage, saveDraft, claimedDrafts);
+      } finally {
+        running = false;
+      }
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, []);
+
+  return null;
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import { analyzeProfile, type ProfileReport } from '@/lib/mise/profiles';
 
 type EditorTopBarProps = {
   recipe: SoustackLiteRecipe;
@@ -8,13 +9,28 @@ type EditorTopBarProps = {
   onModeChange: (mode: 'draft' | 'mise') => void;
   onNameChange: (name: string) => void;
   onDescriptionChange: (description: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 };
 
+const historyButtonStyle = (enabled: boolean) => ({
+  padding: '8px 10px',
+  border: '1px solid #d0d0d0',
+  borderRadius: '4px',
+  backgroundColor: '#fff',
+  color: enabled ? '#000' : '#bbb',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '14px',
+  lineHeight: 1,
+});
+
 /**
  * Computes status indicator from profile + stacks + content
  * Status is derived only, never persisted
  */
-function computeStatus(recipe: SoustackLiteRecipe): {
+function computeStatus(recipe: SoustackLiteRecipe, report: ProfileReport): {
   label: string;
   variant: 'valid' | 'partial' | 'minimal';
 } {
@@ -32,21 +48,12 @@ function computeStatus(recipe: SoustackLiteRecipe): {
       return str === '(not provided)' || str.trim() === '';
     });
 
-  // Consider profile and stacks in status computation
-  const profile = recipe.profile;
-  const stacks = recipe.stacks;
-  const hasStacks = stacks && Object.keys(stacks).length > 0;
-  
-  // Profile-specific requirements (for future profiles)
-  // For 'lite' profile, stacks are optional
-  const profileRequirementsMet = profile === 'lite' || (hasStacks && Object.keys(stacks).length > 0);
-
-  // Valid: has name, ingredients, instructions, and profile requirements met
-  if (hasName && hasIngredients && hasInstructions && profileRequirementsMet) {
+  // Valid: the recipe satisfies at least the base profile
+  if (report.profile !== 'lite') {
     return { label: 'Valid', variant: 'valid' };
-  } 
+  }
   // Partial: has at least name or some content
-  else if (hasName || hasIngredients || hasInstructions) {
+  if (hasName || hasIngredients || hasInstructions) {
     return { label: 'Partial', variant: 'partial' };
   } 
   // Minimal: empty or just profile/stacks
@@ -61,8 +68,17 @@ export default function EditorTopBar({
   onModeChange,
   onNameChange,
   onDescriptionChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }: EditorTopBarProps) {
-  const status = computeStatus(recipe);
+  const report = analyzeProfile(recipe);
+  const status = computeStatus(recipe, report);
+  // Profiles above base hold independently; name the ones besides the strongest
+  const alsoSatisfied = report.satisfied.filter(
+    (profile) => profile !== 'lite' && profile !== 'base' && profile !== report.profile
+  );
 
   const statusColors = {
     valid: { bg: '#d1fae5', text: '#065f46', border: '#10b981' },
@@ -109,6 +125,28 @@ export default function EditorTopBar({
           />
         </div>
 
+        {/* Undo / redo */}
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+            style={historyButtonStyle(canUndo)}
+          >
+            ↶
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+            style={historyButtonStyle(canRedo)}
+          >
+            ↷
+          </button>
+        </div>
+
         {/* Mode toggle */}
         <div
           style={{
@@ -186,6 +224,18 @@ export default function EditorTopBar({
           }}
         />
       </div>
+
+      {/* Compiled profile and what the next one up still needs */}
+      <div style={{ fontSize: '13px', color: '#666' }}>
+        Profile: <strong style={{ color: '#111' }}>{report.profile}</strong>
+        {alsoSatisfied.length > 0 && <span> (also {alsoSatisfied.join(', ')})</span>}
+        {report.next && (
+          <span>
+            {' · '}
+            To reach <strong>{report.next}</strong>: {report.missing.map((requirement) => requirement.message).join('; ')}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { EquipmentItem, SoustackLiteRecipe } from '@/lib/mise/types';
+import { isStackEnabled, enableStack } from '@/lib/mise/stacks';
+import { assignEquipmentIds, readEquipment, removeDeletedEquipmentRefs } from '@/lib/mise/equipment';
+import { InlineStackToggle } from './CapabilitiesPanel';
+
+// Alternatives are edited as comma-separated text
+type EquipmentRow = EquipmentItem & { alternativesText: string };
+
+type EquipmentSectionProps = {
+  recipe: SoustackLiteRecipe;
+  onChange: (next: SoustackLiteRecipe) => void;
+  showCreatorHints?: boolean;
+};
+
+const inputStyle = {
+  padding: '8px 12px',
+  border: '1px solid #d0d0d0',
+  borderRadius: '4px',
+  fontSize: '14px',
+};
+
+function toRow(item: EquipmentItem): EquipmentRow {
+  return { ...item, alternativesText: (item.alternatives ?? []).join(', ') };
+}
+
+function toItem({ alternativesText, ...item }: EquipmentRow): EquipmentItem {
+  const alternatives = alternativesText
+    .split(',')
+    .map((alt) => alt.trim())
+    .filter(Boolean);
+  const next: EquipmentItem = { ...item, name: item.name.trim() };
+  if (alternatives.length > 0) next.alternatives = alternatives;
+  else delete next.alternatives;
+  return next;
+}
+
+/**
+ * Equipment section component
+ * - Visible when equipment capability is enabled (recipe.stacks.equipment)
+ * - Content stored in top-level recipe.equipment (array of {id, name, ...})
+ * - Quantity, size/capacity, optional flag and alternatives per item
+ * - Removing an item also removes step references to it
+ */
+export default function EquipmentSection({
+  recipe,
+  onChange,
+  showCreatorHints = false,
+}: EquipmentSectionProps) {
+  const isEnabled = isStackEnabled(recipe.stacks, 'equipment');
+  const [rows, setRows] = useState<EquipmentRow[]>(() => readEquipment(recipe).map(toRow));
+  // Track if we're making the change ourselves to avoid useEffect sync race
+  const isInternalUpdateRef = useRef(false);
+
+  // Sync rows when recipe changes externally, keeping unnamed rows being edited
+  useEffect(() => {
+    if (isInternalUpdateRef.current) {
+      setTimeout(() => {
+        isInternalUpdateRef.current = false;
+      }, 0);
+      return;
+    }
+    const emptyLocalRows = rows.filter((row) => !row.name.trim());
+    setRows([...readEquipment(recipe).map(toRow), ...emptyLocalRows]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recipe.equipment]);
+
+  const updateRows = (newRows: EquipmentRow[]) => {
+    isInternalUpdateRef.current = true;
+
+    // Unnamed rows stay local until they get a name
+    const named = newRows.filter((row) => row.name.trim().length > 0).map(toItem);
+    let next: SoustackLiteRecipe = assignEquipmentIds({ ...recipe, equipment: named });
+    next = removeDeletedEquipmentRefs(recipe, next);
+
+    // Ids assigned on save flow back into the local rows
+    const ids = (next.equipment ?? []).map((item) => item.id);
+    let namedIndex = 0;
+    setRows(newRows.map((row) => (row.name.trim() ? { ...row, id: ids[namedIndex++] } : row)));
+
+    // Auto-enable equipment stack in Creator mode when items are added
+    if (showCreatorHints && !isEnabled) {
+      next = { ...next, stacks: enableStack(next.stacks, 'equipment') };
+    }
+    onChange(next);
+  };
+
+  const handleFieldChange = (index: number, patch: Partial<EquipmentRow>) => {
+    const newRows = [...rows];
+    newRows[index] = { ...newRows[index], ...patch };
+    updateRows(newRows);
+  };
+
+  const handleAddItem = () => {
+    isInternalUpdateRef.current = true;
+    setRows([...rows, { name: '', alternativesText: '' }]);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    updateRows(rows.filter((_, i) => i !== index));
+  };
+
+  const handleMove = (index: number, delta: -1 | 1) => {
+    const target = index + delta;
+    if (target < 0 || target >= rows.length) return;
+    const newRows = [...rows];
+    [newRows[index], newRows[target]] = [newRows[target], newRows[index]];
+    updateRows(newRows);
+  };
+
+  // Show placeholder when capability is not enabled
+  if (!isEnabled) {
+    return (
+      <div style={{ marginBottom: '32px' }}>
+        <label
+          style={{
+            display: 'block',
+            fontSize: '14px',
+            fontWeight: 500,
+            marginBottom: '12px',
+          }}
+        >
+          Equipment
+        </label>
+        <InlineStackToggle
+          recipe={recipe}
+          onChange={onChange}
+          stackKey="equipment"
+          label="Add Equipment"
+          variant="placeholder"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginBottom: '32px' }}>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '12px',
+          paddingLeft: '12px',
+          borderLeft: '3px solid var(--cap-equipment)',
+          backgroundColor: 'var(--cap-equipment-bg)',
+          paddingTop: '8px',
+          paddingBottom: '8px',
+          borderRadius: '4px',
+        }}
+      >
+        <label style={{ fontSize: '14px', fontWeight: 500 }}>Equipment</label>
+        <button
+          onClick={handleAddItem}
+          style={{
+            padding: '6px 12px',
+            border: '1px solid #d0d0d0',
+            borderRadius: '4px',
+            backgroundColor: '#fff',
+            cursor: 'pointer',
+            fontSize: '13px',
+          }}
+        >
+          + Add equipment
+        </button>
+      </div>
+      {rows.length === 0 ? (
+        <div
+          style={{
+            padding: '16px',
+            border: '1px dashed #d0d0d0',
+            borderRadius: '4px',
+            backgroundColor: '#fafafa',
+            textAlign: 'center',
+            color: '#999',
+            fontSize: '14px',
+          }}
+        >
+          No equipment yet. Click &quot;+ Add equipment&quot; to get started.
+        </div>
+      ) : (
+        rows.map((row, idx) => (
+          <div
+            key={idx}
+            data-mise-anchor={row.id ? `equipment:${row.id}` : undefined}
+            style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: '8px',
+              marginBottom: '12px',
+              paddingBottom: '12px',
+              borderBottom: '1px solid #f0f0f0',
+              alignItems: 'center',
+            }}
+          >
+            <input
+              type="number"
+              min="1"
+              value={row.quantity ?? ''}
+              onChange={(e) => handleFieldChange(idx, { quantity: e.target.value ? Number(e.target.value) : undefined })}
+              placeholder="Qty"
+              aria-label="Quantity"
+              style={{ ...inputStyle, width: '64px' }}
+            />
+            <input
+              type="text"
+              value={row.size ?? ''}
+              onChange={(e) => handleFieldChange(idx, { size: e.target.value || undefined })}
+              placeholder="Size (9-inch)"
+              aria-label="Size or capacity"
+              style={{ ...inputStyle, width: '120px' }}
+            />
+            <input
+              type="text"
+              value={row.name}
+              onChange={(e) => handleFieldChange(idx, { name: e.target.value })}
+              placeholder="Equipment name"
+              aria-label="Name"
+              style={{ ...inputStyle, flex: 1, minWidth: '160px' }}
+            />
+            <div style={{ display: 'flex', gap: '2px' }}>
+              <button
+                onClick={() => handleMove(idx, -1)}
+                disabled={idx === 0}
+                title="Move up"
+                style={{
+                  padding: '4px 8px',
+                  border: '1px solid #d0d0d0',
+                  borderRadius: '3px',
+                  backgroundColor: '#fff',
+                  cursor: idx === 0 ? 'not-allowed' : 'pointer',
+                  fontSize: '12px',
+                  opacity: idx === 0 ? 0.5 : 1,
+                }}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => handleMove(idx, 1)}
+                disabled={idx === rows.length - 1}
+                title="Move down"
+                style={{
+                  padding: '4px 8px',
+                  border: '1px solid #d0d0d0',
+                  borderRadius: '3px',
+                  backgroundColor: '#fff',
+                  cursor: idx === rows.length - 1 ? 'not-allowed' : 'pointer',
+                  fontSize: '12px',
+                  opacity: idx === rows.length - 1 ? 0.5 : 1,
+                }}
+              >
+                ↓
+              </button>
+            </div>
+            <button
+              onClick={() => handleRemoveItem(idx)}
+              style={{
+                padding: '8px 16px',
+                border: '1px solid #d0d0d0',
+                borderRadius: '4px',
+                backgroundColor: '#fff',
+                cursor: 'pointer',
+                fontSize: '13px',
+              }}
+            >
+              Remove
+            </button>
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'center', width: '100%' }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '13px', color: '#666' }}>
+                <input
+                  type="checkbox"
+                  checked={!!row.optional}
+                  onChange={(e) => handleFieldChange(idx, { optional: e.target.checked || undefined })}
+                />
+                Optional
+              </label>
+              <input
+                type="text"
+                value={row.alternativesText}
+                onChange={(e) => handleFieldChange(idx, { alternativesText: e.target.value })}
+                placeholder="Alternatives, comma-separated (springform pan, pie dish)"
+                aria-label="Alternatives"
+                style={{ ...inputStyle, flex: 1, fontSize: '13px', padding: '6px 10px' }}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { RecipeImage, SoustackLiteRecipe } from '@/lib/mise/types';
+import { isStackEnabled } from '@/lib/mise/stacks';
+import { ACCEPTED_IMAGE_TYPES, checkImageFile, imageSrcSet, readImages } from '@/lib/mise/images';
+import { prepareImageUpload } from '@/lib/utils/resizeImage';
+import { uploadRecipeImageAction } from '@/app/actions/images';
+import { InlineStackToggle } from './CapabilitiesPanel';
+
+type ImageAttachmentsProps = {
+  images: RecipeImage[];
+  onChange: (images: RecipeImage[]) => void;
+  addLabel?: string;
+};
+
+function uploadErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'AUTH_REQUIRED') return 'Sign in to upload images.';
+  if (message === 'INVALID_IMAGE') return 'That image could not be used. Try a JPEG, PNG or WebP file.';
+  return 'Upload failed. Please try again.';
+}
+
+/**
+ * Thumbnails with alt text fields and an upload button. Uploads are
+ * resized in the browser to the fixed widths before they are sent.
+ */
+export function ImageAttachments({ images, onChange, addLabel = '+ Add image' }: ImageAttachmentsProps) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const problem = checkImageFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError(null);
+    setUploading(true);
+    try {
+      const image = await uploadRecipeImageAction(await prepareImageUpload(file, ''));
+      onChange([...images, image]);
+    } catch (err) {
+      console.error('Image upload failed:', err);
+      setError(uploadErrorMessage(err));
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleAltChange = (index: number, alt: string) => {
+    onChange(images.map((image, i) => (i === index ? { ...image, alt } : image)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(images.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      {images.map((image, idx) => (
+        <div key={`${image.url}-${idx}`} style={{ display: 'flex', gap: '12px', alignItems: 'center', marginBottom: '8px' }}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={image.url}
+            srcSet={imageSrcSet(image)}
+            sizes="96px"
+            alt={image.alt || ''}
+            style={{ width: '96px', height: '64px', objectFit: 'cover', borderRadius: '4px', flexShrink: 0 }}
+          />
+          <input
+            type="text"
+            value={image.alt || ''}
+            onChange={(e) => handleAltChange(idx, e.target.value)}
+            placeholder="Alt text: describe what the image shows"
+            aria-label="Alt text"
+            style={{
+              flex: 1,
+              padding: '6px 10px',
+              border: `1px solid ${image.alt?.trim() ? '#d0d0d0' : '#f59e0b'}`,
+              borderRadius: '4px',
+              fontSize: '13px',
+            }}
+          />
+          <button
+            onClick={() => handleRemove(idx)}
+            style={{
+              padding: '6px 12px',
+              border: '1px solid #d0d0d0',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontSize: '12px',
+            }}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        style={{ display: 'none' }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={uploading}
+        style={{
+          padding: '6px 12px',
+          border: '1px solid #d0d0d0',
+          borderRadius: '4px',
+          backgroundColor: '#fff',
+          cursor: uploading ? 'wait' : 'pointer',
+          fontSize: '12px',
+          opacity: uploading ? 0.6 : 1,
+        }}
+      >
+        {uploading ? 'Uploading…' : addLabel}
+      </button>
+      {error && <div style={{ marginTop: '6px', fontSize: '12px', color: '#dc2626' }}>{error}</div>}
+    </div>
+  );
+}
+
+type ImagesSectionProps = {
+  recipe: SoustackLiteRecipe;
+  onChange: (next: SoustackLiteRecipe) => void;
+};
+
+/**
+ * Recipe images section component
+ * - Visible when illustrated capability is enabled (recipe.stacks.illustrated)
+ * - Content stored in top-level recipe.images; the first image is the hero
+ * - Step images are edited on each structured step
+ */
+export default function ImagesSection({ recipe, onChange }: ImagesSectionProps) {
+  const isEnabled = isStackEnabled(recipe.stacks, 'illustrated');
+
+  if (!isEnabled) {
+    return (
+      <div style={{ marginBottom: '32px' }}>
+        <label
+          style={{
+            display: 'block',
+            fontSize: '14px',
+            fontWeight: 500,
+            marginBottom: '12px',
+          }}
+        >
+          Images
+        </label>
+        <InlineStackToggle
+          recipe={recipe}
+          onChange={onChange}
+          stackKey="illustrated"
+          label="Add Images"
+          variant="placeholder"
+        />
+      </div>
+    );
+  }
+
+  const handleImagesChange = (images: RecipeImage[]) => {
+    const next = { ...recipe };
+    if (images.length > 0) next.images = images;
+    else delete next.images;
+    onChange(next);
+  };
+
+  return (
+    <div data-mise-anchor="images" style={{ marginBottom: '32px' }}>
+      <div
+        style={{
+          marginBottom: '12px',
+          paddingLeft: '12px',
+          borderLeft: '3px solid var(--cap-illustrated)',
+          backgroundColor: 'var(--cap-illustrated-bg)',
+          paddingTop: '8px',
+          paddingBottom: '8px',
+          borderRadius: '4px',
+        }}
+      >
+        <label style={{ fontSize: '14px', fontWeight: 500 }}>Images</label>
+        <div style={{ fontSize: '12px', color: '#666', marginTop: '2px' }}>
+          The first image is shown at the top of the recipe.
+        </div>
+      </div>
+      <ImageAttachments images={readImages(recipe.images)} onChange={handleImagesChange} />
+    </div>
+  );
+}
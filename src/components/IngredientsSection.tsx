@@ -3,12 +3,13 @@
 import { useState, useEffect, useRef } from 'react';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 import { isStackEnabled } from '@/lib/mise/stacks';
+import { formatQuantity, withParsedQuantity } from '@/lib/mise/ingredientLine';
 
 // Types for ingredient structures
 type IngredientString = string;
 
 type IngredientObject = {
-  quantity?: string | number;
+  quantity?: string | number | { min: number; max: number };
   unit?: string;
   name: string;
   scaling?: {
@@ -135,7 +136,17 @@ export default function IngredientsSection({
       }
       return false;
     });
-    next.ingredients = filtered.length > 0 ? filtered : ['(not provided)'];
+    // Quantities stay as typed in the inputs; the recipe gets them parsed
+    const parseItem = (item: IngredientItem): IngredientItem => {
+      if (typeof item !== 'object') return item;
+      if ('section' in item) {
+        const { section } = item as IngredientSection;
+        return { ...item, section: { ...section, items: section.items.map(parseItem) } };
+      }
+      return withParsedQuantity(item as IngredientObject);
+    };
+    const parsed = filtered.map(parseItem);
+    next.ingredients = parsed.length > 0 ? parsed : ['(not provided)'];
     onChange(next);
   };
 
@@ -482,7 +493,7 @@ export default function IngredientsSection({
   // Extract scaling text from structured ingredient
   const getScalingText = (item: IngredientObject): string | null => {
     if (item.quantity !== undefined && item.quantity !== null && item.quantity !== '') {
-      const qty = String(item.quantity);
+      const qty = formatQuantity(item.quantity);
       const unit = item.unit && typeof item.unit === 'string' ? item.unit.trim() : '';
       return unit ? `${qty} ${unit}` : qty;
     }
@@ -500,6 +511,7 @@ export default function IngredientsSection({
     return (
       <div
         key={index}
+        data-mise-anchor={typeof item.id === 'string' ? `ingredient:${item.id}` : undefined}
         draggable
         onDragStart={() => handleDragStart(index)}
         onDragOver={(e) => handleDragOver(e, index)}
@@ -564,7 +576,7 @@ export default function IngredientsSection({
         {/* Quantity */}
         <input
           type="text"
-          value={item.quantity || ''}
+          value={formatQuantity(item.quantity)}
           onChange={(e) => handleStructuredChange(index, 'quantity', e.target.value || '')}
           onFocus={() => setFocusedIndex(index)}
           onBlur={(e) => {
@@ -851,6 +863,11 @@ export default function IngredientsSection({
               return (
                 <div
                   key={itemIdx}
+                  data-mise-anchor={
+                    isStructured(sectionItem) && typeof sectionItem.id === 'string'
+                      ? `ingredient:${sectionItem.id}`
+                      : undefined
+                  }
                   style={{ marginBottom: '8px' }}
                   onMouseEnter={() => setHoveredSectionItem(itemKey)}
                   onMouseLeave={() => setHoveredSectionItem(null)}
@@ -897,7 +914,7 @@ export default function IngredientsSection({
                     <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
                       <input
                         type="text"
-                        value={sectionItem.quantity || ''}
+                        value={formatQuantity(sectionItem.quantity)}
                         onChange={(e) =>
                           handleSectionItemChange(index, itemIdx, {
                             ...sectionItem,
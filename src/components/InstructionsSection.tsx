@@ -1,9 +1,14 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import type { EquipmentItem, RecipeImage, SoustackLiteRecipe } from '@/lib/mise/types';
 import { isStackEnabled, enableStack } from '@/lib/mise/stacks';
+import { autoLinkInputs, listIngredientRefs } from '@/lib/mise/ingredientRefs';
+import { formatEquipmentItem, readEquipment } from '@/lib/mise/equipment';
+import { readImages } from '@/lib/mise/images';
+import type { IngredientRef } from '@/lib/mise/ingredientRefs';
 import { InlineStackToggle } from './CapabilitiesPanel';
+import { ImageAttachments } from './ImagesSection';
 import InlineHint from './creator/InlineHint';
 import { shouldSuggestTimed } from './creator/hintUtils';
 
@@ -20,6 +25,8 @@ type InstructionObject = {
     [key: string]: unknown;
   };
   inputs?: string[]; // Array of ingredient IDs (as strings)
+  equipment?: string[]; // Array of equipment IDs
+  images?: RecipeImage[]; // illustrated stack
   [key: string]: unknown; // Allow other fields
 };
 
@@ -44,6 +51,8 @@ type InstructionsSectionProps = {
  * - Supports structured objects (with id, text) when structured stack enabled
  * - Supports timing controls when timed stack enabled
  * - Supports referenced inputs when referenced stack enabled
+ * - Supports per-step equipment when equipment stack enabled
+ * - Supports per-step images when illustrated stack enabled
  * - Preserves unknown fields
  * - Never throws, never deletes user content
  */
@@ -55,6 +64,10 @@ export default function InstructionsSection({
   const hasStructured = isStackEnabled(recipe.stacks, 'structured');
   const hasTimed = isStackEnabled(recipe.stacks, 'timed');
   const hasReferenced = isStackEnabled(recipe.stacks, 'referenced');
+  const ingredientRefs = hasReferenced ? listIngredientRefs(recipe) : [];
+  const hasEquipment = isStackEnabled(recipe.stacks, 'equipment');
+  const equipmentItems = hasEquipment ? readEquipment(recipe).filter((item) => item.id) : [];
+  const hasIllustrated = isStackEnabled(recipe.stacks, 'illustrated');
 
   // Normalize a single instruction item to canonical editor shape
   const normalizeItem = (item: unknown): InstructionItem => {
@@ -79,18 +92,6 @@ export default function InstructionsSection({
         return normalizedSection;
       }
       
-      // Spec-style shape: { section: string, steps: [...] }
-      if ('section' in item && typeof item.section === 'string' && 'steps' in item && Array.isArray(item.steps)) {
-        const specItem = item as { section: string; steps: unknown[] };
-        const normalizedSection: InstructionSection = {
-          section: {
-            name: specItem.section,
-            items: specItem.steps.map(normalizeItem),
-          },
-        };
-        return normalizedSection;
-      }
-      
       // Structured object (with text field)
       if ('text' in item) {
         return item as InstructionObject;
@@ -735,6 +736,7 @@ export default function InstructionsSection({
     return (
       <div
         key={index}
+        data-mise-anchor={`step:${index}`}
         draggable
         onDragStart={() => handleDragStart(index)}
         onDragOver={(e) => handleDragOver(e, index)}
@@ -857,6 +859,7 @@ export default function InstructionsSection({
     return (
       <div
         key={index}
+        data-mise-anchor={`step:${index}`}
         draggable
         onDragStart={() => handleDragStart(index)}
         onDragOver={(e) => handleDragOver(e, index)}
@@ -1077,18 +1080,10 @@ export default function InstructionsSection({
               <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
                 {item.inputs.map((inputId, inputIdx) => (
                   <div key={inputIdx} style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
-                    <input
-                      type="text"
+                    <IngredientInputPicker
                       value={inputId || ''}
-                      onChange={(e) => handleInputChange(index, inputIdx, e.target.value || '')}
-                      placeholder="Ingredient ID"
-                      style={{
-                        flex: 1,
-                        padding: '6px 10px',
-                        border: '1px solid #d0d0d0',
-                        borderRadius: '4px',
-                        fontSize: '13px',
-                      }}
+                      options={ingredientRefs}
+                      onChange={(value) => handleInputChange(index, inputIdx, value)}
                     />
                     <button
                       onClick={() => handleRemoveInput(index, inputIdx)}
@@ -1114,6 +1109,23 @@ export default function InstructionsSection({
           </div>
         )}
 
+        {/* Step equipment (when equipment stack enabled) */}
+        {hasEquipment && showActions && equipmentItems.length > 0 && (
+          <StepEquipmentPicker
+            value={item.equipment || []}
+            options={equipmentItems}
+            onChange={(ids) => handleStructuredChange(index, 'equipment', ids)}
+          />
+        )}
+
+        {/* Step images (when illustrated stack enabled) */}
+        {hasIllustrated && (showActions || readImages(item.images).length > 0) && (
+          <StepImages
+            images={readImages(item.images)}
+            onChange={(images) => handleStructuredChange(index, 'images', images.length > 0 ? images : undefined)}
+          />
+        )}
+
         {/* Remove button */}
         {showActions && (
           <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
@@ -1149,6 +1161,7 @@ export default function InstructionsSection({
     return (
       <div
         key={index}
+        data-mise-anchor={`step:${index}`}
         draggable
         onDragStart={() => handleDragStart(index)}
         onDragOver={(e) => handleDragOver(e, index)}
@@ -1278,6 +1291,7 @@ export default function InstructionsSection({
               return (
                 <div
                   key={itemIdx}
+                  data-mise-anchor={`step:${index}.${itemIdx}`}
                   style={{ marginBottom: '8px' }}
                   onMouseEnter={() => setHoveredSectionItem(itemKey)}
                   onMouseLeave={() => setHoveredSectionItem(null)}
@@ -1529,18 +1543,10 @@ export default function InstructionsSection({
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
                               {sectionItem.inputs.map((inputId, inputIdx) => (
                                 <div key={inputIdx} style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
-                                  <input
-                                    type="text"
+                                  <IngredientInputPicker
                                     value={inputId || ''}
-                                    onChange={(e) => handleSectionInputChange(index, itemIdx, inputIdx, e.target.value || '')}
-                                    placeholder="Ingredient ID"
-                                    style={{
-                                      flex: 1,
-                                      padding: '6px 10px',
-                                      border: '1px solid #d0d0d0',
-                                      borderRadius: '4px',
-                                      fontSize: '13px',
-                                    }}
+                                    options={ingredientRefs}
+                                    onChange={(value) => handleSectionInputChange(index, itemIdx, inputIdx, value)}
                                   />
                                   <button
                                     onClick={() => handleSectionRemoveInput(index, itemIdx, inputIdx)}
@@ -1565,6 +1571,25 @@ export default function InstructionsSection({
                           )}
                         </div>
                       )}
+
+                      {/* Step equipment (when equipment stack enabled) */}
+                      {hasEquipment && showItemActions && equipmentItems.length > 0 && (
+                        <StepEquipmentPicker
+                          value={sectionItem.equipment || []}
+                          options={equipmentItems}
+                          onChange={(ids) => handleSectionStructuredChange(index, itemIdx, 'equipment', ids)}
+                        />
+                      )}
+
+                      {/* Step images (when illustrated stack enabled) */}
+                      {hasIllustrated && (showItemActions || readImages(sectionItem.images).length > 0) && (
+                        <StepImages
+                          images={readImages(sectionItem.images)}
+                          onChange={(images) =>
+                            handleSectionStructuredChange(index, itemIdx, 'images', images.length > 0 ? images : undefined)
+                          }
+                        />
+                      )}
                     </div>
                   ) : null}
                 </div>
@@ -1601,6 +1626,22 @@ export default function InstructionsSection({
           Instructions
         </label>
         <div style={{ display: 'flex', gap: '8px' }}>
+          {hasReferenced && ingredientRefs.length > 0 && (
+            <button
+              onClick={() => onChange(autoLinkInputs(recipe))}
+              title="Link ingredients named in each step"
+              style={{
+                padding: '6px 12px',
+                border: '1px solid #d0d0d0',
+                borderRadius: '4px',
+                backgroundColor: '#fff',
+                cursor: 'pointer',
+                fontSize: '13px',
+              }}
+            >
+              Auto-link inputs
+            </button>
+          )}
           {hasStructured && (
             <button
               onClick={handleAddStructured}
@@ -1751,3 +1792,118 @@ export default function InstructionsSection({
   );
 }
 
+/**
+ * Picks a step input from the recipe's structured ingredients. Inputs that
+ * match no ingredient are kept and shown as missing.
+ */
+function IngredientInputPicker({
+  value,
+  options,
+  onChange,
+}: {
+  value: string;
+  options: IngredientRef[];
+  onChange: (value: string) => void;
+}) {
+  const isKnown = options.some((option) => option.id === value);
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{
+        flex: 1,
+        padding: '6px 10px',
+        border: `1px solid ${value && !isKnown ? '#dc2626' : '#d0d0d0'}`,
+        borderRadius: '4px',
+        fontSize: '13px',
+        backgroundColor: '#fff',
+      }}
+    >
+      <option value="">Choose an ingredient…</option>
+      {value && !isKnown && <option value={value}>{value} (missing)</option>}
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Toggles which of the recipe's equipment a step uses
+ */
+function StepEquipmentPicker({
+  value,
+  options,
+  onChange,
+}: {
+  value: string[];
+  options: EquipmentItem[];
+  onChange: (ids: string[]) => void;
+}) {
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter((other) => other !== id) : [...value, id]);
+  };
+  return (
+    <div
+      style={{
+        marginBottom: '12px',
+        padding: '12px',
+        border: '1px solid #e0e0e0',
+        borderRadius: '4px',
+        backgroundColor: '#fff',
+      }}
+    >
+      <div style={{ marginBottom: '8px', fontSize: '13px', fontWeight: 500, color: '#666' }}>
+        Equipment (optional)
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+        {options.map((option) => {
+          const selected = value.includes(option.id as string);
+          return (
+            <button
+              key={option.id}
+              onClick={() => toggle(option.id as string)}
+              aria-pressed={selected}
+              title={formatEquipmentItem(option)}
+              style={{
+                padding: '4px 10px',
+                border: `1px solid ${selected ? 'var(--cap-equipment)' : '#d0d0d0'}`,
+                borderRadius: '12px',
+                backgroundColor: selected ? 'var(--cap-equipment-bg)' : '#fff',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+            >
+              {selected ? '✓ ' : ''}
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Images for one step, with alt text (illustrated stack)
+ */
+function StepImages({ images, onChange }: { images: RecipeImage[]; onChange: (images: RecipeImage[]) => void }) {
+  return (
+    <div
+      style={{
+        marginBottom: '12px',
+        padding: '12px',
+        border: '1px solid #e0e0e0',
+        borderRadius: '4px',
+        backgroundColor: '#fff',
+      }}
+    >
+      <div style={{ marginBottom: '8px', fontSize: '13px', fontWeight: 500, color: '#666' }}>
+        Images (optional)
+      </div>
+      <ImageAttachments images={images} onChange={onChange} addLabel="+ Add step image" />
+    </div>
+  );
+}
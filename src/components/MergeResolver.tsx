@@ -0,0 +1,164 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import { mergeRecipes, type MergeConflict, type MergeResolutions } from '@/lib/mise/recipeMerge';
+
+type MergeResolverProps = {
+  base: SoustackLiteRecipe | null;
+  ours: SoustackLiteRecipe;
+  theirs: SoustackLiteRecipe;
+  onResolve: (recipe: SoustackLiteRecipe) => void;
+  onCancel: () => void;
+};
+
+const AREA_LABELS: Record<MergeConflict['area'], string> = {
+  details: 'Details',
+  ingredients: 'Ingredient',
+  steps: 'Step',
+};
+
+function SideCard({
+  title,
+  text,
+  selected,
+  onSelect,
+}: {
+  title: string;
+  text?: string;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <button
+      onClick={onSelect}
+      aria-pressed={selected}
+      style={{
+        flex: 1,
+        minWidth: 0,
+        padding: '8px 10px',
+        border: selected ? '2px solid #000' : '1px solid #d0d0d0',
+        borderRadius: '4px',
+        backgroundColor: selected ? '#f5f5f5' : '#fff',
+        cursor: 'pointer',
+        textAlign: 'left',
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ fontSize: '11px', fontWeight: 600, color: '#666', marginBottom: '4px' }}>{title}</div>
+      {text === undefined ? (
+        <span style={{ color: '#999', fontStyle: 'italic' }}>Removed</span>
+      ) : (
+        <span style={{ whiteSpace: 'pre-wrap', overflowWrap: 'anywhere' }}>{text}</span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Side-by-side choice for the edits that overlapped when two saves of the
+ * same recipe were merged. Everything else is already merged.
+ */
+export default function MergeResolver({ base, ours, theirs, onResolve, onCancel }: MergeResolverProps) {
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const conflicts = useMemo(() => mergeRecipes(base, ours, theirs).conflicts, [base, ours, theirs]);
+
+  const choose = (id: string, side: 'ours' | 'theirs') => setResolutions((prev) => ({ ...prev, [id]: side }));
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="Resolve conflicting edits"
+        style={{
+          backgroundColor: '#fff',
+          padding: '24px',
+          borderRadius: '8px',
+          maxWidth: '720px',
+          width: '90%',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+        }}
+      >
+        <h3 style={{ margin: '0 0 8px 0', fontSize: '18px', fontWeight: 600 }}>Resolve conflicting edits</h3>
+        <p style={{ margin: '0 0 16px 0', fontSize: '14px', color: '#666' }}>
+          This recipe was saved elsewhere while you were editing. Changes that don&apos;t overlap have been
+          merged; choose which version to keep for each of these.
+        </p>
+
+        <div style={{ flex: 1, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {conflicts.map((conflict) => {
+            const side = resolutions[conflict.id] ?? 'ours';
+            return (
+              <div key={conflict.id}>
+                <div style={{ fontSize: '13px', fontWeight: 600, marginBottom: '6px' }}>
+                  {AREA_LABELS[conflict.area]}: {conflict.label}
+                </div>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <SideCard
+                    title="Yours"
+                    text={conflict.ours}
+                    selected={side === 'ours'}
+                    onSelect={() => choose(conflict.id, 'ours')}
+                  />
+                  <SideCard
+                    title="Saved elsewhere"
+                    text={conflict.theirs}
+                    selected={side === 'theirs'}
+                    onSelect={() => choose(conflict.id, 'theirs')}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end', marginTop: '16px' }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: '8px 16px',
+              border: '1px solid #d0d0d0',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onResolve(mergeRecipes(base, ours, theirs, resolutions).recipe)}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#000',
+              color: '#fff',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: 500,
+            }}
+          >
+            Save merged recipe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
 
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 import { isStackEnabled, migrateVersionedStackKeys } from '@/lib/mise/stacks';
+import { auditIngredientUsage } from '@/lib/mise/ingredientAudit';
+import { readEquipment } from '@/lib/mise/equipment';
+import { listImagesWithoutAlt } from '@/lib/mise/images';
 
 type MiseCheckPanelProps = {
   recipe: SoustackLiteRecipe;
@@ -11,6 +14,7 @@ type CheckItem = {
   id: string;
   severity: 'info' | 'warning';
   message: string;
+  target?: string; // editor anchor to jump to ("ingredient:ing-2", "step:3.1")
 };
 
 /**
@@ -154,28 +158,12 @@ export function computeMiseChecks(recipe: SoustackLiteRecipe): CheckItem[] {
   }
 
   // Check 5: Equipment enabled but equipment list missing
-  if (isStackEnabled(stacks, 'equipment')) {
-    // Equipment data is not stored in a top-level field yet, so we check stacks
-    // This is a placeholder check - equipment data structure may be defined elsewhere
-    const equipmentData = stacks.equipment;
-    const isEmpty =
-      equipmentData === undefined ||
-      equipmentData === null ||
-      (Array.isArray(equipmentData) && equipmentData.length === 0) ||
-      (Array.isArray(equipmentData) &&
-        equipmentData.every(
-          (item) =>
-            !item ||
-            (typeof item === 'object' && (!('name' in item) || !item.name || String(item.name).trim() === '')) ||
-            (typeof item === 'string' && item.trim() === '')
-        ));
-    if (isEmpty) {
-      checks.push({
-        id: 'equipment-empty',
-        severity: 'info',
-        message: 'Equipment stack is enabled but equipment list is empty. Consider adding required equipment.',
-      });
-    }
+  if (isStackEnabled(stacks, 'equipment') && readEquipment(recipe).length === 0) {
+    checks.push({
+      id: 'equipment-empty',
+      severity: 'info',
+      message: 'Equipment stack is enabled but equipment list is empty. Consider adding required equipment.',
+    });
   }
 
   // Check 6: Structured stack enabled but instructions are plain strings
@@ -191,9 +179,61 @@ export function computeMiseChecks(recipe: SoustackLiteRecipe): CheckItem[] {
     }
   }
 
+  // Check 7: Ingredient usage across referenced steps
+  if (isStackEnabled(stacks, 'referenced')) {
+    const audit = auditIngredientUsage(recipe);
+    audit.missing.forEach(({ step, input }) => {
+      checks.push({
+        id: `usage-missing-${step.path}-${input}`,
+        severity: 'warning',
+        message: `Step ${step.number} references "${input}", which is not an ingredient in this recipe.`,
+        target: `step:${step.path}`,
+      });
+    });
+    audit.unused.forEach((ingredient) => {
+      checks.push({
+        id: `usage-unused-${ingredient.id}`,
+        severity: 'info',
+        message: `"${ingredient.name}" is not used by any step.`,
+        target: `ingredient:${ingredient.id}`,
+      });
+    });
+    audit.unsplit.forEach(({ ingredient, steps }) => {
+      checks.push({
+        id: `usage-unsplit-${ingredient.id}`,
+        severity: 'info',
+        message: `"${ingredient.name}" is split across steps ${steps.map((step) => step.number).join(', ')} without saying how much each uses.`,
+        target: `step:${steps[0].path}`,
+      });
+    });
+  }
+
+  // Check 8: Images without alt text
+  if (isStackEnabled(stacks, 'illustrated')) {
+    listImagesWithoutAlt(recipe).forEach(({ target, label }, idx) => {
+      checks.push({
+        id: `image-alt-${idx}`,
+        severity: 'info',
+        message: `${label} has no alt text. Describe what it shows for readers who cannot see it.`,
+        target,
+      });
+    });
+  }
+
   return checks;
 }
 
+/**
+ * Scrolls the editor to an item marked with data-mise-anchor and focuses
+ * its first field
+ */
+function jumpToAnchor(anchor: string) {
+  const element = document.querySelector<HTMLElement>(`[data-mise-anchor="${CSS.escape(anchor)}"]`);
+  if (!element) return;
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element.querySelector<HTMLElement>('input, textarea, select')?.focus({ preventScroll: true });
+}
+
 /**
  * MiseCheckPanel - Advisory validation checklist
  * Only visible when miseMode === "mise"
@@ -206,6 +246,8 @@ export default function MiseCheckPanel({ recipe }: MiseCheckPanelProps) {
   // Calculate progress based on preparation readiness
   const warnings = checks.filter(c => c.severity === 'warning');
   const hasWarnings = warnings.length > 0;
+  // Warnings plus anything the author can jump to and fix
+  const listed = checks.filter(c => c.severity === 'warning' || c.target);
   
   // Check if prep items exist
   const recipeWithMiseEnPlace = recipe as SoustackLiteRecipe & {
@@ -352,8 +394,8 @@ export default function MiseCheckPanel({ recipe }: MiseCheckPanelProps) {
         </div>
       </div>
 
-      {/* Warnings (collapsible) */}
-      {hasWarnings && (
+      {/* Warnings and fixable items */}
+      {listed.length > 0 && (
         <div
           style={{
             marginTop: '12px',
@@ -361,25 +403,45 @@ export default function MiseCheckPanel({ recipe }: MiseCheckPanelProps) {
             borderTop: '1px solid #e5e7eb',
           }}
         >
-          {warnings.map((check) => (
-            <div
-              key={check.id}
-              style={{
-                display: 'flex',
-                gap: '8px',
-                padding: '8px 12px',
-                marginBottom: '6px',
-                backgroundColor: '#fef3c7',
-                border: '1px solid #f59e0b',
-                borderRadius: '4px',
-                fontSize: '12px',
-                color: '#92400e',
-              }}
-            >
-              <span>⚠</span>
-              <span>{check.message}</span>
-            </div>
-          ))}
+          {listed.map((check) => {
+            const isWarning = check.severity === 'warning';
+            return (
+              <div
+                key={check.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  padding: '8px 12px',
+                  marginBottom: '6px',
+                  backgroundColor: isWarning ? '#fef3c7' : '#eff6ff',
+                  border: `1px solid ${isWarning ? '#f59e0b' : '#93c5fd'}`,
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  color: isWarning ? '#92400e' : '#1e40af',
+                }}
+              >
+                <span>{isWarning ? '⚠' : 'ℹ'}</span>
+                <span style={{ flex: 1 }}>{check.message}</span>
+                {check.target && (
+                  <button
+                    onClick={() => jumpToAnchor(check.target as string)}
+                    style={{
+                      padding: '2px 8px',
+                      border: '1px solid currentColor',
+                      borderRadius: '4px',
+                      backgroundColor: 'transparent',
+                      color: 'inherit',
+                      cursor: 'pointer',
+                      fontSize: '12px',
+                    }}
+                  >
+                    Show
+                  </button>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -1,17 +1,40 @@
 'use client';
 
 import { useState } from 'react';
-import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import type { IngredientObject, ParseSources, SoustackLiteRecipe } from '@/lib/mise/types';
+import { formatIngredientLine } from '@/lib/mise/ingredientLine';
+import { formatKitchenNumber, formatKitchenQuantity, getScaleFactor, scaleRecipe } from '@/lib/mise/scaling';
+import type { ScaleTarget } from '@/lib/mise/scaling';
+import { isStackEnabled } from '@/lib/mise/stacks';
+import { convertRecipeUnits } from '@/lib/mise/units';
+import type { UnitSystem } from '@/lib/mise/units';
+import { describeRecipeFacts } from '@/lib/mise/recipeMeta';
+import { formatEquipmentItem, readEquipment, stepEquipment } from '@/lib/mise/equipment';
+import { imageSrcSet, readImages } from '@/lib/mise/images';
+import { flattenSections } from '@/lib/mise/sections';
+import CookScheduleView from './CookScheduleView';
 
 type PreviewTabsProps = {
   recipe: SoustackLiteRecipe;
   parse: { confidence: number; mode: string } | null;
+  rawText?: string; // only while the draft is still raw text
+  hasOverrides?: boolean;
+  onMoveLine?: (line: string, target: 'ingredients' | 'instructions') => void;
+  onClearOverrides?: () => void;
 };
 
-type Tab = 'preview' | 'json' | 'parse' | 'prose';
+type Tab = 'preview' | 'schedule' | 'json' | 'parse' | 'prose';
 
-export default function PreviewTabs({ recipe, parse }: PreviewTabsProps) {
+export default function PreviewTabs({
+  recipe,
+  parse,
+  rawText,
+  hasOverrides = false,
+  onMoveLine,
+  onClearOverrides,
+}: PreviewTabsProps) {
   const hasProse = !!recipe['x-mise']?.prose?.text;
+  const hasSchedule = isStackEnabled(recipe.stacks, 'timed');
   const [activeTab, setActiveTab] = useState<Tab>('preview');
 
   return (
@@ -23,6 +46,14 @@ export default function PreviewTabs({ recipe, parse }: PreviewTabsProps) {
         >
           Preview
         </TabButton>
+        {hasSchedule && (
+          <TabButton
+            active={activeTab === 'schedule'}
+            onClick={() => setActiveTab('schedule')}
+          >
+            Schedule
+          </TabButton>
+        )}
         <TabButton
           active={activeTab === 'json'}
           onClick={() => setActiveTab('json')}
@@ -46,8 +77,23 @@ export default function PreviewTabs({ recipe, parse }: PreviewTabsProps) {
       </div>
       <div style={{ flex: 1, overflow: 'auto', padding: '24px' }}>
         {activeTab === 'preview' && <PreviewTab recipe={recipe} />}
+        {activeTab === 'schedule' && hasSchedule && <CookScheduleView recipe={recipe} />}
         {activeTab === 'json' && <JsonTab recipe={recipe} />}
-        {activeTab === 'parse' && <ParseTab parse={parse} />}
+        {activeTab === 'parse' && (
+          <>
+            <ParseTab parse={parse} />
+            {rawText !== undefined && recipe['x-mise']?.parse?.sources && (
+              <SourceLines
+                recipe={recipe}
+                sources={recipe['x-mise'].parse.sources}
+                rawText={rawText}
+                hasOverrides={hasOverrides}
+                onMoveLine={onMoveLine}
+                onClearOverrides={onClearOverrides}
+              />
+            )}
+          </>
+        )}
         {activeTab === 'prose' && hasProse && <ProseTab recipe={recipe} />}
       </div>
     </div>
@@ -82,13 +128,189 @@ function TabButton({
   );
 }
 
-function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
+const SCALE_FACTORS = [0.5, 1, 2, 3];
+
+function ServingsControl({
+  recipe,
+  scale,
+  onChange,
+}: {
+  recipe: SoustackLiteRecipe;
+  scale: ScaleTarget;
+  onChange: (scale: ScaleTarget) => void;
+}) {
+  const baseServings =
+    recipe.yield && typeof recipe.yield.amount === 'number' ? recipe.yield.amount : null;
+  const factor = getScaleFactor(recipe, scale);
+
+  const buttonStyle = (active: boolean) => ({
+    padding: '4px 10px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '4px',
+    backgroundColor: active ? '#000' : '#fff',
+    color: active ? '#fff' : '#000',
+    cursor: 'pointer',
+    fontSize: '13px',
+  });
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        margin: '0 0 24px 0',
+        fontSize: '14px',
+        color: '#666',
+      }}
+    >
+      {baseServings ? (
+        <>
+          <span>Servings</span>
+          <button
+            onClick={() => onChange({ servings: Math.max(1, Math.round(baseServings * factor) - 1) })}
+            style={buttonStyle(false)}
+            aria-label="Fewer servings"
+          >
+            −
+          </button>
+          <input
+            type="number"
+            min={1}
+            value={Math.round(baseServings * factor * 100) / 100}
+            onChange={(e) => {
+              const servings = Number(e.target.value);
+              if (servings > 0) onChange({ servings });
+            }}
+            style={{ width: '56px', padding: '4px 6px', border: '1px solid #d0d0d0', borderRadius: '4px' }}
+          />
+          <button
+            onClick={() => onChange({ servings: Math.round(baseServings * factor) + 1 })}
+            style={buttonStyle(false)}
+            aria-label="More servings"
+          >
+            +
+          </button>
+        </>
+      ) : (
+        <>
+          <span>Scale</span>
+          {SCALE_FACTORS.map((option) => (
+            <button
+              key={option}
+              onClick={() => onChange({ factor: option })}
+              style={buttonStyle(factor === option)}
+            >
+              {formatKitchenNumber(option)}×
+            </button>
+          ))}
+        </>
+      )}
+      {factor !== 1 && (
+        <button
+          onClick={() => onChange({ factor: 1 })}
+          style={{ ...buttonStyle(false), border: 'none', textDecoration: 'underline' }}
+        >
+          Reset
+        </button>
+      )}
+    </div>
+  );
+}
+
+const UNIT_OPTIONS: Array<{ value: UnitSystem | null; label: string }> = [
+  { value: null, label: 'As written' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'us', label: 'US' },
+];
+
+function UnitsControl({
+  units,
+  onChange,
+}: {
+  units: UnitSystem | null;
+  onChange: (units: UnitSystem | null) => void;
+}) {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        margin: '0 0 24px 0',
+        fontSize: '14px',
+        color: '#666',
+      }}
+    >
+      <span>Units</span>
+      {UNIT_OPTIONS.map((option) => (
+        <button
+          key={option.label}
+          onClick={() => onChange(option.value)}
+          style={{
+            padding: '4px 10px',
+            border: '1px solid #d0d0d0',
+            borderRadius: '4px',
+            backgroundColor: units === option.value ? '#000' : '#fff',
+            color: units === option.value ? '#fff' : '#000',
+            cursor: 'pointer',
+            fontSize: '13px',
+          }}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function PreviewTab({ recipe: savedRecipe }: { recipe: SoustackLiteRecipe }) {
+  // Scaling and unit conversion are view-only; the saved recipe is never changed
+  const [scale, setScale] = useState<ScaleTarget>({ factor: 1 });
+  const [units, setUnits] = useState<UnitSystem | null>(null);
+  const scaledRecipe = scaleRecipe(savedRecipe, scale);
+  const recipe = units ? convertRecipeUnits(scaledRecipe, units) : scaledRecipe;
+  const canScale = isStackEnabled(savedRecipe.stacks, 'scaling') || !!savedRecipe.yield;
   const ingredients = Array.isArray(recipe.ingredients)
     ? recipe.ingredients
     : [];
   const instructions = Array.isArray(recipe.instructions)
     ? recipe.instructions
     : [];
+  const recipeFacts = describeRecipeFacts(recipe);
+  const equipment = readEquipment(recipe);
+  const heroImage = readImages(recipe.images)[0];
+
+  // Names of the equipment a structured step uses, if any
+  const renderStepEquipment = (step: unknown) => {
+    const used = stepEquipment(step, equipment);
+    if (used.length === 0) return null;
+    return (
+      <div style={{ fontSize: '13px', color: '#666' }}>
+        Equipment: {used.map((item) => item.name).join(', ')}
+      </div>
+    );
+  };
+
+  const renderStepImages = (step: unknown) => {
+    const images = typeof step === 'object' && step !== null ? readImages((step as { images?: unknown }).images) : [];
+    if (images.length === 0) return null;
+    return (
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginTop: '8px' }}>
+        {images.map((image, idx) => (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={idx}
+            src={image.url}
+            srcSet={imageSrcSet(image)}
+            sizes="240px"
+            alt={image.alt || ''}
+            style={{ width: '240px', maxWidth: '100%', borderRadius: '4px' }}
+          />
+        ))}
+      </div>
+    );
+  };
 
   // Get mise en place items from top-level recipe.miseEnPlace
   const miseEnPlaceItems: Array<{ text: string }> = [];
@@ -121,6 +343,27 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
         {recipe.name}
       </h2>
 
+      {heroImage && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={heroImage.url}
+          srcSet={imageSrcSet(heroImage)}
+          sizes="(max-width: 800px) 100vw, 800px"
+          alt={heroImage.alt || recipe.name}
+          style={{ width: '100%', maxHeight: '360px', objectFit: 'cover', borderRadius: '8px', marginBottom: '24px' }}
+        />
+      )}
+
+      {recipeFacts.length > 0 && (
+        <p style={{ margin: '0 0 24px 0', fontSize: '14px', color: '#666' }}>
+          {recipeFacts.join(' · ')}
+        </p>
+      )}
+
+      {canScale && <ServingsControl recipe={savedRecipe} scale={scale} onChange={setScale} />}
+
+      <UnitsControl units={units} onChange={setUnits} />
+
       {miseEnPlaceItems.length > 0 && (
         <section style={{ marginBottom: '32px' }}>
           <h3
@@ -166,6 +409,30 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
         </section>
       )}
 
+      {equipment.length > 0 && (
+        <section style={{ marginBottom: '32px' }}>
+          <h3
+            style={{
+              margin: '0 0 12px 0',
+              fontSize: '18px',
+              fontWeight: 600,
+              textTransform: 'uppercase',
+              letterSpacing: '0.5px',
+              color: '#666',
+            }}
+          >
+            Equipment
+          </h3>
+          <ul style={{ margin: 0, paddingLeft: '24px' }}>
+            {equipment.map((item, idx) => (
+              <li key={item.id ?? idx} style={{ marginBottom: '8px', fontSize: '16px', lineHeight: '1.6' }}>
+                {formatEquipmentItem(item)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
       <section style={{ marginBottom: '32px' }}>
         <h3
           style={{
@@ -242,16 +509,18 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                           }
                           if (typeof item === 'object' && item !== null && 'name' in item) {
                             const obj = item as {
-                              quantity?: string | number;
+                              quantity?: string | number | { min: number; max: number };
                               unit?: string;
                               name: string;
+                              prep?: string;
+                              toTaste?: boolean;
                               scaling?: { mode?: string };
                             };
                             const parts: string[] = [];
-                            if (obj.quantity) parts.push(String(obj.quantity));
+                            if (obj.quantity) parts.push(formatKitchenQuantity(obj.quantity, obj.unit));
                             if (obj.unit) parts.push(obj.unit);
-                            parts.push(obj.name);
-                            if (obj.scaling?.mode === 'toTaste') {
+                            parts.push(obj.prep ? `${obj.name}, ${obj.prep}` : obj.name);
+                            if (obj.toTaste || obj.scaling?.mode === 'toTaste') {
                               parts.push('(to taste)');
                             }
                             return (
@@ -276,16 +545,18 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                 // Structured ingredient object
                 if ('name' in ingredient) {
                   const obj = ingredient as {
-                    quantity?: string | number;
+                    quantity?: string | number | { min: number; max: number };
                     unit?: string;
                     name: string;
+                    prep?: string;
+                    toTaste?: boolean;
                     scaling?: { mode?: string };
                   };
                   const parts: string[] = [];
-                  if (obj.quantity) parts.push(String(obj.quantity));
+                  if (obj.quantity) parts.push(formatKitchenQuantity(obj.quantity, obj.unit));
                   if (obj.unit) parts.push(obj.unit);
-                  parts.push(obj.name);
-                  if (obj.scaling?.mode === 'toTaste') {
+                  parts.push(obj.prep ? `${obj.name}, ${obj.prep}` : obj.name);
+                  if (obj.toTaste || obj.scaling?.mode === 'toTaste') {
                     parts.push('(to taste)');
                   }
                   return (
@@ -411,6 +682,9 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                                 }}
                               >
                                 {text}
+                                {renderStepEquipment(obj)}
+                      {renderStepImages(obj)}
+                                {renderStepImages(obj)}
                               </li>
                             );
                           }
@@ -435,6 +709,8 @@ function PreviewTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                       }}
                     >
                       {text}
+                      {renderStepEquipment(obj)}
+                      {renderStepImages(obj)}
                     </li>
                   );
                 }
@@ -551,6 +827,173 @@ function ParseTab({ parse }: { parse: { confidence: number; mode: string } | nul
   );
 }
 
+type LineRole = {
+  kind: 'title' | 'ingredients' | 'instructions' | 'meta';
+  label: string;
+  result?: string;
+};
+
+const ROLE_COLORS: Record<LineRole['kind'], { background: string; border: string }> = {
+  title: { background: '#f5f3ff', border: '#c4b5fd' },
+  ingredients: { background: '#ecfdf5', border: '#6ee7b7' },
+  instructions: { background: '#eff6ff', border: '#93c5fd' },
+  meta: { background: '#fefce8', border: '#fde047' },
+};
+
+function itemText(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (typeof item === 'object' && item !== null) {
+    if ('text' in item) return String((item as { text: unknown }).text);
+    if ('name' in item) return formatIngredientLine(item as IngredientObject);
+  }
+  return String(item);
+}
+
+/**
+ * Maps each raw line index to the item it produced
+ */
+function mapLineRoles(recipe: SoustackLiteRecipe, sources: ParseSources): Map<number, LineRole> {
+  const roles = new Map<number, LineRole>();
+  const assign = (start: number, end: number, role: LineRole) => {
+    for (let line = start; line < end; line++) roles.set(line, role);
+  };
+
+  if (sources.title) {
+    assign(sources.title.start, sources.title.end, { kind: 'title', label: 'Title', result: recipe.name });
+  }
+  sources.meta.forEach((range) => assign(range.start, range.end, { kind: 'meta', label: 'Yield / time' }));
+
+  // Flattened so items line up with the parse source ranges
+  const ingredients = flattenSections(recipe.ingredients);
+  sources.ingredients.forEach((range, idx) =>
+    assign(range.start, range.end, {
+      kind: 'ingredients',
+      label: `Ingredient ${idx + 1}`,
+      result: ingredients[idx] !== undefined ? itemText(ingredients[idx]) : undefined,
+    })
+  );
+
+  const instructions = flattenSections(recipe.instructions);
+  sources.instructions.forEach((range, idx) =>
+    assign(range.start, range.end, {
+      kind: 'instructions',
+      label: `Step ${idx + 1}`,
+      result: instructions[idx] !== undefined ? itemText(instructions[idx]) : undefined,
+    })
+  );
+
+  return roles;
+}
+
+function SourceLines({
+  recipe,
+  sources,
+  rawText,
+  hasOverrides,
+  onMoveLine,
+  onClearOverrides,
+}: {
+  recipe: SoustackLiteRecipe;
+  sources: ParseSources;
+  rawText: string;
+  hasOverrides: boolean;
+  onMoveLine?: (line: string, target: 'ingredients' | 'instructions') => void;
+  onClearOverrides?: () => void;
+}) {
+  const roles = mapLineRoles(recipe, sources);
+  const lines = rawText.replace(/\r\n?/g, '\n').split('\n');
+
+  const moveButtonStyle = {
+    padding: '2px 8px',
+    border: '1px solid #d0d0d0',
+    borderRadius: '4px',
+    backgroundColor: '#fff',
+    cursor: 'pointer',
+    fontSize: '12px',
+  };
+
+  return (
+    <div style={{ marginTop: '32px' }}>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '8px',
+        }}
+      >
+        <div
+          style={{
+            fontSize: '12px',
+            textTransform: 'uppercase',
+            letterSpacing: '0.5px',
+            color: '#666',
+          }}
+        >
+          Source Lines
+        </div>
+        {hasOverrides && onClearOverrides && (
+          <button onClick={onClearOverrides} style={moveButtonStyle}>
+            Reset corrections
+          </button>
+        )}
+      </div>
+      <div style={{ border: '1px solid #e0e0e0', borderRadius: '4px', overflow: 'hidden' }}>
+        {lines.map((line, idx) => {
+          const text = line.trim();
+          if (!text) return null;
+          const role = roles.get(idx);
+          const colors = role ? ROLE_COLORS[role.kind] : null;
+          return (
+            <div
+              key={idx}
+              style={{
+                display: 'flex',
+                gap: '12px',
+                alignItems: 'flex-start',
+                padding: '8px 12px',
+                borderBottom: '1px solid #f0f0f0',
+                borderLeft: `4px solid ${colors ? colors.border : 'transparent'}`,
+                backgroundColor: colors ? colors.background : '#fff',
+              }}
+            >
+              <span style={{ width: '32px', flexShrink: 0, fontSize: '12px', color: '#999' }}>
+                {idx + 1}
+              </span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontFamily: 'monospace', fontSize: '13px', whiteSpace: 'pre-wrap' }}>
+                  {text}
+                </div>
+                <div style={{ fontSize: '12px', color: '#666', marginTop: '2px' }}>
+                  {role
+                    ? role.result && role.kind !== 'title'
+                      ? `${role.label} → ${role.result}`
+                      : role.label
+                    : 'Not used'}
+                </div>
+              </div>
+              {onMoveLine && (
+                <div style={{ display: 'flex', gap: '4px', flexShrink: 0 }}>
+                  {role?.kind !== 'ingredients' && (
+                    <button onClick={() => onMoveLine(text, 'ingredients')} style={moveButtonStyle}>
+                      → Ingredients
+                    </button>
+                  )}
+                  {role?.kind !== 'instructions' && (
+                    <button onClick={() => onMoveLine(text, 'instructions')} style={moveButtonStyle}>
+                      → Instructions
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function ProseTab({ recipe }: { recipe: SoustackLiteRecipe }) {
   const prose = recipe['x-mise']?.prose;
   if (!prose) {
@@ -0,0 +1,316 @@
+import type { Duration, EquipmentItem, IngredientObject, RecipeImage, SoustackLiteRecipe } from '@/lib/mise/types';
+import { formatIngredientLine } from '@/lib/mise/ingredientLine';
+import { formatEquipmentItem, readEquipment, stepEquipment } from '@/lib/mise/equipment';
+import { imageSrcSet, readImages } from '@/lib/mise/images';
+import { describeRecipeFacts, formatDuration, parseIsoDuration } from '@/lib/mise/recipeMeta';
+
+// Server-rendered: no hooks or handlers, so the page works without JavaScript
+
+type StepTiming = {
+  activity?: 'active' | 'passive';
+  duration?: Duration;
+  completionCue?: string;
+};
+
+type StorageMethod = {
+  duration?: { iso8601?: string };
+  notes?: string;
+};
+
+type StorageData = {
+  refrigerated?: StorageMethod;
+  frozen?: StorageMethod;
+  roomTemp?: StorageMethod;
+  leftovers?: {
+    reheat?: Array<string | { method: string; temp?: string; duration?: string; notes?: string }>;
+  };
+};
+
+type PublicRecipe = SoustackLiteRecipe & {
+  miseEnPlace?: Array<{ text: string }>;
+  storage?: StorageData;
+};
+
+const STORAGE_LABELS: Array<[keyof Omit<StorageData, 'leftovers'>, string]> = [
+  ['roomTemp', 'Room temperature'],
+  ['refrigerated', 'Refrigerated'],
+  ['frozen', 'Frozen'],
+];
+
+const headingStyle = {
+  margin: 0,
+  fontSize: '18px',
+  fontWeight: 600,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.5px',
+  color: '#666',
+};
+
+function isShown(text: string): boolean {
+  return text.trim() !== '' && text.trim() !== '(not provided)';
+}
+
+/**
+ * Reads { section: { name, items } }; spec-style sections are migrated
+ * when the recipe is loaded
+ */
+function asSection(item: unknown): { name: string; items: unknown[] } | null {
+  if (typeof item !== 'object' || item === null || !('section' in item)) return null;
+  const section = (item as { section: unknown }).section as { name?: string; items?: unknown[] };
+  if (typeof section !== 'object' || section === null) return null;
+  return { name: section.name || '', items: Array.isArray(section.items) ? section.items : [] };
+}
+
+function ingredientText(item: unknown): string {
+  if (typeof item === 'string') return item;
+  if (typeof item === 'object' && item !== null && 'name' in item) {
+    return formatIngredientLine(item as IngredientObject);
+  }
+  return '';
+}
+
+function stepOf(item: unknown): { text: string; timing?: StepTiming } {
+  if (typeof item === 'string') return { text: item };
+  if (typeof item === 'object' && item !== null && 'text' in item) {
+    const step = item as { text: string; timing?: StepTiming };
+    return { text: String(step.text), timing: step.timing };
+  }
+  return { text: '' };
+}
+
+function timingText(timing: StepTiming | undefined): string | null {
+  if (!timing) return null;
+  const parts: string[] = [];
+  if (timing.duration) parts.push(formatDuration(timing.duration));
+  if (timing.activity) parts.push(timing.activity === 'active' ? 'hands-on' : 'hands-off');
+  if (timing.completionCue) parts.push(timing.completionCue);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Storage durations are ISO 8601 ("P3D", "PT2H"); shown in days when whole
+ */
+function storageDurationText(iso: string | undefined): string | null {
+  const duration = iso ? parseIsoDuration(iso) : null;
+  if (!duration || !('minutes' in duration)) return null;
+  const days = duration.minutes / 1440;
+  if (Number.isInteger(days)) return days === 1 ? '1 day' : `${days} days`;
+  return formatDuration(duration);
+}
+
+function IngredientItems({ items }: { items: unknown[] }) {
+  return (
+    <ul style={{ margin: 0, paddingLeft: '20px' }}>
+      {items.map((item, idx) => {
+        const section = asSection(item);
+        if (section) {
+          return (
+            <li key={idx} style={{ listStyle: 'none', marginLeft: '-20px', marginBottom: '16px' }}>
+              <h3 style={{ margin: '0 0 8px 0', fontSize: '16px', fontWeight: 600 }}>{section.name}</h3>
+              <IngredientItems items={section.items} />
+            </li>
+          );
+        }
+        const text = ingredientText(item);
+        if (!isShown(text)) return null;
+        return (
+          <li key={idx} style={{ marginBottom: '12px', fontSize: '16px', lineHeight: '1.6' }}>
+            {text}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function InstructionItems({ items, equipment }: { items: unknown[]; equipment: EquipmentItem[] }) {
+  return (
+    <ol style={{ margin: 0, paddingLeft: '20px' }}>
+      {items.map((item, idx) => {
+        const section = asSection(item);
+        if (section) {
+          return (
+            <li key={idx} style={{ listStyle: 'none', marginLeft: '-20px', marginBottom: '16px' }}>
+              <h3 style={{ margin: '0 0 8px 0', fontSize: '16px', fontWeight: 600 }}>{section.name}</h3>
+              <InstructionItems items={section.items} equipment={equipment} />
+            </li>
+          );
+        }
+        const step = stepOf(item);
+        if (!isShown(step.text)) return null;
+        const timing = timingText(step.timing);
+        const used = stepEquipment(item, equipment);
+        const images = typeof item === 'object' && item !== null ? readImages((item as { images?: unknown }).images) : [];
+        return (
+          <li key={idx} style={{ marginBottom: '16px', fontSize: '16px', lineHeight: '1.6' }}>
+            {step.text}
+            {timing && <div style={{ fontSize: '13px', color: '#666' }}>⏱ {timing}</div>}
+            {used.length > 0 && (
+              <div style={{ fontSize: '13px', color: '#666' }}>Equipment: {used.map((tool) => tool.name).join(', ')}</div>
+            )}
+            {images.map((image, imageIdx) => (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                key={imageIdx}
+                src={image.url}
+                srcSet={imageSrcSet(image)}
+                sizes="(max-width: 600px) 100vw, 480px"
+                alt={image.alt || ''}
+                loading="lazy"
+                style={{ display: 'block', width: '100%', maxWidth: '480px', borderRadius: '6px', marginTop: '8px' }}
+              />
+            ))}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default function PublicRecipeView({ recipe }: { recipe: SoustackLiteRecipe }) {
+  const publicRecipe = recipe as PublicRecipe;
+  const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+  const facts = describeRecipeFacts(recipe);
+  const equipment = readEquipment(recipe);
+  const heroImage: RecipeImage | undefined = readImages(recipe.images)[0];
+  const miseEnPlace = Array.isArray(publicRecipe.miseEnPlace)
+    ? publicRecipe.miseEnPlace.filter((item) => item && isShown(String(item.text ?? '')))
+    : [];
+  const storage = publicRecipe.storage && typeof publicRecipe.storage === 'object' ? publicRecipe.storage : null;
+  const storageRows = storage
+    ? STORAGE_LABELS.filter(([key]) => storage[key]).map(([key, label]) => ({
+        label,
+        duration: storageDurationText(storage[key]?.duration?.iso8601),
+        notes: storage[key]?.notes,
+      }))
+    : [];
+  const reheat = Array.isArray(storage?.leftovers?.reheat) ? storage.leftovers.reheat : [];
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: '#fafafa' }}>
+      <header style={{ padding: '24px', borderBottom: '1px solid #e0e0e0', backgroundColor: '#fff' }}>
+        <div className="container">
+          <h1 style={{ margin: 0, fontSize: '28px', fontWeight: 600 }}>{recipe.name}</h1>
+          {recipe.description && (
+            <p style={{ margin: '8px 0 0 0', fontSize: '16px', color: '#666', lineHeight: '1.6' }}>
+              {recipe.description}
+            </p>
+          )}
+          {facts.length > 0 && (
+            <p style={{ margin: '8px 0 0 0', fontSize: '14px', color: '#666' }}>{facts.join(' · ')}</p>
+          )}
+        </div>
+      </header>
+
+      <main className="container" style={{ paddingTop: '32px', paddingBottom: '32px' }}>
+        {heroImage && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={heroImage.url}
+            srcSet={imageSrcSet(heroImage)}
+            sizes="(max-width: 1000px) 100vw, 1000px"
+            alt={heroImage.alt || recipe.name}
+            style={{ width: '100%', maxHeight: '420px', objectFit: 'cover', borderRadius: '8px', marginBottom: '24px' }}
+          />
+        )}
+
+        {miseEnPlace.length > 0 && (
+          <section className="card" style={{ marginBottom: '24px' }}>
+            <div className="cardHeader">
+              <h2 style={headingStyle}>Mise en place</h2>
+            </div>
+            <div className="cardBody">
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {miseEnPlace.map((item, idx) => (
+                  <li key={idx} style={{ marginBottom: '8px', fontSize: '16px', lineHeight: '1.6' }}>
+                    {item.text}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
+        {equipment.length > 0 && (
+          <section className="card" style={{ marginBottom: '24px' }}>
+            <div className="cardHeader">
+              <h2 style={headingStyle}>Equipment</h2>
+            </div>
+            <div className="cardBody">
+              <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                {equipment.map((item, idx) => (
+                  <li key={item.id ?? idx} style={{ marginBottom: '8px', fontSize: '16px', lineHeight: '1.6' }}>
+                    {formatEquipmentItem(item)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </section>
+        )}
+
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))',
+            gap: '24px',
+            marginBottom: '24px',
+          }}
+        >
+          <section className="card" style={{ alignSelf: 'start' }}>
+            <div className="cardHeader">
+              <h2 style={headingStyle}>Ingredients</h2>
+            </div>
+            <div className="cardBody">
+              <IngredientItems items={ingredients} />
+            </div>
+          </section>
+
+          <section className="card">
+            <div className="cardHeader">
+              <h2 style={headingStyle}>Instructions</h2>
+            </div>
+            <div className="cardBody">
+              <InstructionItems items={instructions} equipment={equipment} />
+            </div>
+          </section>
+        </div>
+
+        {(storageRows.length > 0 || reheat.length > 0) && (
+          <section className="card">
+            <div className="cardHeader">
+              <h2 style={headingStyle}>Storage</h2>
+            </div>
+            <div className="cardBody">
+              {storageRows.length > 0 && (
+                <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                  {storageRows.map((row) => (
+                    <li key={row.label} style={{ marginBottom: '8px', fontSize: '16px', lineHeight: '1.6' }}>
+                      <strong>{row.label}</strong>
+                      {row.duration && `: up to ${row.duration}`}
+                      {row.notes && ` — ${row.notes}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {reheat.length > 0 && (
+                <>
+                  <h3 style={{ margin: '16px 0 8px 0', fontSize: '16px', fontWeight: 600 }}>Reheating</h3>
+                  <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                    {reheat.map((method, idx) => (
+                      <li key={idx} style={{ marginBottom: '8px', fontSize: '16px', lineHeight: '1.6' }}>
+                        {typeof method === 'string'
+                          ? method
+                          : [method.method, method.temp, method.duration, method.notes].filter(Boolean).join(' · ')}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
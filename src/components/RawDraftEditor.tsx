@@ -1,8 +1,10 @@
 'use client';
 
+import { useRef } from 'react';
+
 type RawDraftEditorProps = {
   value: string;
-  onChange: (text: string) => void;
+  onChange: (text: string, source?: 'paste') => void; // pastes are reported so they undo as one step
 };
 
 const PLACEHOLDER = `Paste or type a recipe here…
@@ -16,6 +18,8 @@ Instructions:
 2. Cook in pan`;
 
 export default function RawDraftEditor({ value, onChange }: RawDraftEditorProps) {
+  const pastedRef = useRef(false);
+
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       <div style={{ padding: '16px', borderBottom: '1px solid #e0e0e0' }}>
@@ -25,7 +29,13 @@ export default function RawDraftEditor({ value, onChange }: RawDraftEditorProps)
       </div>
       <textarea
         value={value}
-        onChange={(e) => onChange(e.target.value)}
+        onPaste={() => {
+          pastedRef.current = true;
+        }}
+        onChange={(e) => {
+          onChange(e.target.value, pastedRef.current ? 'paste' : undefined);
+          pastedRef.current = false;
+        }}
         placeholder={PLACEHOLDER}
         style={{
           flex: 1,
@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useRef } from 'react';
 import { parseFreeform } from '@/lib/mise/parseFreeform';
-import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import { compileParseResult } from '@/lib/mise/liteCompiler';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 
 type SmartTextAreaProps = {
@@ -31,15 +31,7 @@ export default function SmartTextArea({ onProcess }: SmartTextAreaProps) {
     // Small delay for UX
     setTimeout(() => {
       const parsed = parseFreeform(text);
-      const recipe = compileLiteRecipe({
-        name: parsed.title || undefined,
-        ingredients: parsed.ingredients,
-        instructions: parsed.instructions,
-        meta: {
-          confidence: parsed.confidence,
-          mode: parsed.mode,
-        },
-      });
+      const recipe = compileParseResult(parsed);
       setIsProcessing(false);
       onProcess(recipe);
     }, 300);
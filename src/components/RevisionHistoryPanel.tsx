@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import type { SavedRecipe } from '@/app/actions/recipes';
+import type { SchemaError } from '@/lib/mise/schemaValidation';
+import { describeChange, diffRecipes, type RecipeChange } from '@/lib/mise/recipeDiff';
+import {
+  getRecipeRevisionAction,
+  listRecipeRevisionsAction,
+  restoreRecipeRevisionAction,
+  type RecipeRevisionSummary,
+} from '@/app/actions/revisions';
+
+type RevisionHistoryPanelProps = {
+  recipeId: string;
+  baseRevision: number;
+  currentRecipe: SoustackLiteRecipe;
+  onRestored: (result: SavedRecipe & { doc: WorkbenchDoc }) => void;
+  // A revision that cannot be saved as is, handed over for fixing
+  onRestoreInvalid: (doc: WorkbenchDoc, revision: number, errors: SchemaError[]) => void;
+  onClose: () => void;
+};
+
+// A revision number, or the unsaved recipe in the editor
+type Side = number | 'current';
+
+const AREA_LABELS: Record<RecipeChange['area'], string> = {
+  details: 'Details',
+  ingredients: 'Ingredients',
+  steps: 'Steps',
+  equipment: 'Equipment',
+  stacks: 'Stacks',
+};
+
+const KIND_MARKS: Record<RecipeChange['kind'], { mark: string; color: string }> = {
+  added: { mark: '+', color: '#059669' },
+  removed: { mark: '−', color: '#dc2626' },
+  changed: { mark: '~', color: '#92400e' },
+  moved: { mark: '↕', color: '#1d4ed8' },
+};
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'AUTH_REQUIRED') return 'Sign in to see the history of this recipe.';
+  return 'Could not load the history. Please try again.';
+}
+
+const selectStyle = {
+  padding: '6px 8px',
+  border: '1px solid #d0d0d0',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#fff',
+};
+
+/**
+ * Saved revisions of a recipe with a semantic diff between any two and
+ * restore. Restoring appends the old content as a new revision; revisions
+ * that no longer validate open in the editor instead, unsaved.
+ */
+export default function RevisionHistoryPanel({
+  recipeId,
+  baseRevision,
+  currentRecipe,
+  onRestored,
+  onRestoreInvalid,
+  onClose,
+}: RevisionHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<RecipeRevisionSummary[] | null>(null);
+  const [docs, setDocs] = useState<Record<number, WorkbenchDoc>>({});
+  const [from, setFrom] = useState<Side | null>(null);
+  const [to, setTo] = useState<Side>('current');
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const requested = useRef(new Set<number>());
+
+  useEffect(() => {
+    listRecipeRevisionsAction(recipeId)
+      .then((list) => {
+        setRevisions(list);
+        // Start with the editor against the latest save
+        if (list.length > 0) setFrom(list[0].revision);
+      })
+      .catch((err) => {
+        console.error('Failed to load revisions:', err);
+        setError(errorMessage(err));
+      });
+  }, [recipeId]);
+
+  // Fetch the documents being compared
+  useEffect(() => {
+    [from, to].forEach((side) => {
+      if (typeof side !== 'number' || requested.current.has(side)) return;
+      requested.current.add(side);
+      getRecipeRevisionAction({ recipeId, revision: side })
+        .then((doc) => setDocs((prev) => ({ ...prev, [side]: doc })))
+        .catch((err) => {
+          console.error('Failed to load revision:', err);
+          requested.current.delete(side);
+          setError(errorMessage(err));
+        });
+    });
+  }, [from, to, recipeId]);
+
+  const recipeFor = (side: Side | null): SoustackLiteRecipe | null => {
+    if (side === 'current') return currentRecipe;
+    if (side === null) return null;
+    return docs[side]?.recipe ?? null;
+  };
+
+  const before = recipeFor(from);
+  const after = recipeFor(to);
+  const changes = useMemo(() => (before && after ? diffRecipes(before, after) : null), [before, after]);
+
+  const handleRestore = async () => {
+    if (typeof to !== 'number') return;
+    setRestoring(true);
+    setError(null);
+    try {
+      const result = await restoreRecipeRevisionAction({ recipeId, revision: to, baseRevision });
+      if (result.status === 'conflict') {
+        setError(
+          `This recipe was saved elsewhere (revision ${result.revision}) since you opened it. Reload before restoring.`
+        );
+        setRestoring(false);
+        setConfirming(false);
+        return;
+      }
+      if (result.status === 'invalid') {
+        onRestoreInvalid(result.doc, to, result.errors);
+        return;
+      }
+      onRestored(result);
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      setError(errorMessage(err));
+      setRestoring(false);
+      setConfirming(false);
+    }
+  };
+
+  const sideOptions = (
+    <>
+      <option value="current">Editor (unsaved)</option>
+      {(revisions ?? []).map((item) => (
+        <option key={item.revision} value={item.revision}>
+          Revision {item.revision} · {new Date(item.created_at).toLocaleString()}
+        </option>
+      ))}
+    </>
+  );
+  const parseSide = (value: string): Side => (value === 'current' ? 'current' : Number(value));
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: '#fff',
+          padding: '24px',
+          borderRadius: '8px',
+          maxWidth: '720px',
+          width: '90%',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '16px' }}>
+          <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 600, flex: 1 }}>History</h3>
+          <button
+            onClick={onClose}
+            aria-label="Close history"
+            style={{ border: 'none', backgroundColor: 'transparent', cursor: 'pointer', fontSize: '20px', color: '#666' }}
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div style={{ marginBottom: '12px', fontSize: '13px', color: '#dc2626' }}>{error}</div>}
+
+        {revisions === null && !error && <div style={{ fontSize: '14px', color: '#666' }}>Loading revisions…</div>}
+
+        {revisions !== null && revisions.length === 0 && (
+          <div style={{ fontSize: '14px', color: '#666' }}>No saved revisions yet.</div>
+        )}
+
+        {revisions !== null && revisions.length > 0 && (
+          <>
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', fontSize: '13px' }}>
+              <span>Compare</span>
+              <select
+                value={from ?? ''}
+                onChange={(e) => setFrom(parseSide(e.target.value))}
+                aria-label="Compare from"
+                style={selectStyle}
+              >
+                {sideOptions}
+              </select>
+              <span>with</span>
+              <select
+                value={to}
+                onChange={(e) => {
+                  setTo(parseSide(e.target.value));
+                  setConfirming(false);
+                }}
+                aria-label="Compare with"
+                style={selectStyle}
+              >
+                {sideOptions}
+              </select>
+            </div>
+
+            <div style={{ flex: 1, overflowY: 'auto', margin: '16px 0', fontSize: '13px' }}>
+              {!changes && <div style={{ color: '#666' }}>Loading…</div>}
+              {changes && changes.length === 0 && <div style={{ color: '#666' }}>No differences.</div>}
+              {changes &&
+                (Object.keys(AREA_LABELS) as RecipeChange['area'][]).map((area) => {
+                  const inArea = changes.filter((change) => change.area === area);
+                  if (inArea.length === 0) return null;
+                  return (
+                    <div key={area} style={{ marginBottom: '12px' }}>
+                      <div style={{ fontWeight: 600, marginBottom: '4px' }}>{AREA_LABELS[area]}</div>
+                      <ul style={{ margin: 0, paddingLeft: 0, listStyle: 'none' }}>
+                        {inArea.map((change, idx) => (
+                          <li key={idx} style={{ marginBottom: '2px' }}>
+                            <span
+                              aria-hidden="true"
+                              style={{
+                                display: 'inline-block',
+                                width: '16px',
+                                color: KIND_MARKS[change.kind].color,
+                                fontWeight: 600,
+                              }}
+                            >
+                              {KIND_MARKS[change.kind].mark}
+                            </span>
+                            {describeChange(change)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+            </div>
+
+            {typeof to === 'number' && (
+              <div style={{ display: 'flex', gap: '12px', alignItems: 'center', justifyContent: 'flex-end' }}>
+                {confirming && (
+                  <span style={{ fontSize: '13px', color: '#666' }}>
+                    The editor will show revision {to}, saved as a new revision. Older revisions stay as they are.
+                  </span>
+                )}
+                <button
+                  onClick={confirming ? handleRestore : () => setConfirming(true)}
+                  disabled={restoring}
+                  style={{
+                    padding: '8px 16px',
+                    border: 'none',
+                    borderRadius: '4px',
+                    backgroundColor: '#000',
+                    color: '#fff',
+                    cursor: restoring ? 'wait' : 'pointer',
+                    fontSize: '14px',
+                    fontWeight: 500,
+                    whiteSpace: 'nowrap',
+                    opacity: restoring ? 0.6 : 1,
+                  }}
+                >
+                  {restoring ? 'Restoring…' : confirming ? 'Confirm restore' : `Restore revision ${to}`}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,8 +3,11 @@
 import { useEffect, useRef } from 'react';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
-import { migrateVersionedStackKeys } from '@/lib/mise/stacks';
+import { isStackEnabled } from '@/lib/mise/stacks';
+import { normalizeIngredientRefs, removeDeletedIngredientRefs } from '@/lib/mise/ingredientRefs';
 import MiseEnPlaceSection from './MiseEnPlaceSection';
+import EquipmentSection from './EquipmentSection';
+import ImagesSection from './ImagesSection';
 import IngredientsSection from './IngredientsSection';
 import AfterCookingSection from './AfterCookingSection';
 import InstructionsSection from './InstructionsSection';
@@ -26,44 +29,23 @@ export default function StructuredEditor({
   hideHeader = false,
   showCreatorHints = false,
 }: StructuredEditorProps) {
-  // Normalize recipe at the edge: migrate versioned stack keys and prep data
+  // Normalize recipe at the edge. Stored shapes are migrated when a doc is
+  // loaded (docMigrations); what is left here follows the enabled stacks.
   const normalizedRecipeRef = useRef<SoustackLiteRecipe | null>(null);
 
   useEffect(() => {
-    let normalized = { ...recipe };
+    let normalized = recipe;
     let hasChanges = false;
 
-    // Check for prep data migration BEFORE migrating stack keys
-    const recipeWithMiseEnPlace = normalized as SoustackLiteRecipe & {
-      miseEnPlace?: Array<{ text: string }>;
-    };
-    const currentMiseEnPlace = recipeWithMiseEnPlace.miseEnPlace;
-    
-    // Migrate prep data from stacks['prep@1'] to recipe.miseEnPlace (only if not already migrated)
-    if (!currentMiseEnPlace && 'prep@1' in recipe.stacks && recipe.stacks['prep@1'] !== undefined) {
-      const prepData = recipe.stacks['prep@1'];
-      if (Array.isArray(prepData)) {
-        const miseEnPlaceItems = prepData.filter(
-          (item): item is { text: string } =>
-            typeof item === 'object' &&
-            item !== null &&
-            'text' in item &&
-            typeof item.text === 'string'
-        );
-        if (miseEnPlaceItems.length > 0) {
-          recipeWithMiseEnPlace.miseEnPlace = miseEnPlaceItems;
-          hasChanges = true;
-        }
+    // Referenced steps need stable ingredient ids
+    if (isStackEnabled(normalized.stacks, 'referenced')) {
+      const linked = normalizeIngredientRefs(normalized);
+      if (linked !== normalized) {
+        normalized = linked;
+        hasChanges = true;
       }
     }
 
-    // Migrate versioned stack keys to unversioned format
-    const normalizedStacks = migrateVersionedStackKeys(normalized.stacks);
-    if (normalizedStacks !== normalized.stacks) {
-      normalized.stacks = normalizedStacks;
-      hasChanges = true;
-    }
-
     if (hasChanges) {
       normalizedRecipeRef.current = normalized;
       onChange(normalized);
@@ -216,6 +198,11 @@ export default function StructuredEditor({
   };
 
 
+  // Deleting an ingredient also drops step inputs that pointed at it
+  const handleIngredientsChange = (next: SoustackLiteRecipe) => {
+    onChange(removeDeletedIngredientRefs(currentRecipe, next));
+  };
+
   const isMiseMode = miseMode === 'mise';
 
   return (
@@ -259,8 +246,11 @@ export default function StructuredEditor({
             </div>
           )}
 
+          {/* Images section */}
+          <ImagesSection recipe={currentRecipe} onChange={onChange} />
+
           {/* Ingredients section */}
-          <IngredientsSection recipe={currentRecipe} onChange={onChange} />
+          <IngredientsSection recipe={currentRecipe} onChange={handleIngredientsChange} />
 
           {/* Mise en Place section */}
           <MiseEnPlaceSection
@@ -269,6 +259,13 @@ export default function StructuredEditor({
             showCreatorHints={showCreatorHints}
           />
 
+          {/* Equipment section */}
+          <EquipmentSection
+            recipe={currentRecipe}
+            onChange={onChange}
+            showCreatorHints={showCreatorHints}
+          />
+
           {/* Instructions section */}
           <InstructionsSection
             recipe={currentRecipe}
@@ -1,30 +1,52 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
 import { parseFreeform } from '@/lib/mise/parseFreeform';
-import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import { compileParseResult } from '@/lib/mise/liteCompiler';
+import { compileProfile } from '@/lib/mise/profiles';
+import { schemaErrorSummary, validateRecipe, type SchemaError } from '@/lib/mise/schemaValidation';
 import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
 import {
   createEmptyWorkbenchDoc,
   nowIso,
 } from '@/lib/mise/workbenchDoc';
-import { saveRecipeAction, setRecipePublicAction } from '@/app/actions/recipes';
+import { setRecipePublicAction, type SavedRecipe } from '@/app/actions/recipes';
+import { clearDraft, docChanged, draftKey, readDraft, writeDraft, type StoredDraft } from '@/lib/mise/drafts';
+import {
+  canRedo,
+  canUndo,
+  createDocHistory,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+  type DocHistory,
+} from '@/lib/mise/docHistory';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
 import { slugify } from '@/lib/utils/slugify';
+import { useRecipeSave } from '@/hooks/useRecipeSave';
 import RawDraftEditor from './RawDraftEditor';
 import StructuredEditor from './StructuredEditor';
 import PreviewTabs from './PreviewTabs';
 import ConvertDialog from './ConvertDialog';
 import AuthPanel from './AuthPanel';
 import EditorTopBar from './EditorTopBar';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import MergeResolver from './MergeResolver';
+import DraftRestoreBanner from './DraftRestoreBanner';
+import { claimDraft } from './DraftSync';
 
 const DEBOUNCE_MS = 200;
 
+const DRAFT_DEBOUNCE_MS = 1000;
+const AUTOSAVE_MS = 3000;
+
 type WorkbenchProps = {
   initialDoc?: WorkbenchDoc;
   initialRecipeId?: string;
   initialIsPublic?: boolean;
   initialPublicId?: string | null;
+  initialRevision?: number;
 };
 
 export default function Workbench({
@@ -32,6 +54,7 @@ export default function Workbench({
   initialRecipeId,
   initialIsPublic = false,
   initialPublicId = null,
+  initialRevision = 0,
 }: WorkbenchProps) {
   // Initialize with initialDoc if provided, otherwise empty
   const [doc, setDoc] = useState<WorkbenchDoc>(() => {
@@ -44,7 +67,9 @@ export default function Workbench({
           initialDoc.meta &&
           typeof initialDoc.recipe.name === 'string'
         ) {
-          return initialDoc;
+          // Compile the derived profile up front, so opening a recipe is not an edit
+          const recipe = compileProfile(initialDoc.recipe);
+          return recipe === initialDoc.recipe ? initialDoc : { ...initialDoc, recipe };
         }
       } catch {
         // Fall through to empty doc
@@ -54,13 +79,20 @@ export default function Workbench({
   });
 
   const [showConvertDialog, setShowConvertDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [savedRecipeId, setSavedRecipeId] = useState<string | undefined>(
     initialRecipeId
   );
-  const [saveStatus, setSaveStatus] = useState<
-    'idle' | 'saving' | 'saved' | 'auth_required' | 'error'
-  >('idle');
-  const [saveError, setSaveError] = useState<string | null>(null);
+  // Revision the editor content is based on; sent with each save
+  const [savedRevision, setSavedRevision] = useState<number>(initialRevision);
+  // Local draft from an earlier visit, offered until restored or discarded
+  const [restorableDraft, setRestorableDraft] = useState<StoredDraft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  // What the server holds (or the untouched starting doc); drafts and
+  // autosave only kick in when the editor differs from it
+  const baselineRef = useRef<WorkbenchDoc>(doc);
+  // Undo/redo steps; read while rendering, which every doc change triggers
+  const historyRef = useRef<DocHistory>(createDocHistory());
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
   const [copySuccess, setCopySuccess] = useState<
     'json' | 'url' | 'sidecar' | 'private' | 'public' | null
@@ -72,6 +104,41 @@ export default function Workbench({
   >('idle');
   const [miseMode, setMiseMode] = useState<'draft' | 'mise'>('draft');
 
+  const handleSaved = useCallback(
+    (
+      result: SavedRecipe,
+      saved: WorkbenchDoc,
+      keepEdits: ((current: SoustackLiteRecipe) => SoustackLiteRecipe) | null
+    ) => {
+      if (keepEdits) {
+        setDoc((prev) => ({ ...prev, recipe: keepEdits(prev.recipe) }));
+      }
+      baselineRef.current = saved;
+      clearDraft(window.localStorage, draftKey(savedRecipeId, 'workbench'));
+      clearDraft(window.localStorage, draftKey(result.id, 'workbench'));
+      setSavedRecipeId(result.id);
+      setSavedRevision(result.revision);
+      // Store public status and public_id from response
+      setIsPublic(result.is_public);
+      setPublicId(result.public_id);
+    },
+    [savedRecipeId]
+  );
+
+  const handleAuthRequired = useCallback(() => setShowAuthPrompt(true), []);
+
+  const {
+    saveStatus,
+    setSaveStatus,
+    saveError,
+    setSaveError,
+    pendingMerge,
+    pendingSync,
+    saveDoc,
+    resolveMerge,
+    cancelMerge,
+  } = useRecipeSave({ recipeId: savedRecipeId, onSaved: handleSaved, onAuthRequired: handleAuthRequired });
+
   // Debounced parse and compile - only runs in raw mode
   useEffect(() => {
     if (doc.draft.mode !== 'raw') {
@@ -81,21 +148,16 @@ export default function Workbench({
     const timer = setTimeout(() => {
       try {
         // Parse the freeform text
-        const parseResult = parseFreeform(doc.draft.rawText);
+        const parseResult = parseFreeform(doc.draft.rawText, {
+          overrides: doc.draft.lineOverrides,
+        });
 
         // Update doc atomically
         setDoc((prev) => {
           // Compile into always-valid recipe
           // Preserve existing description if it exists
-          const compiled = compileLiteRecipe({
-            name: parseResult.title,
+          const compiled = compileParseResult(parseResult, {
             description: prev.recipe.description,
-            ingredients: parseResult.ingredients,
-            instructions: parseResult.instructions,
-            meta: {
-              confidence: parseResult.confidence,
-              mode: parseResult.mode,
-            },
           });
 
           return {
@@ -124,10 +186,101 @@ export default function Workbench({
     }, DEBOUNCE_MS);
 
     return () => clearTimeout(timer);
-  }, [doc.draft.rawText, doc.draft.mode]);
+  }, [doc.draft.rawText, doc.draft.mode, doc.draft.lineOverrides]);
+
+  const currentDraftKey = draftKey(savedRecipeId, 'workbench');
+
+  // Offer a draft left on this device by an earlier visit
+  useEffect(() => {
+    const stored = readDraft(window.localStorage, draftKey(initialRecipeId, 'workbench'));
+    if (stored && docChanged(stored.doc, baselineRef.current)) {
+      setRestorableDraft(stored);
+    }
+    setDraftChecked(true);
+  }, [initialRecipeId]);
+
+  // This editor syncs its own draft (see DraftSync)
+  useEffect(() => claimDraft(currentDraftKey), [currentDraftKey]);
+
+  // Keep unsaved changes on this device
+  useEffect(() => {
+    if (!draftChecked || restorableDraft) return;
+    const timer = setTimeout(() => {
+      if (!pendingSync && !docChanged(doc, baselineRef.current)) {
+        clearDraft(window.localStorage, currentDraftKey);
+        return;
+      }
+      writeDraft(window.localStorage, {
+        key: currentDraftKey,
+        doc,
+        ...(savedRecipeId && { recipeId: savedRecipeId }),
+        baseRevision: savedRevision,
+        savedAt: nowIso(),
+        pending: pendingSync,
+      });
+    }, DRAFT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [doc, draftChecked, restorableDraft, currentDraftKey, savedRecipeId, savedRevision, pendingSync]);
 
-  const handleRawTextChange = useCallback((text: string) => {
+  // Keep recipe.profile at the strongest profile the content satisfies.
+  // Derived, so it does not count as a revision.
+  useEffect(() => {
+    if (compileProfile(doc.recipe) !== doc.recipe) {
+      setDoc((prev) => ({ ...prev, recipe: compileProfile(prev.recipe) }));
+    }
+  }, [doc.recipe]);
+
+  /**
+   * Applies a user edit and records the doc before it as an undo step.
+   * Edits in the same `group` coalesce while typing; ungrouped edits (a
+   * conversion, a paste) undo on their own. Derived updates (parsing,
+   * profile) go through setDoc and belong to the edit that caused them.
+   */
+  const applyEdit = useCallback((update: (prev: WorkbenchDoc) => WorkbenchDoc, group?: string) => {
     setDoc((prev) => {
+      const next = update(prev);
+      if (next !== prev) {
+        historyRef.current = recordEdit(historyRef.current, prev, { group, at: Date.now() });
+      }
+      return next;
+    });
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const result = undoEdit(historyRef.current, doc, nowIso());
+    if (!result) return;
+    historyRef.current = result.history;
+    setDoc(result.doc);
+  }, [doc]);
+
+  const handleRedo = useCallback(() => {
+    const result = redoEdit(historyRef.current, doc, nowIso());
+    if (!result) return;
+    historyRef.current = result.history;
+    setDoc(result.doc);
+  }, [doc]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, in any field
+  const dialogOpen = showConvertDialog || showHistory || !!pendingMerge;
+  useEffect(() => {
+    if (dialogOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dialogOpen, handleUndo, handleRedo]);
+
+  const handleRawTextChange = useCallback((text: string, source?: 'paste') => {
+    applyEdit((prev) => {
       if (prev.draft.mode !== 'raw') {
         return prev; // Don't update raw text in structured mode
       }
@@ -138,22 +291,48 @@ export default function Workbench({
           rawText: text,
         },
       };
+    }, source === 'paste' ? undefined : 'rawText');
+  }, [applyEdit]);
+
+  const handleMoveLine = useCallback(
+    (line: string, target: 'ingredients' | 'instructions') => {
+      applyEdit((prev) => {
+        if (prev.draft.mode !== 'raw') {
+          return prev;
+        }
+        return {
+          ...prev,
+          draft: {
+            ...prev.draft,
+            lineOverrides: { ...prev.draft.lineOverrides, [line]: target },
+          },
+        };
+      });
+    },
+    [applyEdit]
+  );
+
+  const handleClearOverrides = useCallback(() => {
+    applyEdit((prev) => {
+      const draft = { ...prev.draft };
+      delete draft.lineOverrides;
+      return { ...prev, draft };
     });
-  }, []);
+  }, [applyEdit]);
 
   const handleRecipeChange = useCallback((recipe: typeof doc.recipe) => {
-    setDoc((prev) => ({
+    applyEdit((prev) => ({
       ...prev,
       recipe,
       meta: {
         revision: prev.meta.revision + 1,
         updatedAt: nowIso(),
       },
-    }));
-  }, []);
+    }), 'recipe');
+  }, [applyEdit]);
 
   const handleNameChange = useCallback((name: string) => {
-    setDoc((prev) => {
+    applyEdit((prev) => {
       const next = {
         ...prev.recipe,
         name: name.trim() || 'Untitled Recipe',
@@ -166,11 +345,11 @@ export default function Workbench({
           updatedAt: nowIso(),
         },
       };
-    });
-  }, []);
+    }, 'name');
+  }, [applyEdit]);
 
   const handleDescriptionChange = useCallback((description: string) => {
-    setDoc((prev) => {
+    applyEdit((prev) => {
       const trimmed = description.trim();
       const next = {
         ...prev.recipe,
@@ -188,37 +367,94 @@ export default function Workbench({
           updatedAt: nowIso(),
         },
       };
-    });
-  }, []);
+    }, 'description');
+  }, [applyEdit]);
 
   const handleSave = useCallback(async () => {
-    setSaveStatus('saving');
-    setSaveError(null);
+    const schemaErrors = validateRecipe(doc.recipe);
+    if (schemaErrors.length > 0) {
+      setSaveStatus('error');
+      setSaveError(schemaErrorSummary(schemaErrors));
+      return;
+    }
+    await saveDoc(doc, savedRevision, doc);
+  }, [doc, savedRevision, saveDoc, setSaveStatus, setSaveError]);
 
-    try {
-      const result = await saveRecipeAction({
-        id: savedRecipeId ?? undefined,
-        doc,
-      });
-      setSavedRecipeId(result.id);
-      // Store public status and public_id from response
+  // Autosave recipes that already exist on the server, once typing pauses
+  useEffect(() => {
+    if (!savedRecipeId || !draftChecked || restorableDraft || pendingMerge) return;
+    if (saveStatus === 'saving' || saveStatus === 'error' || saveStatus === 'auth_required') return;
+    if (!docChanged(doc, baselineRef.current) || validateRecipe(doc.recipe).length > 0) return;
+    const timer = setTimeout(() => saveDoc(doc, savedRevision, doc), AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [doc, savedRecipeId, savedRevision, draftChecked, restorableDraft, pendingMerge, saveStatus, saveDoc]);
+
+  // Send the queued save when the connection comes back
+  useEffect(() => {
+    if (!pendingSync) return;
+    const handleOnline = () => saveDoc(doc, savedRevision, doc);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [pendingSync, doc, savedRevision, saveDoc]);
+
+  const handleRestoreDraft = useCallback(() => {
+    if (!restorableDraft) return;
+    setRestorableDraft(null);
+    applyEdit(() => restorableDraft.doc);
+    // Saving merges with anything saved since the draft was edited
+    setSavedRevision(restorableDraft.baseRevision);
+    if (restorableDraft.pending) {
+      saveDoc(restorableDraft.doc, restorableDraft.baseRevision, restorableDraft.doc);
+    }
+  }, [restorableDraft, saveDoc, applyEdit]);
+
+  const handleDiscardDraft = useCallback(() => {
+    clearDraft(window.localStorage, currentDraftKey);
+    setRestorableDraft(null);
+  }, [currentDraftKey]);
+
+  const handleMergeResolved = useCallback(
+    (recipe: SoustackLiteRecipe) => {
+      const resolved = resolveMerge(recipe);
+      if (!resolved) return;
+      const schemaErrors = validateRecipe(recipe);
+      if (schemaErrors.length > 0) {
+        applyEdit(() => resolved.doc);
+        setSaveStatus('error');
+        setSaveError(schemaErrorSummary(schemaErrors));
+        return;
+      }
+      saveDoc(resolved.doc, resolved.revision, resolved.from);
+    },
+    [resolveMerge, saveDoc, applyEdit, setSaveStatus, setSaveError]
+  );
+
+  const handleRestored = useCallback(
+    (result: { doc: WorkbenchDoc; is_public: boolean; public_id: string | null; revision: number }) => {
+      applyEdit(() => result.doc);
+      baselineRef.current = result.doc;
+      setSavedRevision(result.revision);
       setIsPublic(result.is_public);
       setPublicId(result.public_id);
+      setShowHistory(false);
       setSaveStatus('saved');
-      // Clear saved status after 3 seconds
       setTimeout(() => {
         setSaveStatus('idle');
       }, 3000);
-    } catch (error: any) {
-      if (error.message === 'AUTH_REQUIRED') {
-        setSaveStatus('auth_required');
-        setShowAuthPrompt(true);
-      } else {
-        setSaveStatus('error');
-        setSaveError(error.message || 'Failed to save recipe');
-      }
-    }
-  }, [doc, savedRecipeId]);
+    },
+    [applyEdit, setSaveStatus]
+  );
+
+  // The old revision replaces the editor content as an unsaved edit
+  const handleRestoreInvalid = useCallback(
+    (restored: WorkbenchDoc, revision: number, errors: SchemaError[]) => {
+      applyEdit(() => restored);
+      setShowHistory(false);
+      setSaveStatus('error');
+      setSaveError(`Revision ${revision} is loaded but not saved. Fix it, then save. ${schemaErrorSummary(errors)}`);
+    },
+    [applyEdit, setSaveStatus, setSaveError]
+  );
 
   const handleCopyJson = useCallback(async () => {
     try {
@@ -281,6 +517,13 @@ export default function Workbench({
     async (makePublic: boolean) => {
       if (!savedRecipeId) return;
 
+      const schemaErrors = makePublic ? validateRecipe(doc.recipe) : [];
+      if (schemaErrors.length > 0) {
+        setSaveStatus('error');
+        setSaveError(schemaErrorSummary(schemaErrors));
+        return;
+      }
+
       setPublicStatus('updating');
       try {
         const result = await setRecipePublicAction({
@@ -295,6 +538,11 @@ export default function Workbench({
           setShowAuthPrompt(true);
           setPublicStatus('error');
           setTimeout(() => setPublicStatus('idle'), 2000);
+        } else if (error.message === 'INVALID_RECIPE') {
+          // The saved version predates the current edits
+          setSaveStatus('error');
+          setSaveError('Save the recipe before publishing: the saved version does not match the Soustack schema.');
+          setPublicStatus('idle');
         } else if (error.message === 'NOT_FOUND') {
           console.error('Recipe not found:', error);
           setPublicStatus('error');
@@ -306,7 +554,7 @@ export default function Workbench({
         }
       }
     },
-    [savedRecipeId]
+    [doc.recipe, savedRecipeId, setSaveStatus, setSaveError]
   );
 
   const handleCopyPrivateUrl = useCallback(async () => {
@@ -334,7 +582,7 @@ export default function Workbench({
   }, [publicId]);
 
   const handleConvert = useCallback((preserveProse: boolean) => {
-    setDoc((prev) => {
+    applyEdit((prev) => {
       const now = nowIso();
       const lastImport = prev.draft.lastImport || {
         source: 'manual' as const,
@@ -381,7 +629,7 @@ export default function Workbench({
     });
 
     setShowConvertDialog(false);
-  }, []);
+  }, [applyEdit]);
 
   // Get parse metadata from recipe or draft
   const parseMetadata = doc.recipe['x-mise']?.parse
@@ -433,6 +681,10 @@ export default function Workbench({
         onModeChange={setMiseMode}
         onNameChange={handleNameChange}
         onDescriptionChange={handleDescriptionChange}
+        canUndo={canUndo(historyRef.current)}
+        canRedo={canRedo(historyRef.current)}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
       
       {/* Action buttons toolbar */}
@@ -636,6 +888,26 @@ export default function Workbench({
             </div>
           )}
         </div>
+        {savedRecipeId && (
+          <button
+            onClick={() => setShowHistory(true)}
+            style={{
+              padding: '6px 12px',
+              border: '1px solid #d0d0d0',
+              borderRadius: '4px',
+              backgroundColor: '#fff',
+              color: '#000',
+              cursor: 'pointer',
+              fontSize: '13px',
+              fontWeight: 500,
+            }}
+          >
+            History
+          </button>
+        )}
+        {pendingSync && (
+          <span style={{ fontSize: '13px', color: '#92400e' }}>Offline · changes kept on this device</span>
+        )}
         <button
           onClick={handleSave}
           disabled={saveStatus === 'saving'}
@@ -707,6 +979,13 @@ export default function Workbench({
           </div>
         </div>
       )}
+      {restorableDraft && (
+        <DraftRestoreBanner
+          savedAt={restorableDraft.savedAt}
+          onRestore={handleRestoreDraft}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
       {saveStatus === 'error' && saveError && (
         <div
           style={{
@@ -755,7 +1034,14 @@ export default function Workbench({
         </div>
         {miseMode === 'draft' && (
           <div style={{ flex: 1 }}>
-            <PreviewTabs recipe={doc.recipe} parse={parseMetadata} />
+            <PreviewTabs
+              recipe={doc.recipe}
+              parse={parseMetadata}
+              rawText={doc.draft.mode === 'raw' ? doc.draft.rawText : undefined}
+              hasOverrides={!!doc.draft.lineOverrides}
+              onMoveLine={handleMoveLine}
+              onClearOverrides={handleClearOverrides}
+            />
           </div>
         )}
       </div>
@@ -765,6 +1051,25 @@ export default function Workbench({
           onCancel={() => setShowConvertDialog(false)}
         />
       )}
+      {pendingMerge && (
+        <MergeResolver
+          base={pendingMerge.base}
+          ours={pendingMerge.ours.recipe}
+          theirs={pendingMerge.theirs}
+          onResolve={handleMergeResolved}
+          onCancel={cancelMerge}
+        />
+      )}
+      {showHistory && savedRecipeId && (
+        <RevisionHistoryPanel
+          recipeId={savedRecipeId}
+          baseRevision={savedRevision}
+          currentRecipe={doc.recipe}
+          onRestored={handleRestored}
+          onRestoreInvalid={handleRestoreInvalid}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
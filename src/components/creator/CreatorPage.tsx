@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { CreatorMode } from './CreatorMode';
 import EntryCards from './EntryCards';
 import PasteRecipeEditor from './PasteRecipeEditor';
@@ -8,19 +8,53 @@ import BuildRecipeEditor from './BuildRecipeEditor';
 import CreatorPreview from './CreatorPreview';
 import CreatorExportMenu from './CreatorExportMenu';
 import InputMethodToggle from './InputMethodToggle';
+import MultiRecipeBanner from './MultiRecipeBanner';
+import SchemaOrgImportEditor from './SchemaOrgImportEditor';
 import AuthPanel from '@/components/AuthPanel';
-import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import DraftRestoreBanner from '@/components/DraftRestoreBanner';
+import { claimDraft } from '@/components/DraftSync';
+import MergeResolver from '@/components/MergeResolver';
+import { compileLiteRecipe, compileParseResult } from '@/lib/mise/liteCompiler';
 import { parseFreeform } from '@/lib/mise/parseFreeform';
-import { saveRecipeAction, setRecipePublicAction } from '@/app/actions/recipes';
-import { nowIso } from '@/lib/mise/workbenchDoc';
+import { splitRecipes } from '@/lib/mise/splitRecipes';
+import { schemaErrorSummary, validateRecipe } from '@/lib/mise/schemaValidation';
+import { saveRecipeAction, setRecipePublicAction, type SavedRecipe } from '@/app/actions/recipes';
+import { createWorkbenchDocFromText, nowIso } from '@/lib/mise/workbenchDoc';
 import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import { WORKBENCH_DOC_VERSION, migrateRecipe } from '@/lib/mise/docMigrations';
+import { clearDraft, docChanged, draftKey, readDraft, writeDraft, type StoredDraft } from '@/lib/mise/drafts';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 import { supabaseBrowser } from '@/lib/supabase/client';
 import type { User } from '@supabase/supabase-js';
 import { slugify } from '@/lib/utils/slugify';
+import { useRecipeSave } from '@/hooks/useRecipeSave';
 
 type InputMethod = 'paste' | 'build';
 
+const DRAFT_DEBOUNCE_MS = 1000;
+const AUTOSAVE_MS = 3000;
+
+/**
+ * First save of a recipe; only updates of an existing recipe can conflict
+ */
+async function createRecipe(doc: WorkbenchDoc): Promise<SavedRecipe> {
+  const result = await saveRecipeAction({ doc });
+  if (result.status === 'conflict') throw new Error('CONFLICT');
+  return result;
+}
+
+/**
+ * Why one pasted recipe was not imported, naming it by its first line
+ */
+function importErrorMessage(chunk: string, index: number, count: number, error: unknown): string {
+  const title = chunk.trim().split('\n')[0].trim();
+  const reason =
+    error instanceof Error && error.message === 'INVALID_RECIPE'
+      ? 'it does not match the Soustack schema'
+      : 'the server did not accept it';
+  return `Recipe ${index + 1} of ${count} ("${title}") was not saved: ${reason}.`;
+}
+
 export default function CreatorPage() {
   const [isMobile, setIsMobile] = useState(false);
   const [mode, setMode] = useState<CreatorMode>('empty');
@@ -31,11 +65,61 @@ export default function CreatorPage() {
   const [parseMeta, setParseMeta] = useState<{ confidence: number; mode: string } | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [savedRecipeId, setSavedRecipeId] = useState<string | null>(null);
+  const [savedRevision, setSavedRevision] = useState<number>(0);
   const [publicId, setPublicId] = useState<string | null>(null);
   const [isPublic, setIsPublic] = useState<boolean>(false);
-  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
   const [copySuccess, setCopySuccess] = useState<'json' | null>(null);
+  const [importStatus, setImportStatus] = useState<'idle' | 'importing' | 'done' | 'error'>('idle');
+  const [importedRecipes, setImportedRecipes] = useState<Array<{ id: string; title: string }>>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Local draft from an earlier visit, offered until restored or discarded
+  const [restorableDraft, setRestorableDraft] = useState<StoredDraft | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  // Last doc written to the server; null until the first save
+  const savedDocRef = useRef<WorkbenchDoc | null>(null);
+
+  const handleSaved = useCallback(
+    (
+      result: SavedRecipe,
+      saved: WorkbenchDoc,
+      keepEdits: ((current: SoustackLiteRecipe) => SoustackLiteRecipe) | null
+    ) => {
+      if (keepEdits) setRecipe(keepEdits);
+      savedDocRef.current = saved;
+      clearDraft(window.localStorage, draftKey(savedRecipeId, 'creator'));
+      clearDraft(window.localStorage, draftKey(result.id, 'creator'));
+      setSavedRecipeId(result.id);
+      setSavedRevision(result.revision);
+      setIsPublic(result.is_public);
+      setPublicId(result.public_id);
+    },
+    [savedRecipeId]
+  );
+
+  const handleAuthRequired = useCallback(() => setShowAuthPrompt(true), []);
+
+  const {
+    saveStatus,
+    setSaveStatus,
+    saveError,
+    setSaveError,
+    pendingMerge,
+    pendingSync,
+    saveDoc,
+    resolveMerge,
+    cancelMerge,
+  } = useRecipeSave({ recipeId: savedRecipeId, onSaved: handleSaved, onAuthRequired: handleAuthRequired });
+
+  // Pasted text holding several recipes can be imported as separate docs
+  const recipeChunks = useMemo(() => splitRecipes(draftText), [draftText]);
+
+  // A new paste starts a new import
+  useEffect(() => {
+    setImportStatus('idle');
+    setImportedRecipes([]);
+    setImportError(null);
+  }, [draftText]);
 
   // Initialize inputMethod when mode changes
   useEffect(() => {
@@ -52,15 +136,7 @@ export default function CreatorPage() {
 
     try {
       const parseResult = parseFreeform(draftText);
-      const newRecipe = compileLiteRecipe({
-        name: parseResult.title || undefined,
-        ingredients: parseResult.ingredients,
-        instructions: parseResult.instructions,
-        meta: {
-          confidence: parseResult.confidence,
-          mode: parseResult.mode,
-        },
-      });
+      const newRecipe = compileParseResult(parseResult);
       setRecipe(newRecipe);
       setParseMeta({
         confidence: parseResult.confidence,
@@ -104,6 +180,7 @@ export default function CreatorPage() {
   // Create WorkbenchDoc from current recipe state
   const createWorkbenchDoc = useCallback((): WorkbenchDoc => {
     return {
+      formatVersion: WORKBENCH_DOC_VERSION,
       recipe,
       draft: {
         mode: 'structured',
@@ -124,37 +201,141 @@ export default function CreatorPage() {
     };
   }, [recipe, draftText, parseMeta]);
 
-  // Handle save
-  const handleSave = useCallback(async () => {
+  // Save each detected recipe as its own WorkbenchDoc, resuming after a failure
+  const handleImportAll = useCallback(async () => {
     if (!user) {
       setShowAuthPrompt(true);
       return;
     }
 
-    setSaveStatus('saving');
+    setImportStatus('importing');
+    setImportError(null);
+    const imported = [...importedRecipes];
     try {
-      const doc = createWorkbenchDoc();
-      const result = await saveRecipeAction({
-        id: savedRecipeId ?? undefined,
-        doc,
-      });
-      setSavedRecipeId(result.id);
-      setIsPublic(result.is_public);
-      setPublicId(result.public_id);
-      setSaveStatus('saved');
-      setTimeout(() => {
-        setSaveStatus('idle');
-      }, 3000);
-    } catch (error: any) {
-      if (error.message === 'AUTH_REQUIRED') {
+      for (const chunk of recipeChunks.slice(imported.length)) {
+        const result = await createRecipe(createWorkbenchDocFromText(chunk));
+        imported.push({ id: result.id, title: result.title });
+        setImportedRecipes([...imported]);
+      }
+      setImportStatus('done');
+    } catch (error: unknown) {
+      if (error instanceof Error && error.message === 'AUTH_REQUIRED') {
         setShowAuthPrompt(true);
-        setSaveStatus('idle');
+        setImportStatus('idle');
       } else {
-        setSaveStatus('error');
-        console.error('Save error:', error);
+        const failed = imported.length;
+        setImportError(importErrorMessage(recipeChunks[failed], failed, recipeChunks.length, error));
+        setImportStatus('error');
       }
     }
-  }, [user, savedRecipeId, createWorkbenchDoc]);
+  }, [user, recipeChunks, importedRecipes]);
+
+  // Imported recipes open in the builder for editing
+  const handleSchemaOrgImport = useCallback((imported: SoustackLiteRecipe) => {
+    setRecipe(migrateRecipe(imported));
+    setParseMeta(null);
+    setMode('scratch');
+  }, []);
+
+  // Save a doc (the current recipe, or a restored draft)
+  const persist = useCallback(
+    (doc: WorkbenchDoc) => {
+      if (!user) {
+        setShowAuthPrompt(true);
+        return;
+      }
+      const schemaErrors = validateRecipe(doc.recipe);
+      if (schemaErrors.length > 0) {
+        setSaveStatus('error');
+        setSaveError(schemaErrorSummary(schemaErrors));
+        return;
+      }
+      return saveDoc(doc, savedRevision, doc);
+    },
+    [user, saveDoc, savedRevision, setSaveStatus, setSaveError]
+  );
+
+  // Handle save
+  const handleSave = useCallback(() => persist(createWorkbenchDoc()), [persist, createWorkbenchDoc]);
+
+  const handleMergeResolved = useCallback(
+    (merged: SoustackLiteRecipe) => {
+      const resolved = resolveMerge(merged);
+      if (!resolved) return;
+      const schemaErrors = validateRecipe(merged);
+      if (schemaErrors.length > 0) {
+        setRecipe(merged);
+        setSaveStatus('error');
+        setSaveError(schemaErrorSummary(schemaErrors));
+        return;
+      }
+      saveDoc(resolved.doc, resolved.revision, resolved.from);
+    },
+    [resolveMerge, saveDoc, setSaveStatus, setSaveError]
+  );
+
+  const currentDraftKey = draftKey(savedRecipeId, 'creator');
+
+  // Offer an unsaved recipe left on this device by an earlier visit
+  useEffect(() => {
+    setRestorableDraft(readDraft(window.localStorage, draftKey(null, 'creator')));
+    setDraftChecked(true);
+  }, []);
+
+  // This page syncs its own draft (see DraftSync)
+  useEffect(() => claimDraft(currentDraftKey), [currentDraftKey]);
+
+  // Keep unsaved work on this device, so a reload does not lose a paste
+  useEffect(() => {
+    if (!draftChecked || restorableDraft || mode === 'empty') return;
+    const timer = setTimeout(() => {
+      const doc = createWorkbenchDoc();
+      if (!pendingSync && savedDocRef.current && !docChanged(doc, savedDocRef.current)) {
+        clearDraft(window.localStorage, currentDraftKey);
+        return;
+      }
+      writeDraft(window.localStorage, {
+        key: currentDraftKey,
+        doc,
+        ...(savedRecipeId && { recipeId: savedRecipeId }),
+        baseRevision: savedRevision,
+        savedAt: nowIso(),
+        pending: pendingSync,
+      });
+    }, DRAFT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [draftChecked, restorableDraft, mode, createWorkbenchDoc, currentDraftKey, savedRecipeId, savedRevision, pendingSync]);
+
+  // Autosave once the recipe has been saved, when typing pauses
+  useEffect(() => {
+    if (!user || !savedRecipeId || !savedDocRef.current || saveStatus !== 'idle' || pendingMerge) return;
+    const doc = createWorkbenchDoc();
+    if (!docChanged(doc, savedDocRef.current) || validateRecipe(doc.recipe).length > 0) return;
+    const timer = setTimeout(() => persist(doc), AUTOSAVE_MS);
+    return () => clearTimeout(timer);
+  }, [user, savedRecipeId, saveStatus, pendingMerge, createWorkbenchDoc, persist]);
+
+  // Send the queued save when the connection comes back
+  useEffect(() => {
+    if (!pendingSync) return;
+    window.addEventListener('online', handleSave);
+    return () => window.removeEventListener('online', handleSave);
+  }, [pendingSync, handleSave]);
+
+  const handleRestoreDraft = useCallback(() => {
+    if (!restorableDraft) return;
+    const { doc } = restorableDraft;
+    setRestorableDraft(null);
+    setRecipe(doc.recipe);
+    setDraftText(doc.draft.rawText);
+    setMode(doc.draft.rawText.trim() ? 'paste' : 'scratch');
+    if (restorableDraft.pending) persist(doc);
+  }, [restorableDraft, persist]);
+
+  const handleDiscardDraft = useCallback(() => {
+    clearDraft(window.localStorage, draftKey(null, 'creator'));
+    setRestorableDraft(null);
+  }, []);
 
   // Handle copy JSON
   const handleCopyJson = useCallback(async () => {
@@ -197,10 +378,11 @@ export default function CreatorPage() {
       setSaveStatus('saving');
       try {
         const doc = createWorkbenchDoc();
-        const result = await saveRecipeAction({
-          doc,
-        });
+        const result = await createRecipe(doc);
+        savedDocRef.current = doc;
+        clearDraft(window.localStorage, draftKey(null, 'creator'));
         setSavedRecipeId(result.id);
+        setSavedRevision(result.revision);
         setIsPublic(result.is_public);
         setPublicId(result.public_id);
         setSaveStatus('saved');
@@ -228,7 +410,7 @@ export default function CreatorPage() {
     } catch (error) {
       console.error('Failed to copy shareable link:', error);
     }
-  }, [user, savedRecipeId, createWorkbenchDoc]);
+  }, [user, savedRecipeId, createWorkbenchDoc, setSaveStatus]);
 
   // Handle publish
   const handlePublish = useCallback(async () => {
@@ -242,10 +424,11 @@ export default function CreatorPage() {
       setSaveStatus('saving');
       try {
         const doc = createWorkbenchDoc();
-        const result = await saveRecipeAction({
-          doc,
-        });
+        const result = await createRecipe(doc);
+        savedDocRef.current = doc;
+        clearDraft(window.localStorage, draftKey(null, 'creator'));
         setSavedRecipeId(result.id);
+        setSavedRevision(result.revision);
         setIsPublic(result.is_public);
         setPublicId(result.public_id);
         setSaveStatus('saved');
@@ -279,7 +462,7 @@ export default function CreatorPage() {
         console.error('Publish error:', error);
       }
     }
-  }, [user, savedRecipeId, isPublic, createWorkbenchDoc]);
+  }, [user, savedRecipeId, isPublic, createWorkbenchDoc, setSaveStatus]);
 
   return (
     <div
@@ -307,6 +490,9 @@ export default function CreatorPage() {
           </div>
         </div>
         <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+          {pendingSync && (
+            <span style={{ fontSize: '13px', color: '#92400e' }}>Offline · changes kept on this device</span>
+          )}
           <button
             onClick={handleSave}
             disabled={saveStatus === 'saving'}
@@ -336,6 +522,56 @@ export default function CreatorPage() {
         </div>
       </div>
 
+      {restorableDraft && (
+        <DraftRestoreBanner
+          savedAt={restorableDraft.savedAt}
+          onRestore={handleRestoreDraft}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
+
+      {saveStatus === 'error' && saveError && (
+        <div
+          style={{
+            padding: '12px 24px',
+            borderBottom: '1px solid #e0e0e0',
+            backgroundColor: '#fee2e2',
+            color: '#dc2626',
+            fontSize: '14px',
+          }}
+        >
+          Error: {saveError}
+          <button
+            onClick={() => {
+              setSaveStatus('idle');
+              setSaveError(null);
+            }}
+            style={{
+              marginLeft: '12px',
+              padding: '4px 8px',
+              border: 'none',
+              backgroundColor: 'transparent',
+              cursor: 'pointer',
+              fontSize: '14px',
+              color: '#dc2626',
+              textDecoration: 'underline',
+            }}
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {pendingMerge && (
+        <MergeResolver
+          base={pendingMerge.base}
+          ours={pendingMerge.ours.recipe}
+          theirs={pendingMerge.theirs}
+          onResolve={handleMergeResolved}
+          onCancel={cancelMerge}
+        />
+      )}
+
       {/* Auth Prompt */}
       {showAuthPrompt && (
         <div
@@ -350,7 +586,10 @@ export default function CreatorPage() {
               Sign in to save, share, and publish recipes
             </div>
             <button
-              onClick={() => setShowAuthPrompt(false)}
+              onClick={() => {
+                setShowAuthPrompt(false);
+                setSaveStatus('idle');
+              }}
               style={{
                 padding: '4px 8px',
                 border: 'none',
@@ -527,7 +766,16 @@ export default function CreatorPage() {
                     onReParse={handleReParse}
                   />
                 )}
-                {inputMethod === 'paste' && (
+                {mode !== 'import' && inputMethod === 'paste' && recipeChunks.length > 1 && (
+                  <MultiRecipeBanner
+                    recipeCount={recipeChunks.length}
+                    status={importStatus}
+                    imported={importedRecipes}
+                    error={importError}
+                    onImport={handleImportAll}
+                  />
+                )}
+                {mode !== 'import' && inputMethod === 'paste' && (
                   <PasteRecipeEditor
                     draftText={draftText}
                     onDraftTextChange={setDraftText}
@@ -539,11 +787,7 @@ export default function CreatorPage() {
                 {inputMethod === 'build' && (
                   <BuildRecipeEditor recipe={recipe} onChange={setRecipe} />
                 )}
-                {mode === 'import' && (
-                  <div style={{ padding: '24px', textAlign: 'center', color: '#666' }}>
-                    File import coming soon
-                  </div>
-                )}
+                {mode === 'import' && <SchemaOrgImportEditor onImport={handleSchemaOrgImport} />}
               </div>
             )}
             {activeTab === 'preview' && <CreatorPreview recipe={recipe} />}
@@ -623,7 +867,16 @@ export default function CreatorPage() {
                 onReParse={handleReParse}
               />
             )}
-            {inputMethod === 'paste' && (
+            {mode !== 'import' && inputMethod === 'paste' && recipeChunks.length > 1 && (
+              <MultiRecipeBanner
+                recipeCount={recipeChunks.length}
+                status={importStatus}
+                imported={importedRecipes}
+                error={importError}
+                onImport={handleImportAll}
+              />
+            )}
+            {mode !== 'import' && inputMethod === 'paste' && (
               <PasteRecipeEditor
                 draftText={draftText}
                 onDraftTextChange={setDraftText}
@@ -635,11 +888,7 @@ export default function CreatorPage() {
             {inputMethod === 'build' && (
               <BuildRecipeEditor recipe={recipe} onChange={setRecipe} />
             )}
-            {mode === 'import' && (
-              <div style={{ padding: '24px', textAlign: 'center', color: '#666' }}>
-                File import coming soon
-              </div>
-            )}
+            {mode === 'import' && <SchemaOrgImportEditor onImport={handleSchemaOrgImport} />}
           </div>
 
           {/* Preview Pane (40%) */}
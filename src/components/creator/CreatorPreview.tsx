@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import { formatQuantity } from '@/lib/mise/ingredientLine';
+import { describeRecipeFacts } from '@/lib/mise/recipeMeta';
 import { slugify } from '@/lib/utils/slugify';
 
 type CreatorPreviewProps = {
@@ -92,6 +94,7 @@ function TabButton({
 function RenderedTab({ recipe }: { recipe: SoustackLiteRecipe }) {
   const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
   const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+  const recipeFacts = describeRecipeFacts(recipe);
 
   // Get mise en place items
   const miseEnPlaceItems: Array<{ text: string }> = [];
@@ -135,6 +138,12 @@ function RenderedTab({ recipe }: { recipe: SoustackLiteRecipe }) {
         </p>
       )}
 
+      {recipeFacts.length > 0 && (
+        <p style={{ margin: '0 0 24px 0', fontSize: '14px', color: '#666' }}>
+          {recipeFacts.join(' · ')}
+        </p>
+      )}
+
       {miseEnPlaceItems.length > 0 && (
         <section style={{ marginBottom: '32px' }}>
           <h3
@@ -247,16 +256,18 @@ function RenderedTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                           }
                           if (typeof item === 'object' && item !== null && 'name' in item) {
                             const obj = item as {
-                              quantity?: string | number;
+                              quantity?: string | number | { min: number; max: number };
                               unit?: string;
                               name: string;
+                              prep?: string;
+                              toTaste?: boolean;
                               scaling?: { mode?: string };
                             };
                             const parts: string[] = [];
-                            if (obj.quantity) parts.push(String(obj.quantity));
+                            if (obj.quantity) parts.push(formatQuantity(obj.quantity));
                             if (obj.unit) parts.push(obj.unit);
-                            parts.push(obj.name);
-                            if (obj.scaling?.mode === 'toTaste') {
+                            parts.push(obj.prep ? `${obj.name}, ${obj.prep}` : obj.name);
+                            if (obj.toTaste || obj.scaling?.mode === 'toTaste') {
                               parts.push('(to taste)');
                             }
                             return (
@@ -280,16 +291,18 @@ function RenderedTab({ recipe }: { recipe: SoustackLiteRecipe }) {
                 }
                 if ('name' in ingredient) {
                   const obj = ingredient as {
-                    quantity?: string | number;
+                    quantity?: string | number | { min: number; max: number };
                     unit?: string;
                     name: string;
+                    prep?: string;
+                    toTaste?: boolean;
                     scaling?: { mode?: string };
                   };
                   const parts: string[] = [];
-                  if (obj.quantity) parts.push(String(obj.quantity));
+                  if (obj.quantity) parts.push(formatQuantity(obj.quantity));
                   if (obj.unit) parts.push(obj.unit);
-                  parts.push(obj.name);
-                  if (obj.scaling?.mode === 'toTaste') {
+                  parts.push(obj.prep ? `${obj.name}, ${obj.prep}` : obj.name);
+                  if (obj.toTaste || obj.scaling?.mode === 'toTaste') {
                     parts.push('(to taste)');
                   }
                   return (
@@ -96,10 +96,10 @@ export default function EntryCards({ onSelect }: EntryCardsProps) {
       >
         <div style={{ fontSize: '32px', marginBottom: '8px' }}>📄</div>
         <div style={{ fontSize: '18px', fontWeight: 600, marginBottom: '4px' }}>
-          Import file
+          Import from a website
         </div>
         <div style={{ fontSize: '14px', color: '#666' }}>
-          Upload a .txt, .json, or .md file
+          Paste a recipe page&apos;s HTML or its schema.org JSON-LD
         </div>
       </button>
     </div>
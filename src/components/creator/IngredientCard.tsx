@@ -1,12 +1,8 @@
 'use client';
 
-export type IngredientObject = {
-  quantity?: number | { min: number; max: number };
-  unit?: string;
-  name: string;
-  prep?: string;
-  toTaste?: boolean;
-};
+import type { IngredientObject } from '@/lib/mise/types';
+
+export type { IngredientObject };
 
 type IngredientCardProps = {
   ingredient: string | IngredientObject;
@@ -0,0 +1,83 @@
+'use client';
+
+import Link from 'next/link';
+
+type MultiRecipeBannerProps = {
+  recipeCount: number;
+  status: 'idle' | 'importing' | 'done' | 'error';
+  imported: Array<{ id: string; title: string }>;
+  // Which recipe failed and why, once status is 'error'
+  error: string | null;
+  onImport: () => void;
+};
+
+export default function MultiRecipeBanner({
+  recipeCount,
+  status,
+  imported,
+  error,
+  onImport,
+}: MultiRecipeBannerProps) {
+  return (
+    <div
+      style={{
+        marginBottom: '16px',
+        padding: '12px',
+        border: '1px solid #bae6fd',
+        borderRadius: '4px',
+        backgroundColor: '#f0f9ff',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: '12px',
+        }}
+      >
+        <div style={{ fontSize: '14px' }}>
+          {status === 'done'
+            ? `Imported ${imported.length} recipes`
+            : `This text looks like ${recipeCount} separate recipes.`}
+        </div>
+        {status !== 'done' && (
+          <button
+            onClick={onImport}
+            disabled={status === 'importing'}
+            style={{
+              padding: '6px 12px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: '#000',
+              color: '#fff',
+              cursor: status === 'importing' ? 'not-allowed' : 'pointer',
+              fontSize: '13px',
+              fontWeight: 500,
+              opacity: status === 'importing' ? 0.6 : 1,
+            }}
+          >
+            {status === 'importing' ? 'Importing...' : `Import as ${recipeCount} recipes`}
+          </button>
+        )}
+      </div>
+      {status === 'error' && (
+        <div style={{ marginTop: '8px', fontSize: '13px', color: '#dc2626' }}>
+          {imported.length > 0 ? `Imported ${imported.length} of ${recipeCount} recipes. ` : ''}
+          {error ?? 'Import failed.'} Try again to retry the rest.
+        </div>
+      )}
+      {imported.length > 0 && (
+        <ul style={{ margin: '8px 0 0 0', paddingLeft: '20px', fontSize: '13px' }}>
+          {imported.map((recipe) => (
+            <li key={recipe.id}>
+              <Link href={`/recipes/${recipe.id}`} style={{ color: '#0369a1' }}>
+                {recipe.title}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { parseFreeform } from '@/lib/mise/parseFreeform';
-import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import { compileParseResult } from '@/lib/mise/liteCompiler';
 import type { SoustackLiteRecipe } from '@/lib/mise/types';
 
 type PasteRecipeEditorProps = {
@@ -49,15 +49,7 @@ export default function PasteRecipeEditor({
           const parseResult = parseFreeform(text);
 
           // Compile into always-valid recipe
-          const recipe = compileLiteRecipe({
-            name: parseResult.title || undefined,
-            ingredients: parseResult.ingredients,
-            instructions: parseResult.instructions,
-            meta: {
-              confidence: parseResult.confidence,
-              mode: parseResult.mode,
-            },
-          });
+          const recipe = compileParseResult(parseResult);
 
           // Store as last valid recipe
           lastValidRecipeRef.current = recipe;
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { importSchemaOrgRecipes } from '@/lib/mise/schemaOrgImport';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+
+type SchemaOrgImportEditorProps = {
+  onImport: (recipe: SoustackLiteRecipe) => void;
+};
+
+export default function SchemaOrgImportEditor({ onImport }: SchemaOrgImportEditorProps) {
+  const [source, setSource] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Pages with several recipes: the user picks which one to open
+  const [choices, setChoices] = useState<SoustackLiteRecipe[] | null>(null);
+
+  const handleImport = () => {
+    const recipes = importSchemaOrgRecipes(source);
+    if (recipes.length === 0) {
+      setError('No schema.org Recipe found. Paste the page source (HTML) or its JSON-LD.');
+      return;
+    }
+    setError(null);
+    if (recipes.length > 1) {
+      setChoices(recipes);
+      return;
+    }
+    onImport(recipes[0]);
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '16px',
+      }}
+    >
+      <div>
+        <div style={{ fontSize: '16px', fontWeight: 500, marginBottom: '8px' }}>
+          Paste a recipe page
+        </div>
+        <div
+          style={{
+            height: '1px',
+            backgroundColor: '#e0e0e0',
+            marginBottom: '16px',
+          }}
+        />
+        <textarea
+          value={source}
+          onChange={(e) => {
+            setSource(e.target.value);
+            setError(null);
+            setChoices(null);
+          }}
+          placeholder="Paste the page HTML or its schema.org JSON-LD here..."
+          style={{
+            width: '100%',
+            minHeight: '300px',
+            padding: '16px',
+            border: '1px solid #d0d0d0',
+            borderRadius: '4px',
+            fontSize: '13px',
+            fontFamily: 'monospace',
+            resize: 'vertical',
+            outline: 'none',
+          }}
+        />
+        <div
+          style={{
+            marginTop: '8px',
+            fontSize: '13px',
+            color: '#666',
+            lineHeight: '1.6',
+          }}
+        >
+          Reads the schema.org Recipe most recipe sites embed (JSON-LD or microdata):
+          ingredients, steps and sections, yield, times and images.
+        </div>
+        {error && (
+          <div style={{ marginTop: '12px', fontSize: '13px', color: '#dc2626' }}>{error}</div>
+        )}
+        {choices && (
+          <div style={{ marginTop: '12px', fontSize: '13px' }}>
+            <div style={{ marginBottom: '8px' }}>This page has {choices.length} recipes. Pick one to open:</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              {choices.map((recipe, index) => (
+                <button
+                  key={index}
+                  onClick={() => onImport(recipe)}
+                  style={{
+                    padding: '8px 12px',
+                    border: '1px solid #d0d0d0',
+                    borderRadius: '4px',
+                    backgroundColor: '#fff',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    textAlign: 'left',
+                  }}
+                >
+                  {recipe.name || `Recipe ${index + 1}`}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <button
+          onClick={handleImport}
+          disabled={!source.trim()}
+          style={{
+            marginTop: '12px',
+            padding: '8px 16px',
+            border: 'none',
+            borderRadius: '4px',
+            backgroundColor: '#000',
+            color: '#fff',
+            cursor: source.trim() ? 'pointer' : 'not-allowed',
+            fontSize: '14px',
+            fontWeight: 500,
+            opacity: source.trim() ? 1 : 0.5,
+          }}
+        >
+          Import recipe
+        </button>
+      </div>
+    </div>
+  );
+}
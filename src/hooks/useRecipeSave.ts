@@ -0,0 +1,182 @@
+import { useState, useCallback } from 'react';
+import { saveRecipeAction, type SavedRecipe } from '@/app/actions/recipes';
+import { getRecipeRevisionAction } from '@/app/actions/revisions';
+import { mergeRecipes } from '@/lib/mise/recipeMerge';
+import { nowIso, type WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'auth_required' | 'error';
+
+/**
+ * A save that conflicted with overlapping edits made elsewhere, waiting
+ * for the user to pick sides
+ */
+export type PendingMerge = {
+  base: SoustackLiteRecipe | null;
+  ours: WorkbenchDoc;
+  theirs: SoustackLiteRecipe;
+  revision: number;
+  from: WorkbenchDoc; // editor doc the save started from
+};
+
+/**
+ * The resolver's outcome: the doc to save and what to save it over
+ */
+export type ResolvedMerge = {
+  doc: WorkbenchDoc;
+  revision: number;
+  from: WorkbenchDoc;
+};
+
+type RecipeSaveOptions = {
+  recipeId: string | null | undefined;
+  /**
+   * Called once a doc is written. `keepEdits` is set when the written doc
+   * was merged with someone else's version; it folds that merge into the
+   * editor's current recipe, keeping edits made while saving.
+   */
+  onSaved: (
+    result: SavedRecipe,
+    doc: WorkbenchDoc,
+    keepEdits: ((current: SoustackLiteRecipe) => SoustackLiteRecipe) | null
+  ) => void;
+  onAuthRequired: () => void;
+};
+
+// Merge-and-retry rounds before giving up on a recipe saved over and over
+const MAX_SAVE_ATTEMPTS = 3;
+
+function saveErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : '';
+  if (message === 'INVALID_RECIPE') return 'The server rejected this recipe: it does not match the Soustack schema.';
+  if (message === 'NOT_FOUND') return 'This recipe no longer exists, or it belongs to someone else.';
+  return 'The recipe could not be saved. Please try again.';
+}
+
+export function useRecipeSave({ recipeId, onSaved, onAuthRequired }: RecipeSaveOptions) {
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  // A save is waiting for the connection to come back
+  const [pendingSync, setPendingSync] = useState(false);
+
+  /**
+   * Saves `target` on top of `baseRevision`. When someone saved in between,
+   * their version is merged with ours against the revision both started
+   * from: clean merges are saved right away, overlapping edits go to the
+   * resolver. `from` is the editor doc the save started from, so edits made
+   * while saving are kept.
+   */
+  const saveDoc = useCallback(
+    async (target: WorkbenchDoc, baseRevision: number, from: WorkbenchDoc) => {
+      // Offline: the caller's draft stays queued for DraftSync or the
+      // caller's online listener
+      if (!navigator.onLine) {
+        setPendingSync(true);
+        setSaveStatus('idle');
+        return;
+      }
+
+      setSaveStatus('saving');
+      setSaveError(null);
+
+      try {
+        let next = target;
+        let base = baseRevision;
+        for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+          const result = await saveRecipeAction({
+            id: recipeId ?? undefined,
+            doc: next,
+            baseRevision: base,
+          });
+
+          if (result.status === 'conflict') {
+            const ancestor =
+              base > 0
+                ? await getRecipeRevisionAction({ recipeId: result.id, revision: base }).catch(() => null)
+                : null;
+            const merge = mergeRecipes(ancestor?.recipe ?? null, next.recipe, result.doc.recipe);
+            if (merge.conflicts.length > 0) {
+              setPendingMerge({
+                base: ancestor?.recipe ?? null,
+                ours: next,
+                theirs: result.doc.recipe,
+                revision: result.revision,
+                from,
+              });
+              setSaveStatus('idle');
+              return;
+            }
+            next = { ...next, recipe: merge.recipe, meta: { ...next.meta, updatedAt: nowIso() } };
+            base = result.revision;
+            continue;
+          }
+
+          const saved = next.recipe;
+          const keepEdits =
+            next === from
+              ? null
+              : (current: SoustackLiteRecipe) =>
+                  current === from.recipe ? saved : mergeRecipes(from.recipe, current, saved).recipe;
+          setPendingSync(false);
+          onSaved(result, next, keepEdits);
+          setSaveStatus('saved');
+          // Clear saved status after 3 seconds
+          setTimeout(() => {
+            setSaveStatus('idle');
+          }, 3000);
+          return;
+        }
+
+        setSaveStatus('error');
+        setSaveError('This recipe keeps being saved elsewhere. Please try again in a moment.');
+      } catch (error) {
+        if (!navigator.onLine) {
+          setPendingSync(true);
+          setSaveStatus('idle');
+        } else if (error instanceof Error && error.message === 'AUTH_REQUIRED') {
+          setSaveStatus('auth_required');
+          onAuthRequired();
+        } else {
+          setSaveStatus('error');
+          setSaveError(saveErrorMessage(error));
+        }
+      }
+    },
+    [recipeId, onSaved, onAuthRequired]
+  );
+
+  /**
+   * Closes the resolver with the user's merged recipe
+   */
+  const resolveMerge = useCallback(
+    (recipe: SoustackLiteRecipe): ResolvedMerge | null => {
+      if (!pendingMerge) return null;
+      setPendingMerge(null);
+      return {
+        doc: { ...pendingMerge.ours, recipe, meta: { ...pendingMerge.ours.meta, updatedAt: nowIso() } },
+        revision: pendingMerge.revision,
+        from: pendingMerge.from,
+      };
+    },
+    [pendingMerge]
+  );
+
+  const cancelMerge = useCallback(() => {
+    setPendingMerge(null);
+    setSaveStatus('error');
+    setSaveError('Not saved: this recipe was changed elsewhere. Save again to merge the changes.');
+  }, []);
+
+  return {
+    saveStatus,
+    setSaveStatus,
+    saveError,
+    setSaveError,
+    pendingMerge,
+    pendingSync,
+    saveDoc,
+    resolveMerge,
+    cancelMerge,
+  };
+}
@@ -0,0 +1,29 @@
+import { supabaseServer } from '@/lib/supabase/server';
+import { compileLiteRecipe } from '@/lib/mise/liteCompiler';
+import type { SoustackLiteRecipe } from '@/lib/mise/types';
+import { migrateRecipe } from '@/lib/mise/docMigrations';
+
+/**
+ * Loads a published recipe by public_id (server only, no auth required).
+ * Returns null when not found; malformed recipes fall back to an always-valid one.
+ */
+export async function getPublicRecipe(publicId: string): Promise<SoustackLiteRecipe | null> {
+  const supabase = supabaseServer();
+
+  // SECURITY DEFINER function, callable with the anon key
+  const { data, error } = await supabase.rpc('get_public_recipe', {
+    p_public_id: publicId,
+  });
+
+  if (error || !data) {
+    return null;
+  }
+
+  if (typeof data !== 'object' || !data.name) {
+    return compileLiteRecipe({});
+  }
+
+  // The RPC returns only the recipe, so its document version is unknown;
+  // the migrations are safe to run again
+  return migrateRecipe(data as SoustackLiteRecipe);
+}
@@ -1,4 +1,5 @@
 import type { WorkbenchDoc } from '@/lib/mise/workbenchDoc';
+import { migrateWorkbenchDoc } from '@/lib/mise/docMigrations';
 import { supabaseBrowser } from '@/lib/supabase/client';
 
 export async function requireUserId(): Promise<string> {
@@ -8,35 +9,6 @@ export async function requireUserId(): Promise<string> {
   return data.user.id;
 }
 
-/**
- * Computes the next revision number for a recipe.
- * Returns max(revision) + 1, or 1 if no revisions exist.
- */
-async function getNextRevision(
-  supabase: ReturnType<typeof supabaseBrowser>,
-  recipeId: string,
-  ownerId: string
-): Promise<number> {
-  const { data, error } = await supabase
-    .from('recipe_revisions')
-    .select('revision')
-    .eq('recipe_id', recipeId)
-    .eq('owner_id', ownerId)
-    .order('revision', { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
-    // For any error, log and default to 1
-    console.warn('Error fetching max revision, defaulting to 1:', error);
-    return 1;
-  }
-
-  // If no rows found (data is null), start at revision 1
-  // Otherwise, use max revision + 1
-  return (data?.revision ?? 0) + 1;
-}
-
 /**
  * @deprecated Use saveRecipeAction from @/app/actions/recipes instead.
  * This client-side write function is kept for backward compatibility but should not be used.
@@ -45,66 +17,19 @@ async function getNextRevision(
 export async function saveRecipe(params: {
   id?: string;
   doc: WorkbenchDoc;
+  baseRevision?: number;
 }) {
   const supabase = supabaseBrowser();
-  const userId = await requireUserId();
-
-  // Build payload - only include id if provided (for updates)
-  const payload: {
-    id?: string;
-    owner_id: string;
-    title: string;
-    doc: WorkbenchDoc;
-  } = {
-    owner_id: userId,
-    title: params.doc.recipe.name,
-    doc: params.doc,
-  };
-
-  // Only include id if provided (for updates)
-  if (params.id) {
-    payload.id = params.id;
-  }
+  await requireUserId();
 
-  // Use upsert with onConflict to ensure updates work correctly
-  const { data, error } = await supabase
-    .from('recipes')
-    .upsert(payload, {
-      onConflict: 'id',
-    })
-    .select('id,updated_at,title,is_public,public_id')
-    .single();
+  // Recipe and revision are written in one transaction (see migrations/add_atomic_save.sql)
+  const { data, error } = await supabase.rpc('save_recipe', {
+    p_id: params.id ?? null,
+    p_doc: params.doc,
+    p_base_revision: params.baseRevision ?? null,
+  });
 
   if (error) throw error;
-
-  // Append-only revision: insert snapshot into recipe_revisions
-  // Best-effort: if this fails, log but don't fail the save
-  const recipeId = data.id;
-  try {
-    const nextRevision = await getNextRevision(supabase, recipeId, userId);
-
-    const { error: revisionError } = await supabase
-      .from('recipe_revisions')
-      .insert({
-        recipe_id: recipeId,
-        owner_id: userId,
-        revision: nextRevision,
-        doc: params.doc,
-      });
-
-    if (revisionError) {
-      console.error(
-        'Failed to insert recipe revision (non-fatal):',
-        revisionError
-      );
-    }
-  } catch (revisionErr) {
-    console.error(
-      'Error creating recipe revision (non-fatal):',
-      revisionErr
-    );
-  }
-
   return data;
 }
 
@@ -150,11 +75,12 @@ export async function loadRecipe(id: string): Promise<WorkbenchDoc> {
     .single();
 
   if (error) throw error;
-  return data.doc as WorkbenchDoc;
+  return migrateWorkbenchDoc(data.doc as WorkbenchDoc);
 }
 
 /**
- * Loads recipe with metadata (including public status).
+ * Loads recipe with metadata (including public status and the stored
+ * revision, which the next save must name as its base).
  * Returns both the doc and metadata.
  * Requires auth (owner-only via RLS).
  */
@@ -164,15 +90,16 @@ export async function loadRecipeWithMeta(id: string) {
 
   const { data, error } = await supabase
     .from('recipes')
-    .select('doc,is_public,public_id')
+    .select('doc,is_public,public_id,revision')
     .eq('id', id)
     .single();
 
   if (error) throw error;
   return {
-    doc: data.doc as WorkbenchDoc,
+    doc: migrateWorkbenchDoc(data.doc as WorkbenchDoc),
     is_public: data.is_public ?? false,
     public_id: data.public_id ?? null,
+    revision: (data.revision as number | null) ?? 0,
   };
 }
 
@@ -210,7 +137,7 @@ export async function loadRecipeForView(id: string): Promise<{
   }
 
   return {
-    doc: data.doc as WorkbenchDoc,
+    doc: migrateWorkbenchDoc(data.doc as WorkbenchDoc),
     is_public: data.is_public ?? false,
     public_id: data.public_id ?? null,
     is_owner,
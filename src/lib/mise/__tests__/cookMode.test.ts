@@ -0,0 +1,104 @@
+import {
+  buildCookSteps,
+  clearCookProgress,
+  formatCountdown,
+  readCookProgress,
+  writeCookProgress,
+} from '../cookMode';
+import { compileLiteRecipe } from '../liteCompiler';
+
+function memoryStorage() {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+    removeItem: (key: string) => void values.delete(key),
+  };
+}
+
+const recipe = compileLiteRecipe({
+  name: 'Risotto',
+  ingredients: [
+    { name: 'arborio rice', quantity: 300, unit: 'g' },
+    { section: { name: 'To finish', items: [{ name: 'parmesan', quantity: 50, unit: 'g', prep: 'grated' }] } },
+  ],
+  instructions: [
+    'Warm the stock',
+    {
+      text: 'Toast the rice',
+      inputs: ['Arborio rice'],
+      timing: { activity: 'active', duration: { minutes: 2 }, completionCue: 'edges turn translucent' },
+    },
+    {
+      section: {
+        name: 'Finish',
+        items: [{ text: 'Stir in cheese and rest', inputs: ['parmesan', 'butter'], timing: { duration: { minMinutes: 2, maxMinutes: 3 } } }],
+      },
+    },
+  ],
+});
+
+describe('buildCookSteps', () => {
+  it('flattens steps with sections, inputs, timers and cues', () => {
+    const steps = buildCookSteps(recipe);
+    expect(steps).toHaveLength(3);
+    expect(steps[0]).toEqual({ text: 'Warm the stock', ingredients: [] });
+    expect(steps[1]).toEqual({
+      text: 'Toast the rice',
+      ingredients: ['300 g arborio rice'],
+      timer: { seconds: 120, label: '2 min' },
+      completionCue: 'edges turn translucent',
+    });
+    expect(steps[2].section).toBe('Finish');
+  });
+
+  it('keeps unknown inputs as written and counts ranges to the lower bound', () => {
+    const step = buildCookSteps(recipe)[2];
+    expect(step.ingredients).toEqual(['50 g parmesan, grated', 'butter']);
+    expect(step.timer).toEqual({ seconds: 120, label: '2-3 min' });
+  });
+});
+
+describe('formatCountdown', () => {
+  it('formats minutes and hours', () => {
+    expect(formatCountdown(65)).toBe('1:05');
+    expect(formatCountdown(3725)).toBe('1:02:05');
+    expect(formatCountdown(-3)).toBe('0:00');
+  });
+});
+
+describe('cook progress', () => {
+  it('round-trips progress per recipe', () => {
+    const storage = memoryStorage();
+    const progress = { step: 1, done: [0], timers: [{ id: 't1', step: 1, label: 'Step 2: 2 min', endsAt: 1000 }] };
+    writeCookProgress(storage, 'abc', progress);
+    expect(readCookProgress(storage, 'abc', 3)).toEqual(progress);
+    expect(readCookProgress(storage, 'other', 3)).toBeNull();
+
+    clearCookProgress(storage, 'abc');
+    expect(readCookProgress(storage, 'abc', 3)).toBeNull();
+  });
+
+  it('clamps progress when the recipe has fewer steps', () => {
+    const storage = memoryStorage();
+    writeCookProgress(storage, 'abc', {
+      step: 5,
+      done: [0, 4],
+      timers: [{ id: 't1', step: 4, label: 'old', endsAt: 1000 }],
+    });
+    expect(readCookProgress(storage, 'abc', 2)).toEqual({ step: 1, done: [0], timers: [] });
+  });
+
+  it('ignores corrupt values and storage errors', () => {
+    const storage = memoryStorage();
+    storage.setItem('mise:cook:abc', '{not json');
+    expect(readCookProgress(storage, 'abc', 2)).toBeNull();
+
+    const full = {
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    expect(() => writeCookProgress(full, 'abc', { step: 0, done: [], timers: [] })).not.toThrow();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  COALESCE_MS,
+  HISTORY_LIMIT,
+  canRedo,
+  canUndo,
+  createDocHistory,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+} from '../docHistory';
+import { createEmptyWorkbenchDoc } from '../workbenchDoc';
+import type { WorkbenchDoc } from '../workbenchDoc';
+
+const NOW = '2026-01-01T00:00:00.000Z';
+
+function withName(name: string, revision = 0): WorkbenchDoc {
+  const doc = createEmptyWorkbenchDoc();
+  return { ...doc, recipe: { ...doc.recipe, name }, meta: { revision, updatedAt: NOW } };
+}
+
+describe('doc history', () => {
+  it('undoes and redoes edits', () => {
+    const [a, b, c] = [withName('A', 0), withName('B', 1), withName('C', 2)];
+    let history = recordEdit(createDocHistory(), a, { at: 0 });
+    history = recordEdit(history, b, { at: 5000 });
+
+    const undone = undoEdit(history, c, NOW)!;
+    expect(undone.doc.recipe.name).toBe('B');
+    // The revision counter keeps moving forward
+    expect(undone.doc.meta.revision).toBe(3);
+
+    const undoneTwice = undoEdit(undone.history, undone.doc, NOW)!;
+    expect(undoneTwice.doc.recipe.name).toBe('A');
+    expect(canUndo(undoneTwice.history)).toBe(false);
+
+    const redone = redoEdit(undoneTwice.history, undoneTwice.doc, NOW)!;
+    expect(redone.doc.recipe.name).toBe('B');
+    expect(canRedo(redone.history)).toBe(true);
+  });
+
+  it('coalesces rapid edits in the same group', () => {
+    let history = recordEdit(createDocHistory(), withName(''), { group: 'name', at: 0 });
+    history = recordEdit(history, withName('S'), { group: 'name', at: 300 });
+    history = recordEdit(history, withName('So'), { group: 'name', at: 600 });
+    expect(history.past.map((doc) => doc.recipe.name)).toEqual(['']);
+
+    // A pause or another field starts a new step
+    history = recordEdit(history, withName('Sou'), { group: 'name', at: 600 + COALESCE_MS });
+    history = recordEdit(history, withName('Soup'), { group: 'description', at: 600 + COALESCE_MS + 10 });
+    expect(history.past.map((doc) => doc.recipe.name)).toEqual(['', 'Sou', 'Soup']);
+  });
+
+  it('keeps ungrouped edits such as a paste as their own step', () => {
+    let history = recordEdit(createDocHistory(), withName('typed'), { group: 'rawText', at: 0 });
+    history = recordEdit(history, withName('before paste'), { at: 100 });
+    history = recordEdit(history, withName('after paste'), { group: 'rawText', at: 200 });
+    expect(history.past.map((doc) => doc.recipe.name)).toEqual(['typed', 'before paste', 'after paste']);
+  });
+
+  it('clears redo on a new edit and ignores repeated records of the same state', () => {
+    const a = withName('A');
+    let history = recordEdit(createDocHistory(), a, { at: 0 });
+    history = recordEdit(history, a, { at: 0 });
+    expect(history.past).toHaveLength(1);
+
+    const undone = undoEdit(history, withName('B'), NOW)!;
+    expect(canRedo(undone.history)).toBe(true);
+    expect(canRedo(recordEdit(undone.history, undone.doc, { at: 10 }))).toBe(false);
+  });
+
+  it('keeps a bounded number of steps', () => {
+    let history = createDocHistory();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      history = recordEdit(history, withName(String(i)), { at: i * 10_000 });
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].recipe.name).toBe('5');
+    expect(undoEdit(createDocHistory(), withName('A'), NOW)).toBeNull();
+  });
+});
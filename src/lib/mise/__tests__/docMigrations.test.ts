@@ -0,0 +1,81 @@
+import { WORKBENCH_DOC_VERSION, migrateRecipe, migrateWorkbenchDoc } from '../docMigrations';
+import { createEmptyWorkbenchDoc } from '../workbenchDoc';
+import type { WorkbenchDoc } from '../workbenchDoc';
+import { compileLiteRecipe } from '../liteCompiler';
+import { SOUSTACK_SCHEMA_URL } from '../soustackSchemas';
+import type { SoustackLiteRecipe } from '../types';
+
+function legacyDoc(recipe: Partial<SoustackLiteRecipe>): WorkbenchDoc {
+  const doc = createEmptyWorkbenchDoc();
+  const unversioned = { ...doc, recipe: { ...compileLiteRecipe({ name: 'Stew' }), ...recipe } } as Partial<WorkbenchDoc>;
+  delete unversioned.formatVersion;
+  return unversioned as WorkbenchDoc;
+}
+
+describe('migrateWorkbenchDoc', () => {
+  it('stamps new documents with the current version', () => {
+    expect(createEmptyWorkbenchDoc().formatVersion).toBe(WORKBENCH_DOC_VERSION);
+  });
+
+  it('moves legacy stack data out of stacks and drops versioned keys', () => {
+    const doc = migrateWorkbenchDoc(
+      legacyDoc({
+        stacks: { 'prep@1': [{ text: 'Dice the onion' }, 'stray'], 'equipment@1': ['Dutch oven'], 'timed@2': 1 },
+      })
+    );
+    expect(doc.formatVersion).toBe(WORKBENCH_DOC_VERSION);
+    expect(doc.recipe.stacks).toEqual({ prep: 1, equipment: 1 });
+    expect((doc.recipe as SoustackLiteRecipe & { miseEnPlace?: unknown }).miseEnPlace).toEqual([
+      { text: 'Dice the onion' },
+    ]);
+    expect(doc.recipe.equipment).toEqual([{ id: 'eq-1', name: 'Dutch oven' }]);
+  });
+
+  it('rewrites spec-style sections at any depth', () => {
+    const doc = migrateWorkbenchDoc(
+      legacyDoc({
+        instructions: [
+          'Preheat',
+          { section: 'Stew', steps: ['Brown', { section: 'Finish', steps: [{ text: 'Season' }] }] },
+          { section: { name: 'Serve', items: [{ section: 'Garnish', steps: ['Parsley'] }] } },
+        ],
+      })
+    );
+    expect(doc.recipe.instructions).toEqual([
+      'Preheat',
+      { section: { name: 'Stew', items: ['Brown', { section: { name: 'Finish', items: [{ text: 'Season' }] } }] } },
+      { section: { name: 'Serve', items: [{ section: { name: 'Garnish', items: ['Parsley'] } }] } },
+    ]);
+  });
+
+  it('replaces legacy $schema values', () => {
+    const doc = migrateWorkbenchDoc(legacyDoc({ $schema: 'https://soustack.org/lite.schema.json' }));
+    expect(doc.recipe.$schema).toBe(SOUSTACK_SCHEMA_URL);
+  });
+
+  it('skips migrations the document has already had', () => {
+    const doc = { ...legacyDoc({ stacks: { 'prep@1': 1 } }), formatVersion: 1 };
+    expect(migrateWorkbenchDoc(doc).recipe.stacks).toEqual({ 'prep@1': 1 });
+  });
+
+  it('returns current and newer documents untouched', () => {
+    const current = createEmptyWorkbenchDoc();
+    expect(migrateWorkbenchDoc(current)).toBe(current);
+    const newer = { ...current, formatVersion: WORKBENCH_DOC_VERSION + 1 };
+    expect(migrateWorkbenchDoc(newer)).toBe(newer);
+  });
+});
+
+describe('migrateRecipe', () => {
+  it('returns the same recipe when nothing needs migrating', () => {
+    const recipe = compileLiteRecipe({ name: 'Stew', ingredients: ['beef'], instructions: ['Brown'] });
+    expect(migrateRecipe(recipe)).toBe(recipe);
+  });
+
+  it('still migrates sections when stacks is missing', () => {
+    const recipe = { name: 'Stew', ingredients: [], instructions: [{ section: 'Finish', steps: ['Season'] }] };
+    expect(migrateRecipe(recipe as unknown as SoustackLiteRecipe).instructions).toEqual([
+      { section: { name: 'Finish', items: ['Season'] } },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  clearDraft,
+  docChanged,
+  draftKey,
+  listDrafts,
+  readDraft,
+  syncPendingDrafts,
+  writeDraft,
+  type DraftSyncOutcome,
+  type StoredDraft,
+} from '../drafts';
+import { createEmptyWorkbenchDoc, createWorkbenchDocFromText } from '../workbenchDoc';
+
+function memoryStorage() {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    key: (index: number) => Array.from(values.keys())[index] ?? null,
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+    removeItem: (key: string) => void values.delete(key),
+  };
+}
+
+function draftFor(key: string, fields: Partial<StoredDraft> = {}): StoredDraft {
+  return {
+    key,
+    doc: createWorkbenchDocFromText('Soup\n\nIngredients\n1 onion\n\nInstructions\nChop'),
+    baseRevision: 0,
+    savedAt: '2026-01-01T10:00:00.000Z',
+    pending: false,
+    ...fields,
+  };
+}
+
+describe('draft store', () => {
+  it('keys drafts by recipe, or by editor before the first save', () => {
+    expect(draftKey('abc', 'creator')).toBe('recipe:abc');
+    expect(draftKey(null, 'creator')).toBe('creator:new');
+    expect(draftKey(undefined, 'workbench')).toBe('workbench:new');
+  });
+
+  it('round-trips and clears drafts', () => {
+    const storage = memoryStorage();
+    const draft = draftFor('recipe:abc', { recipeId: 'abc', baseRevision: 4, pending: true });
+    writeDraft(storage, draft);
+    expect(readDraft(storage, 'recipe:abc')).toEqual(draft);
+    clearDraft(storage, 'recipe:abc');
+    expect(readDraft(storage, 'recipe:abc')).toBeNull();
+  });
+
+  it('ignores corrupt values and storage errors', () => {
+    const storage = memoryStorage();
+    storage.setItem('mise:draft:recipe:abc', '{not json');
+    storage.setItem('mise:draft:recipe:def', JSON.stringify({ key: 'recipe:def' }));
+    expect(readDraft(storage, 'recipe:abc')).toBeNull();
+    expect(listDrafts(storage)).toEqual([]);
+
+    const full = {
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    expect(() => writeDraft(full, draftFor('recipe:abc'))).not.toThrow();
+  });
+
+  it('lists drafts oldest first and ignores other keys', () => {
+    const storage = memoryStorage();
+    storage.setItem('mise:cook:abc', '{}');
+    writeDraft(storage, draftFor('recipe:b', { savedAt: '2026-01-02T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:a', { savedAt: '2026-01-01T00:00:00.000Z' }));
+    expect(listDrafts(storage).map((draft) => draft.key)).toEqual(['recipe:a', 'recipe:b']);
+  });
+
+  it('compares documents by recipe and draft text only', () => {
+    const { doc } = draftFor('recipe:abc');
+    expect(docChanged(doc, { ...doc, meta: { revision: 9, updatedAt: '2026-02-01T00:00:00.000Z' } })).toBe(false);
+    expect(docChanged(doc, { ...doc, recipe: { ...doc.recipe, profile: 'base' } })).toBe(false);
+    expect(docChanged(doc, { ...doc, draft: { ...doc.draft, rawText: 'Stew' } })).toBe(true);
+    expect(docChanged(doc, createEmptyWorkbenchDoc())).toBe(true);
+  });
+});
+
+describe('syncPendingDrafts', () => {
+  it('saves queued drafts, keeps conflicts for the restore prompt and skips open editors', async () => {
+    const storage = memoryStorage();
+    writeDraft(storage, draftFor('recipe:a', { pending: true, savedAt: '2026-01-01T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:b', { pending: true, savedAt: '2026-01-02T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:c', { pending: true, savedAt: '2026-01-03T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:d'));
+
+    const sent: string[] = [];
+    const saved = await syncPendingDrafts(
+      storage,
+      async (draft) => {
+        sent.push(draft.key);
+        return draft.key === 'recipe:b' ? { status: 'conflict' } : { status: 'saved' };
+      },
+      new Set(['recipe:c'])
+    );
+
+    expect(sent).toEqual(['recipe:a', 'recipe:b']);
+    expect(saved).toBe(1);
+    expect(readDraft(storage, 'recipe:a')).toBeNull();
+    expect(readDraft(storage, 'recipe:b')?.pending).toBe(false);
+    expect(readDraft(storage, 'recipe:c')?.pending).toBe(true);
+  });
+
+  it('keeps going past rejected drafts and drafts to retry', async () => {
+    const storage = memoryStorage();
+    writeDraft(storage, draftFor('creator:new', { pending: true, savedAt: '2026-01-01T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:a', { pending: true, savedAt: '2026-01-02T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:b', { pending: true, savedAt: '2026-01-03T00:00:00.000Z' }));
+    const outcomes: Record<string, DraftSyncOutcome> = {
+      'creator:new': { status: 'rejected' },
+      'recipe:a': { status: 'retry' },
+      'recipe:b': { status: 'saved' },
+    };
+
+    expect(await syncPendingDrafts(storage, async (draft) => outcomes[draft.key])).toBe(1);
+    expect(readDraft(storage, 'creator:new')?.pending).toBe(false);
+    expect(readDraft(storage, 'recipe:a')?.pending).toBe(true);
+    expect(readDraft(storage, 'recipe:b')).toBeNull();
+  });
+
+  it('stops at the first unreachable save and keeps the rest queued', async () => {
+    const storage = memoryStorage();
+    writeDraft(storage, draftFor('recipe:a', { pending: true, savedAt: '2026-01-01T00:00:00.000Z' }));
+    writeDraft(storage, draftFor('recipe:b', { pending: true, savedAt: '2026-01-02T00:00:00.000Z' }));
+    const save = jest.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+
+    expect(await syncPendingDrafts(storage, save)).toBe(0);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(listDrafts(storage).every((draft) => draft.pending)).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  assignEquipmentIds,
+  formatEquipmentItem,
+  normalizeEquipment,
+  readEquipment,
+  removeDeletedEquipmentRefs,
+  stepEquipment,
+} from '../equipment';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(fields: Partial<SoustackLiteRecipe>): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Layer cake', ingredients: ['flour'], instructions: ['Bake'] }),
+    stacks: { equipment: 1 },
+    ...fields,
+  };
+}
+
+describe('readEquipment', () => {
+  it('skips unnamed entries and drops invalid quantities and alternatives', () => {
+    const recipe = recipeWith({
+      equipment: [
+        { name: 'cake pan', quantity: 0, alternatives: ['', 'springform pan'] },
+        { name: '  ' },
+      ],
+    });
+    expect(readEquipment(recipe)).toEqual([{ name: 'cake pan', alternatives: ['springform pan'] }]);
+  });
+});
+
+describe('assignEquipmentIds', () => {
+  it('continues numbering after the highest existing id', () => {
+    const recipe = recipeWith({ equipment: [{ id: 'eq-3', name: 'whisk' }, { name: 'bowl' }] });
+    expect(assignEquipmentIds(recipe).equipment?.map((item) => item.id)).toEqual(['eq-3', 'eq-4']);
+  });
+
+  it('returns the same recipe when every item has an id', () => {
+    const recipe = recipeWith({ equipment: [{ id: 'eq-1', name: 'whisk' }] });
+    expect(assignEquipmentIds(recipe)).toBe(recipe);
+  });
+});
+
+describe('normalizeEquipment', () => {
+  it('moves a legacy stacks.equipment list to the top-level field', () => {
+    const recipe = recipeWith({ stacks: { equipment: ['stand mixer', { name: 'cake pan', quantity: 2 }, ''] } });
+    const normalized = normalizeEquipment(recipe);
+    expect(normalized.stacks).toEqual({ equipment: 1 });
+    expect(normalized.equipment).toEqual([
+      { id: 'eq-1', name: 'stand mixer' },
+      { id: 'eq-2', name: 'cake pan', quantity: 2 },
+    ]);
+  });
+
+  it('reads the versioned legacy key too', () => {
+    const recipe = recipeWith({ stacks: { 'equipment@1': ['whisk'] } });
+    const normalized = normalizeEquipment(recipe);
+    expect(normalized.stacks).toEqual({ equipment: 1 });
+    expect(normalized.equipment).toEqual([{ id: 'eq-1', name: 'whisk' }]);
+  });
+
+  it('keeps an existing top-level list over legacy data', () => {
+    const recipe = recipeWith({
+      stacks: { equipment: ['old whisk'] },
+      equipment: [{ id: 'eq-1', name: 'whisk' }],
+    });
+    expect(normalizeEquipment(recipe).equipment).toEqual([{ id: 'eq-1', name: 'whisk' }]);
+  });
+
+  it('returns the same recipe when already normalized', () => {
+    const recipe = recipeWith({ equipment: [{ id: 'eq-1', name: 'whisk' }] });
+    expect(normalizeEquipment(recipe)).toBe(recipe);
+  });
+});
+
+describe('formatEquipmentItem', () => {
+  it('includes quantity, size, alternatives and optional', () => {
+    expect(
+      formatEquipmentItem({
+        name: 'round cake pan',
+        quantity: 2,
+        size: '9-inch',
+        alternatives: ['springform pan'],
+        optional: true,
+      })
+    ).toBe('2 × 9-inch round cake pan, or springform pan (optional)');
+  });
+
+  it('leaves out a quantity of one', () => {
+    expect(formatEquipmentItem({ name: 'Dutch oven', quantity: 1, size: '5-quart' })).toBe('5-quart Dutch oven');
+  });
+});
+
+describe('stepEquipment', () => {
+  it('resolves ids and skips unknown ones', () => {
+    const equipment = [
+      { id: 'eq-1', name: 'whisk' },
+      { id: 'eq-2', name: 'bowl' },
+    ];
+    expect(stepEquipment({ text: 'Whisk', equipment: ['eq-2', 'eq-9'] }, equipment)).toEqual([equipment[1]]);
+    expect(stepEquipment('Whisk', equipment)).toEqual([]);
+  });
+});
+
+describe('removeDeletedEquipmentRefs', () => {
+  it('drops references to removed items in both section shapes', () => {
+    const previous = recipeWith({
+      equipment: [
+        { id: 'eq-1', name: 'whisk' },
+        { id: 'eq-2', name: 'bowl' },
+      ],
+      instructions: [
+        { text: 'Whisk', equipment: ['eq-1', 'eq-2'] },
+        { section: { name: 'Frosting', items: [{ text: 'Beat', equipment: ['eq-1'] }] } },
+        { section: { name: 'Bake', items: [{ text: 'Bake', equipment: ['eq-2'] }] } },
+      ],
+    });
+    const next = { ...previous, equipment: [{ id: 'eq-2', name: 'bowl' }] };
+    expect(removeDeletedEquipmentRefs(previous, next).instructions).toEqual([
+      { text: 'Whisk', equipment: ['eq-2'] },
+      { section: { name: 'Frosting', items: [{ text: 'Beat', equipment: [] }] } },
+      { section: { name: 'Bake', items: [{ text: 'Bake', equipment: ['eq-2'] }] } },
+    ]);
+  });
+
+  it('returns next unchanged when nothing was removed', () => {
+    const previous = recipeWith({ equipment: [{ id: 'eq-1', name: 'whisk' }] });
+    const next = { ...previous, name: 'Renamed' };
+    expect(removeDeletedEquipmentRefs(previous, next)).toBe(next);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  checkImageFile,
+  imageSrcSet,
+  imageVariantKey,
+  listImagesWithoutAlt,
+  readImages,
+  variantWidths,
+} from '../images';
+import { compileLiteRecipe } from '../liteCompiler';
+
+describe('checkImageFile', () => {
+  it('accepts JPEG, PNG and WebP up to 10 MB', () => {
+    expect(checkImageFile({ type: 'image/webp', size: 2_000_000 })).toBeNull();
+    expect(checkImageFile({ type: 'image/gif', size: 1000 })).toMatch(/JPEG, PNG or WebP/);
+    expect(checkImageFile({ type: 'image/jpeg', size: 11 * 1024 * 1024 })).toMatch(/10 MB/);
+  });
+});
+
+describe('variantWidths', () => {
+  it('never upscales', () => {
+    expect(variantWidths(4000)).toEqual([480, 960, 1600]);
+    expect(variantWidths(1200)).toEqual([480, 960]);
+  });
+
+  it('keeps the natural width of images smaller than every fixed width', () => {
+    expect(variantWidths(320)).toEqual([320]);
+    expect(variantWidths(0)).toEqual([]);
+  });
+});
+
+describe('imageVariantKey', () => {
+  it('nests widths under the owner and image ids', () => {
+    expect(imageVariantKey('user-1', 'img-1', 960, 'image/jpeg')).toBe('user-1/img-1/960.jpg');
+  });
+});
+
+describe('imageSrcSet', () => {
+  it('lists variants from narrow to wide', () => {
+    const image = {
+      url: '/b.jpg',
+      variants: [
+        { width: 960, url: '/b.jpg' },
+        { width: 480, url: '/a.jpg' },
+      ],
+    };
+    expect(imageSrcSet(image)).toBe('/a.jpg 480w, /b.jpg 960w');
+    expect(imageSrcSet({ url: '/a.jpg' })).toBeUndefined();
+  });
+});
+
+describe('readImages', () => {
+  it('keeps entries with a url', () => {
+    expect(readImages([{ url: '/a.jpg' }, { url: '' }, 'x', null])).toEqual([{ url: '/a.jpg' }]);
+    expect(readImages(undefined)).toEqual([]);
+  });
+});
+
+describe('listImagesWithoutAlt', () => {
+  it('finds recipe and step images without alt text', () => {
+    const recipe = {
+      ...compileLiteRecipe({ name: 'Bread' }),
+      images: [{ url: '/hero.jpg', alt: 'A loaf' }, { url: '/crumb.jpg' }],
+      instructions: [
+        'Mix',
+        { text: 'Shape', images: [{ url: '/shape.jpg', alt: ' ' }] },
+        { section: { name: 'Bake', items: [{ text: 'Score', images: [{ url: '/score.jpg' }] }] } },
+      ],
+    };
+    expect(listImagesWithoutAlt(recipe)).toEqual([
+      { target: 'images', label: 'Recipe image 2' },
+      { target: 'step:1', label: 'Step 2 image 1' },
+      { target: 'step:2.0', label: 'Step 3 image 1' },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { auditIngredientUsage } from '../ingredientAudit';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(ingredients: unknown[], instructions: unknown[]): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Cake', ingredients: ['x'], instructions: ['x'] }),
+    stacks: { referenced: 1 },
+    ingredients,
+    instructions,
+  } as SoustackLiteRecipe;
+}
+
+const ingredients = [
+  { id: 'ing-1', name: 'flour', quantity: 200, unit: 'g' },
+  { id: 'ing-2', name: 'butter', quantity: 100, unit: 'g' },
+  { id: 'ing-3', name: 'vanilla' },
+];
+
+describe('auditIngredientUsage', () => {
+  it('reports unused ingredients and missing references', () => {
+    const audit = auditIngredientUsage(
+      recipeWith(ingredients, [
+        { text: 'Rub the butter into the flour', inputs: ['ing-1', 'ing-2'] },
+        { section: { name: 'Glaze', items: [{ text: 'Add the sugar', inputs: ['ing-9', ''] }] } },
+      ])
+    );
+    expect(audit.unused.map((ref) => ref.id)).toEqual(['ing-3']);
+    expect(audit.missing).toEqual([
+      { step: { path: '1.0', number: 2, text: 'Add the sugar' }, input: 'ing-9' },
+    ]);
+  });
+
+  it('does not report unused ingredients before any step has inputs', () => {
+    const audit = auditIngredientUsage(recipeWith(ingredients, ['Mix everything', { text: 'Bake' }]));
+    expect(audit.unused).toEqual([]);
+  });
+
+  it('flags quantities split across steps without portions', () => {
+    const audit = auditIngredientUsage(
+      recipeWith(ingredients, [
+        { text: 'Cream the butter', inputs: ['ing-2'] },
+        { text: 'Brush the tin with butter', inputs: ['ing-2'] },
+        { text: 'Sift half the flour', inputs: ['ing-1', 'ing-3'] },
+        { text: 'Fold in the remaining flour', inputs: ['ing-1'] },
+        { text: 'Add the vanilla', inputs: ['ing-3'] },
+      ])
+    );
+    expect(audit.unsplit.map(({ ingredient, steps }) => [ingredient.id, steps.map((step) => step.number)])).toEqual([
+      ['ing-2', [1, 2]],
+    ]);
+  });
+
+  it('lets one step take the rest implicitly', () => {
+    const audit = auditIngredientUsage(
+      recipeWith(ingredients, [
+        { text: 'Melt 25 g butter for the tin', inputs: ['ing-2'] },
+        { text: 'Cream the butter', inputs: ['ing-2'] },
+      ])
+    );
+    expect(audit.unsplit).toEqual([]);
+  });
+});
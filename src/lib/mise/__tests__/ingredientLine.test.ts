@@ -0,0 +1,113 @@
+import {
+  parseIngredientLine,
+  toIngredientItems,
+  formatIngredientLine,
+  STRUCTURED_CONFIDENCE_THRESHOLD,
+} from '../ingredientLine';
+
+describe('parseIngredientLine', () => {
+  it('splits quantity, unit and name', () => {
+    const result = parseIngredientLine('2 cups flour');
+
+    expect(result.ingredient).toEqual({ quantity: 2, unit: 'cups', name: 'flour' });
+    expect(result.confidence).toBeGreaterThanOrEqual(STRUCTURED_CONFIDENCE_THRESHOLD);
+  });
+
+  it('parses mixed fractions', () => {
+    const result = parseIngredientLine('1 1/2 cups all-purpose flour');
+
+    expect(result.ingredient?.quantity).toBe(1.5);
+    expect(result.ingredient?.unit).toBe('cups');
+    expect(result.ingredient?.name).toBe('all-purpose flour');
+  });
+
+  it('parses unicode fractions', () => {
+    expect(parseIngredientLine('½ tsp salt').ingredient).toEqual({
+      quantity: 0.5,
+      unit: 'tsp',
+      name: 'salt',
+    });
+    expect(parseIngredientLine('1½ cups milk').ingredient?.quantity).toBe(1.5);
+  });
+
+  it('parses ranges', () => {
+    expect(parseIngredientLine('2-3 cloves garlic, minced').ingredient).toEqual({
+      quantity: { min: 2, max: 3 },
+      unit: 'cloves',
+      name: 'garlic',
+      prep: 'minced',
+    });
+    expect(parseIngredientLine('2 to 3 tbsp olive oil').ingredient?.quantity).toEqual({
+      min: 2,
+      max: 3,
+    });
+  });
+
+  it('moves parenthetical notes into prep', () => {
+    expect(parseIngredientLine('1 (14 oz) can diced tomatoes').ingredient).toEqual({
+      quantity: 1,
+      unit: 'can',
+      name: 'diced tomatoes',
+      prep: '14 oz',
+    });
+  });
+
+  it('detects "to taste"', () => {
+    const result = parseIngredientLine('Salt, to taste');
+
+    expect(result.ingredient).toEqual({ name: 'Salt', toTaste: true });
+    expect(result.confidence).toBeGreaterThanOrEqual(STRUCTURED_CONFIDENCE_THRESHOLD);
+  });
+
+  it('handles quantities without units', () => {
+    expect(parseIngredientLine('3 eggs, beaten').ingredient).toEqual({
+      quantity: 3,
+      name: 'eggs',
+      prep: 'beaten',
+    });
+  });
+
+  it('does not mistake words starting with "to" for ranges', () => {
+    expect(parseIngredientLine('1 tomato').ingredient).toEqual({ quantity: 1, name: 'tomato' });
+  });
+
+  it('reads units attached to the number and drops "of"', () => {
+    expect(parseIngredientLine('200g of butter').ingredient).toEqual({
+      quantity: 200,
+      unit: 'g',
+      name: 'butter',
+    });
+  });
+
+  it('gives low confidence to lines without a quantity', () => {
+    const result = parseIngredientLine('Flour');
+
+    expect(result.confidence).toBeLessThan(STRUCTURED_CONFIDENCE_THRESHOLD);
+  });
+
+  it('never throws on weird input', () => {
+    expect(() => parseIngredientLine('')).not.toThrow();
+    expect(() => parseIngredientLine('1/0 cups')).not.toThrow();
+    expect(parseIngredientLine('').ingredient).toBeNull();
+  });
+});
+
+describe('toIngredientItems', () => {
+  it('keeps low-confidence lines as strings', () => {
+    const items = toIngredientItems([
+      parseIngredientLine('2 cups flour'),
+      parseIngredientLine('Flour'),
+    ]);
+
+    expect(items).toEqual([{ quantity: 2, unit: 'cups', name: 'flour' }, 'Flour']);
+  });
+});
+
+describe('formatIngredientLine', () => {
+  it('formats structured ingredients back to text', () => {
+    expect(
+      formatIngredientLine({ quantity: { min: 2, max: 3 }, unit: 'cloves', name: 'garlic', prep: 'minced' })
+    ).toBe('2-3 cloves garlic, minced');
+    expect(formatIngredientLine({ name: 'salt', toTaste: true })).toBe('salt, to taste');
+  });
+});
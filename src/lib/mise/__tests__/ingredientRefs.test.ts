@@ -0,0 +1,100 @@
+import {
+  assignIngredientIds,
+  autoLinkInputs,
+  listIngredientRefs,
+  normalizeIngredientRefs,
+  removeDeletedIngredientRefs,
+} from '../ingredientRefs';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(ingredients: unknown[], instructions: unknown[]): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Pancakes', ingredients: ['x'], instructions: ['x'] }),
+    stacks: { referenced: 1 },
+    ingredients,
+    instructions,
+  } as SoustackLiteRecipe;
+}
+
+describe('assignIngredientIds', () => {
+  it('assigns ids to structured ingredients, including in sections', () => {
+    const recipe = recipeWith(
+      [
+        { id: 'ing-4', name: 'flour', quantity: 200, unit: 'g' },
+        'a pinch of salt',
+        { section: { name: 'Batter', items: [{ name: 'milk' }, { name: '' }] } },
+      ],
+      ['Mix']
+    );
+    const withIds = assignIngredientIds(recipe);
+    expect(listIngredientRefs(withIds).map((ref) => [ref.id, ref.name])).toEqual([
+      ['ing-4', 'flour'],
+      ['ing-5', 'milk'],
+    ]);
+    expect(withIds.ingredients[1]).toBe('a pinch of salt');
+  });
+
+  it('returns the same recipe when every ingredient has an id', () => {
+    const recipe = recipeWith([{ id: 'ing-1', name: 'flour' }], ['Mix']);
+    expect(assignIngredientIds(recipe)).toBe(recipe);
+    expect(normalizeIngredientRefs(recipe)).toBe(recipe);
+  });
+});
+
+describe('normalizeIngredientRefs', () => {
+  it('rewrites inputs typed as names to ids', () => {
+    const recipe = recipeWith([{ name: 'Flour' }], [{ text: 'Sift', inputs: ['flour', 'sugar'] }]);
+    expect(normalizeIngredientRefs(recipe).instructions[0]).toEqual({ text: 'Sift', inputs: ['ing-1', 'sugar'] });
+  });
+});
+
+describe('autoLinkInputs', () => {
+  const recipe = recipeWith(
+    [
+      { id: 'ing-1', name: 'all-purpose flour' },
+      { id: 'ing-2', name: 'egg' },
+      { id: 'ing-3', name: 'whole milk' },
+      { id: 'ing-4', name: 'oat milk' },
+    ],
+    [
+      { text: 'Whisk the flour with the eggs' },
+      { section: { name: 'Finish', items: [{ text: 'Add the whole milk', inputs: ['ing-2'] }] } },
+      'Rest the batter',
+      { text: 'Stir in the milk' },
+    ]
+  );
+
+  it('links full names, plurals and unique head nouns', () => {
+    const linked = autoLinkInputs(recipe);
+    expect(linked.instructions[0]).toEqual({ text: 'Whisk the flour with the eggs', inputs: ['ing-1', 'ing-2'] });
+    expect(linked.instructions[1]).toEqual({
+      section: { name: 'Finish', items: [{ text: 'Add the whole milk', inputs: ['ing-2', 'ing-3'] }] },
+    });
+  });
+
+  it('skips ambiguous head nouns and plain string steps', () => {
+    const linked = autoLinkInputs(recipe);
+    expect(linked.instructions[2]).toBe('Rest the batter');
+    expect(linked.instructions[3]).toBe(recipe.instructions[3]);
+  });
+});
+
+describe('removeDeletedIngredientRefs', () => {
+  it('drops inputs of deleted ingredients only', () => {
+    const previous = recipeWith(
+      [{ id: 'ing-1', name: 'flour' }, { id: 'ing-2', name: 'egg' }],
+      [{ text: 'Mix', inputs: ['ing-1', 'ing-2', 'ing-9'] }]
+    );
+    const next = { ...previous, ingredients: [{ id: 'ing-1', name: 'bread flour' }] };
+    expect(removeDeletedIngredientRefs(previous, next).instructions[0]).toEqual({
+      text: 'Mix',
+      inputs: ['ing-1', 'ing-9'],
+    });
+  });
+
+  it('keeps the recipe when nothing was deleted', () => {
+    const recipe = recipeWith([{ id: 'ing-1', name: 'flour' }], [{ text: 'Mix', inputs: ['ing-1'] }]);
+    expect(removeDeletedIngredientRefs(recipe, recipe)).toBe(recipe);
+  });
+});
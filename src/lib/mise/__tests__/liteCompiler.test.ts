@@ -1,4 +1,5 @@
-import { compileLiteRecipe } from '../liteCompiler';
+import { compileLiteRecipe, compileParseResult } from '../liteCompiler';
+import { parseFreeform } from '../parseFreeform';
 import type { SoustackLiteRecipe } from '../types';
 
 describe('compileLiteRecipe', () => {
@@ -150,5 +151,67 @@ describe('compileLiteRecipe', () => {
     expect(Array.isArray(result.instructions)).toBe(true);
     expect(typeof result.name).toBe('string');
   });
+
+  it('accepts structured ingredients and filters unnamed ones', () => {
+    const result = compileLiteRecipe({
+      ingredients: [{ quantity: 2, unit: 'cups', name: 'flour' }, { name: '  ' }, 'salt'],
+    });
+
+    expect(result.ingredients).toEqual([{ quantity: 2, unit: 'cups', name: 'flour' }, 'salt']);
+  });
+
+  it('drops empty sections and empty items inside sections', () => {
+    const result = compileLiteRecipe({
+      ingredients: [{ section: { name: 'Empty', items: ['', ' '] } }, { section: { name: 'Dough', items: ['flour', ''] } }],
+    });
+
+    expect(result.ingredients).toEqual([{ section: { name: 'Dough', items: ['flour'] } }]);
+  });
 });
 
+describe('compileParseResult', () => {
+  it('groups sub-sections and structures confident ingredient lines', () => {
+    const result = compileParseResult(
+      parseFreeform(`Pie
+
+Ingredients:
+- Salt
+For the crust:
+- 2 cups flour
+
+Instructions:
+- Mix`)
+    );
+
+    expect(result.name).toBe('Pie');
+    expect(result.ingredients).toEqual([
+      'Salt',
+      { section: { name: 'For the crust', items: [{ quantity: 2, unit: 'cups', name: 'flour' }] } },
+    ]);
+    expect(result.instructions).toEqual(['Mix']);
+    expect(result['x-mise']?.parse?.mode).toBe('explicit-sections');
+  });
+
+  it('carries yield and times onto the recipe', () => {
+    const result = compileParseResult(
+      parseFreeform(`Cookies
+Makes 24 cookies
+Bake time: 12 min
+
+Ingredients:
+- 2 cups flour
+
+Instructions:
+- Bake`)
+    );
+
+    expect(result.yield).toEqual({ amount: 24, unit: 'cookies' });
+    expect(result.time).toEqual({ cook: { minutes: 12 } });
+  });
+
+  it('stores source lines under x-mise.parse', () => {
+    const result = compileParseResult(parseFreeform('Soup\n\nIngredients:\n- water'));
+
+    expect(result['x-mise']?.parse?.sources?.ingredients).toEqual([{ start: 3, end: 4 }]);
+  });
+});
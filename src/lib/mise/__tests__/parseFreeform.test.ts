@@ -231,5 +231,193 @@ Mix and bake`;
     expect(result.mode).toBe('heuristic');
     expect(result.ingredients.length).toBeGreaterThan(0);
   });
-});
 
+  it('returns parsed ingredient lines parallel to ingredients', () => {
+    const text = `Ingredients:
+- 2 cups flour
+- Salt, to taste
+
+Instructions:
+- Mix`;
+
+    const result = parseFreeform(text);
+
+    expect(result.parsedIngredients).toHaveLength(result.ingredients.length);
+    expect(result.parsedIngredients[0].ingredient).toEqual({
+      quantity: 2,
+      unit: 'cups',
+      name: 'flour',
+    });
+    expect(result.parsedIngredients[1].ingredient).toEqual({ name: 'Salt', toTaste: true });
+  });
+
+  it('detects "For the ..." sub-sections in both lists', () => {
+    const text = `Pie
+
+Ingredients:
+For the crust:
+- 2 cups flour
+- 1 cup butter
+For the filling:
+- 4 apples
+
+Instructions:
+For the crust:
+1. Rub butter into flour
+For the filling:
+2. Slice apples`;
+
+    const result = parseFreeform(text);
+
+    expect(result.ingredients).toEqual(['2 cups flour', '1 cup butter', '4 apples']);
+    expect(result.ingredientSections).toEqual([
+      { name: 'For the crust', start: 0, end: 2 },
+      { name: 'For the filling', start: 2, end: 3 },
+    ]);
+    expect(result.instructions).toEqual(['Rub butter into flour', 'Slice apples']);
+    expect(result.instructionSections).toEqual([
+      { name: 'For the crust', start: 0, end: 1 },
+      { name: 'For the filling', start: 1, end: 2 },
+    ]);
+  });
+
+  it('treats named list headers as explicit headers with a section', () => {
+    const text = `Dough ingredients:
+- 2 cups flour
+Filling ingredients:
+- 1 cup cheese
+Method:
+- Mix`;
+
+    const result = parseFreeform(text);
+
+    expect(result.mode).toBe('explicit-sections');
+    expect(result.ingredientSections.map((s) => s.name)).toEqual(['Dough', 'Filling']);
+    expect(result.instructions).toEqual(['Mix']);
+    expect(result.instructionSections).toEqual([]);
+  });
+
+  it('closes sub-sections at the next top-level header', () => {
+    const text = `Ingredients:
+Sauce:
+- 1 cup cream
+
+Instructions:
+- Heat
+
+Ingredients:
+- Salt`;
+
+    const result = parseFreeform(text);
+
+    expect(result.ingredients).toEqual(['1 cup cream', 'Salt']);
+    expect(result.ingredientSections).toEqual([{ name: 'Sauce', start: 0, end: 1 }]);
+  });
+
+  it('keeps bare colon lines like "Note:" as content unless list items follow', () => {
+    const text = `Instructions:
+- Bake for 20 minutes
+Note:
+Leftovers keep for two days.`;
+
+    const result = parseFreeform(text);
+
+    expect(result.instructions).toEqual(['Bake for 20 minutes', 'Note:', 'Leftovers keep for two days.']);
+    expect(result.instructionSections).toEqual([]);
+  });
+
+  it('does not treat sentences starting with "For the" as headers', () => {
+    const text = `Instructions:
+- Mix
+For the best results, chill overnight.`;
+
+    const result = parseFreeform(text);
+
+    expect(result.instructions).toEqual(['Mix', 'For the best results, chill overnight.']);
+    expect(result.instructionSections).toEqual([]);
+  });
+
+  it('detects sub-sections in heuristic mode', () => {
+    const text = `For the dough:
+2 cups flour
+1 tsp salt
+For the topping:
+1 cup cheese
+Bake until golden`;
+
+    const result = parseFreeform(text);
+
+    expect(result.mode).toBe('heuristic');
+    expect(result.ingredients).toEqual(['2 cups flour', '1 tsp salt', '1 cup cheese']);
+    expect(result.ingredientSections).toEqual([
+      { name: 'For the dough', start: 0, end: 2 },
+      { name: 'For the topping', start: 2, end: 3 },
+    ]);
+  });
+
+  it('extracts yield and times instead of treating them as recipe lines', () => {
+    const text = `Beef Stew
+Serves 4
+Prep time: 15 min | Cook time: 2 hours
+
+Ingredients:
+- 1 kg beef
+
+Instructions:
+1. Cook the beef for 2 hours`;
+
+    const result = parseFreeform(text);
+
+    expect(result.title).toBe('Beef Stew');
+    expect(result.yield).toEqual({ amount: 4, unit: 'servings' });
+    expect(result.time).toEqual({ prep: { minutes: 15 }, cook: { minutes: 120 } });
+    expect(result.ingredients).toEqual(['1 kg beef']);
+    expect(result.instructions).toEqual(['Cook the beef for 2 hours']);
+  });
+
+  it('records the source line of every item', () => {
+    const text = `Toast
+Serves 1
+
+Ingredients:
+- 1 slice bread
+
+- butter
+
+Instructions:
+1. Toast the bread`;
+
+    const result = parseFreeform(text);
+
+    expect(result.sources).toEqual({
+      title: { start: 0, end: 1 },
+      ingredients: [
+        { start: 4, end: 5 },
+        { start: 6, end: 7 },
+      ],
+      instructions: [{ start: 9, end: 10 }],
+      meta: [{ start: 1, end: 2 }],
+    });
+  });
+
+  it('routes overridden lines regardless of the rules', () => {
+    const text = `Toast
+Ingredients:
+- bread
+Butter generously
+Instructions:
+1. Toast the bread`;
+
+    const result = parseFreeform(text, {
+      overrides: { 'Butter generously': 'instructions', Toast: 'ingredients' },
+    });
+
+    expect(result.title).toBeNull();
+    expect(result.ingredients).toEqual(['Toast', 'bread']);
+    expect(result.instructions).toEqual(['Butter generously', 'Toast the bread']);
+    expect(result.sources.instructions).toEqual([
+      { start: 3, end: 4 },
+      { start: 5, end: 6 },
+    ]);
+  });
+});
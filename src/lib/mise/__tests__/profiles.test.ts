@@ -0,0 +1,116 @@
+import { analyzeProfile, compileProfile, profileRequirements } from '../profiles';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(fields: Partial<SoustackLiteRecipe>): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Pancakes', ingredients: ['flour'], instructions: ['Mix'] }),
+    ...fields,
+  };
+}
+
+const scalable: Partial<SoustackLiteRecipe> = {
+  stacks: { scaling: 1 },
+  yield: { amount: 4, unit: 'servings' },
+  ingredients: [
+    { name: 'flour', quantity: 200, unit: 'g' },
+    { name: 'salt', toTaste: true },
+  ],
+};
+
+describe('analyzeProfile', () => {
+  it('keeps placeholder recipes at lite and names what base needs', () => {
+    const report = analyzeProfile(compileLiteRecipe({ name: '', ingredients: [], instructions: [] }));
+    expect(report.profile).toBe('lite');
+    expect(report.next).toBe('base');
+    expect(report.missing.map((requirement) => requirement.id)).toEqual(['name', 'ingredients', 'instructions']);
+  });
+
+  it('reports base with the scalable requirements still missing', () => {
+    const report = analyzeProfile(recipeWith({}));
+    expect(report.profile).toBe('base');
+    expect(report.next).toBe('scalable');
+    expect(report.missing.map((requirement) => requirement.id)).toEqual([
+      'scaling-stack',
+      'yield',
+      'ingredient-quantities',
+    ]);
+  });
+
+  it('accepts structured quantities and to-taste ingredients for scalable', () => {
+    const report = analyzeProfile(recipeWith(scalable));
+    expect(report.profile).toBe('scalable');
+    expect(report.next).toBe('timed');
+  });
+
+  it('reaches timed only when every step has a duration', () => {
+    const timed = {
+      ...scalable,
+      stacks: { scaling: 1, timed: 1 },
+      instructions: [
+        { text: 'Rest the batter', timing: { duration: { minutes: 30 } } },
+        { section: { name: 'Cook', items: [{ text: 'Fry', timing: { duration: { minMinutes: 2, maxMinutes: 3 } } }] } },
+      ],
+    };
+    expect(analyzeProfile(recipeWith(timed)).profile).toBe('timed');
+
+    const untimed = { ...timed, instructions: [...timed.instructions, 'Serve'] };
+    const report = analyzeProfile(recipeWith(untimed));
+    expect(report.profile).toBe('scalable');
+    expect(report.missing.map((requirement) => requirement.id)).toEqual(['step-durations']);
+  });
+
+  it('checks each profile on its own merits', () => {
+    const prepped = analyzeProfile(
+      recipeWith({ stacks: { prep: 1 }, ...({ miseEnPlace: [{ text: 'Melt the butter' }] } as object) })
+    );
+    expect(prepped.profile).toBe('prepped');
+    expect(prepped.satisfied).toEqual(['lite', 'base', 'prepped']);
+    expect(prepped.next).toBe('illustrated');
+
+    // Timed without a yield or structured quantities
+    const timed = analyzeProfile(
+      recipeWith({ stacks: { timed: 1 }, instructions: [{ text: 'Fry', timing: { duration: { minutes: 3 } } }] })
+    );
+    expect(timed.profile).toBe('timed');
+    expect(timed.satisfied).not.toContain('scalable');
+  });
+
+  it('reaches illustrated with a fully described recipe', () => {
+    const report = analyzeProfile(
+      recipeWith({
+        ...scalable,
+        stacks: { scaling: 1, timed: 1, equipment: 1, prep: 1, illustrated: 1 },
+        instructions: [{ text: 'Fry', timing: { duration: { minutes: 3 } } }],
+        equipment: [{ name: 'skillet' }],
+        images: [{ url: '/pancakes.jpg', alt: 'A stack of pancakes' }],
+        ...({ miseEnPlace: [{ text: 'Melt the butter' }] } as object),
+      })
+    );
+    expect(report).toEqual({
+      profile: 'illustrated',
+      satisfied: ['lite', 'base', 'scalable', 'timed', 'equipped', 'prepped', 'illustrated'],
+      next: null,
+      missing: [],
+    });
+  });
+});
+
+describe('profileRequirements', () => {
+  it('requires alt text on every recipe image', () => {
+    const recipe = recipeWith({ stacks: { illustrated: 1 }, images: [{ url: '/a.jpg' }] });
+    const unmet = profileRequirements(recipe, 'illustrated').filter((requirement) => !requirement.met);
+    expect(unmet.map((requirement) => requirement.id)).toEqual(['image-alt']);
+  });
+});
+
+describe('compileProfile', () => {
+  it('sets the satisfied profile', () => {
+    expect(compileProfile(recipeWith(scalable)).profile).toBe('scalable');
+  });
+
+  it('returns the same recipe when the profile is already correct', () => {
+    const recipe = recipeWith({ profile: 'base' });
+    expect(compileProfile(recipe)).toBe(recipe);
+  });
+});
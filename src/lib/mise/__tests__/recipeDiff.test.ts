@@ -0,0 +1,62 @@
+import { describeChange, diffRecipes } from '../recipeDiff';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(fields: Partial<SoustackLiteRecipe>): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Soup', ingredients: ['1 onion'], instructions: ['Chop', 'Simmer', 'Serve'] }),
+    ...fields,
+  };
+}
+
+describe('diffRecipes', () => {
+  it('reports no changes for identical recipes', () => {
+    expect(diffRecipes(recipeWith({}), recipeWith({}))).toEqual([]);
+  });
+
+  it('matches ingredients by name so amount edits are changes, not add and remove', () => {
+    const before = recipeWith({ ingredients: ['2 cups stock', '1 onion', 'salt'] });
+    const after = recipeWith({
+      ingredients: [{ section: { name: 'Base', items: ['3 cups stock', '1 onion'] } }, '2 carrots'],
+    });
+    expect(diffRecipes(before, after).map(describeChange)).toEqual([
+      'Changed "2 cups stock" to "3 cups stock"',
+      'Removed "salt"',
+      'Added "2 carrots"',
+    ]);
+  });
+
+  it('matches structured ingredients by id across renames', () => {
+    const before = recipeWith({ ingredients: [{ id: 'ing-1', name: 'scallion', quantity: 2 }] });
+    const after = recipeWith({ ingredients: [{ id: 'ing-1', name: 'green onion', quantity: 2 }] });
+    expect(diffRecipes(before, after)).toEqual([
+      { area: 'ingredients', kind: 'changed', label: 'green onion', from: '2 scallion', to: '2 green onion' },
+    ]);
+  });
+
+  it('reports reordered steps as moves and edits as rewrites', () => {
+    const before = recipeWith({});
+    const after = recipeWith({ instructions: ['Simmer gently', 'Serve', 'Chop'] });
+    expect(diffRecipes(before, after).map(describeChange)).toEqual([
+      'Changed "Simmer" to "Simmer gently"',
+      'Moved "Chop" from step 1 to step 3',
+    ]);
+  });
+
+  it('reports details, equipment and stack toggles', () => {
+    const before = recipeWith({ stacks: { timed: 1 } });
+    const after = recipeWith({
+      name: 'Onion soup',
+      yield: { amount: 4, unit: 'servings' },
+      stacks: { equipment: 1 },
+      equipment: [{ id: 'eq-1', name: 'stockpot' }],
+    });
+    expect(diffRecipes(before, after).map(describeChange)).toEqual([
+      'Name changed from "Soup" to "Onion soup"',
+      'Yield set to "4 servings"',
+      'Added "stockpot"',
+      'Enabled the equipment stack',
+      'Disabled the timed stack',
+    ]);
+  });
+});
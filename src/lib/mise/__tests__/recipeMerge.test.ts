@@ -0,0 +1,96 @@
+import { mergeRecipes } from '../recipeMerge';
+import { compileLiteRecipe } from '../liteCompiler';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(fields: Partial<SoustackLiteRecipe> & Record<string, unknown>): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({
+      name: 'Soup',
+      ingredients: ['2 cups stock', '1 onion', 'salt'],
+      instructions: ['Chop', 'Simmer', 'Serve'],
+    }),
+    ...fields,
+  };
+}
+
+describe('mergeRecipes', () => {
+  const base = recipeWith({});
+
+  it('merges edits to different ingredients and steps', () => {
+    const ours = recipeWith({ ingredients: ['3 cups stock', '1 onion', 'salt'], instructions: ['Chop', 'Simmer', 'Serve hot'] });
+    const theirs = recipeWith({ ingredients: ['2 cups stock', '1 onion', 'salt', '2 carrots'], instructions: ['Dice', 'Simmer', 'Serve'] });
+    const { recipe, conflicts } = mergeRecipes(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(recipe.ingredients).toEqual(['3 cups stock', '1 onion', 'salt', '2 carrots']);
+    expect(recipe.instructions).toEqual(['Dice', 'Simmer', 'Serve hot']);
+  });
+
+  it('merges different fields and stacks', () => {
+    const ours = recipeWith({ stacks: { storage: 1 }, storage: { refrigerated: { days: 3 } } });
+    const theirs = recipeWith({ stacks: { prep: 1 }, miseEnPlace: [{ text: 'Dice the onion' }], name: 'Onion soup' });
+    const { recipe, conflicts } = mergeRecipes(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(recipe).toMatchObject({
+      name: 'Onion soup',
+      stacks: { storage: 1, prep: 1 },
+      storage: { refrigerated: { days: 3 } },
+      miseEnPlace: [{ text: 'Dice the onion' }],
+    });
+  });
+
+  it('keeps a reorder from one side and an edit from the other', () => {
+    const ours = recipeWith({ instructions: ['Chop', 'Simmer gently', 'Serve'] });
+    const theirs = recipeWith({ instructions: ['Simmer', 'Chop', 'Serve'] });
+    expect(mergeRecipes(base, ours, theirs).recipe.instructions).toEqual(['Simmer gently', 'Chop', 'Serve']);
+  });
+
+  it('merges inside a section both sides changed', () => {
+    const sectioned = (items: string[]) => recipeWith({ ingredients: [{ section: { name: 'Base', items } }] });
+    const { recipe, conflicts } = mergeRecipes(
+      sectioned(['1 onion', 'salt']),
+      sectioned(['2 onions', 'salt']),
+      sectioned(['1 onion', 'salt', 'pepper'])
+    );
+    expect(conflicts).toEqual([]);
+    expect(recipe.ingredients).toEqual([{ section: { name: 'Base', items: ['2 onions', 'salt', 'pepper'] } }]);
+  });
+
+  it('reports overlapping edits and applies the chosen side', () => {
+    const ours = recipeWith({ ingredients: ['4 cups stock', '1 onion'] });
+    const theirs = recipeWith({ ingredients: ['1 quart stock', '1 onion', 'salt'] });
+    const { recipe, conflicts } = mergeRecipes(base, ours, theirs);
+    expect(conflicts).toEqual([
+      { id: 'ingredients/b0', area: 'ingredients', label: '4 cups stock', ours: '4 cups stock', theirs: '1 quart stock' },
+    ]);
+    // Salt was removed on our side and untouched on theirs
+    expect(recipe.ingredients).toEqual(['4 cups stock', '1 onion']);
+
+    const resolved = mergeRecipes(base, ours, theirs, { 'ingredients/b0': 'theirs' });
+    expect(resolved.recipe.ingredients).toEqual(['1 quart stock', '1 onion']);
+  });
+
+  it('treats an edit against a removal as a conflict', () => {
+    const ours = recipeWith({ instructions: ['Chop', 'Serve'] });
+    const theirs = recipeWith({ instructions: ['Chop', { text: 'Simmer', timing: { duration: { minutes: 20 } } }, 'Serve'] });
+    const { recipe, conflicts } = mergeRecipes(base, ours, theirs, { 'instructions/b1': 'theirs' });
+    expect(conflicts).toEqual([{ id: 'instructions/b1', area: 'steps', label: 'Simmer', theirs: 'Simmer' }]);
+    expect(recipe.instructions).toEqual(['Chop', { text: 'Simmer', timing: { duration: { minutes: 20 } } }, 'Serve']);
+  });
+
+  it('recomputes derived fields instead of reporting them as conflicts', () => {
+    const parse = (confidence: number) => ({ 'x-mise': { parse: { confidence, mode: 'heuristic' } } });
+    const ours = recipeWith({ profile: 'lite', ...parse(0.55), name: 'Onion soup' });
+    const theirs = recipeWith({ profile: 'base', ...parse(0.85) });
+    const { recipe, conflicts } = mergeRecipes(recipeWith(parse(0.7)), ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(recipe.profile).toBe('base');
+    expect(recipe['x-mise']).toEqual({ parse: { confidence: 0.55, mode: 'heuristic' } });
+  });
+
+  it('treats every difference as overlapping without a common ancestor', () => {
+    const ours = recipeWith({ name: 'Onion soup' });
+    const theirs = recipeWith({ name: 'French onion soup' });
+    const { conflicts } = mergeRecipes(null, ours, theirs);
+    expect(conflicts.map((conflict) => conflict.id)).toEqual(['name']);
+  });
+});
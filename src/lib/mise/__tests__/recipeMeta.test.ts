@@ -0,0 +1,62 @@
+import { parseDurationText, parseMetaLine, formatDuration, describeRecipeFacts } from '../recipeMeta';
+import { compileLiteRecipe } from '../liteCompiler';
+
+describe('parseDurationText', () => {
+  it('parses hours and minutes', () => {
+    expect(parseDurationText('1 hour 30 minutes')).toEqual({ minutes: 90 });
+    expect(parseDurationText('1h30m')).toEqual({ minutes: 90 });
+    expect(parseDurationText('1 1/2 hours')).toEqual({ minutes: 90 });
+  });
+
+  it('parses ranges', () => {
+    expect(parseDurationText('10-15 min')).toEqual({ minMinutes: 10, maxMinutes: 15 });
+  });
+
+  it('rejects text that is not a duration', () => {
+    expect(parseDurationText('until golden')).toBeNull();
+    expect(parseDurationText('')).toBeNull();
+  });
+});
+
+describe('parseMetaLine', () => {
+  it('reads servings and yields', () => {
+    expect(parseMetaLine('Serves 4')).toEqual({ yield: { amount: 4, unit: 'servings' } });
+    expect(parseMetaLine('Makes 24 cookies')).toEqual({ yield: { amount: 24, unit: 'cookies' } });
+    expect(parseMetaLine('Servings: 4-6')).toEqual({
+      yield: { amount: { min: 4, max: 6 }, unit: 'servings' },
+    });
+    expect(parseMetaLine('4 servings')).toEqual({ yield: { amount: 4, unit: 'servings' } });
+  });
+
+  it('reads several times on one line', () => {
+    expect(parseMetaLine('Prep time: 15 min | Cook: 1 hr')).toEqual({
+      time: { prep: { minutes: 15 }, cook: { minutes: 60 } },
+    });
+  });
+
+  it('leaves instructions alone', () => {
+    expect(parseMetaLine('Cook the onions for 10 minutes')).toBeNull();
+    expect(parseMetaLine('Bake 30 minutes')).toBeNull();
+    expect(parseMetaLine('Make the dough')).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes, hours and ranges', () => {
+    expect(formatDuration({ minutes: 45 })).toBe('45 min');
+    expect(formatDuration({ minutes: 90 })).toBe('1 hr 30 min');
+    expect(formatDuration({ minMinutes: 10, maxMinutes: 15 })).toBe('10-15 min');
+  });
+});
+
+describe('describeRecipeFacts', () => {
+  it('lists yield and times in display order', () => {
+    const recipe = compileLiteRecipe({
+      name: 'Stew',
+      yield: { amount: 4, unit: 'servings' },
+      time: { cook: { minutes: 60 }, prep: { minutes: 15 } },
+    });
+
+    expect(describeRecipeFacts(recipe)).toEqual(['4 servings', 'Prep 15 min', 'Cook 1 hr']);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  roundToKitchenFraction,
+  formatKitchenQuantity,
+  scaleQuantity,
+  scaleIngredient,
+  scaleRecipe,
+  getScaleFactor,
+} from '../scaling';
+import { compileLiteRecipe } from '../liteCompiler';
+
+describe('roundToKitchenFraction', () => {
+  it('rounds to measurable fractions', () => {
+    expect(roundToKitchenFraction(0.34)).toBeCloseTo(1 / 3);
+    expect(roundToKitchenFraction(1.49)).toBe(1.5);
+    expect(roundToKitchenFraction(2.97)).toBe(3);
+  });
+
+  it('never rounds a positive amount to zero', () => {
+    expect(roundToKitchenFraction(0.01)).toBe(0.125);
+  });
+
+  it('uses whole numbers and steps of 5 for large amounts', () => {
+    expect(roundToKitchenFraction(12.4)).toBe(12);
+    expect(roundToKitchenFraction(673)).toBe(675);
+  });
+
+  it('keeps decimals for metric units', () => {
+    expect(roundToKitchenFraction(1.37, 'kg')).toBe(1.4);
+  });
+});
+
+describe('formatKitchenQuantity', () => {
+  it('shows fraction glyphs for exact fractions only', () => {
+    expect(formatKitchenQuantity(1.5)).toBe('1 ½');
+    expect(formatKitchenQuantity(1 / 3)).toBe('⅓');
+    expect(formatKitchenQuantity(0.3)).toBe('0.3');
+    expect(formatKitchenQuantity({ min: 0.5, max: 1 })).toBe('½-1');
+    expect(formatKitchenQuantity(1.5, 'kg')).toBe('1.5');
+  });
+});
+
+describe('scaleQuantity', () => {
+  it('scales numbers, ranges and numeric strings', () => {
+    expect(scaleQuantity(2, 1.5)).toBe(3);
+    expect(scaleQuantity({ min: 2, max: 3 }, 0.5)).toEqual({ min: 1, max: 1.5 });
+    expect(scaleQuantity('4', 0.5)).toBe(2);
+    expect(scaleQuantity('a pinch', 2)).toBe('a pinch');
+  });
+});
+
+describe('scaleIngredient', () => {
+  it('honours the scaling mode', () => {
+    expect(scaleIngredient({ quantity: 2, name: 'eggs' }, 2).quantity).toBe(4);
+    expect(scaleIngredient({ quantity: 1, name: 'bay leaf', scaling: { mode: 'fixed' } }, 2).quantity).toBe(1);
+    expect(scaleIngredient({ quantity: 1, unit: 'tsp', name: 'salt', toTaste: true }, 2).quantity).toBe(1);
+  });
+});
+
+describe('scaleRecipe', () => {
+  const recipe = compileLiteRecipe({
+    name: 'Stew',
+    yield: { amount: 4, unit: 'servings' },
+    ingredients: [
+      { quantity: 500, unit: 'g', name: 'beef' },
+      { section: { name: 'Sauce', items: [{ quantity: 1, unit: 'cup', name: 'stock' }, 'Pepper'] } },
+    ],
+    instructions: ['Cook'],
+  });
+
+  it('scales to a number of servings without mutating the input', () => {
+    const scaled = scaleRecipe(recipe, { servings: 6 });
+
+    expect(scaled.yield).toEqual({ amount: 6, unit: 'servings' });
+    expect(scaled.ingredients).toEqual([
+      { quantity: 750, unit: 'g', name: 'beef' },
+      { section: { name: 'Sauce', items: [{ quantity: 1.5, unit: 'cup', name: 'stock' }, 'Pepper'] } },
+    ]);
+    expect(recipe.ingredients[0]).toEqual({ quantity: 500, unit: 'g', name: 'beef' });
+  });
+
+  it('returns the same recipe for a factor of 1', () => {
+    expect(scaleRecipe(recipe, { factor: 1 })).toBe(recipe);
+  });
+
+  it('ignores servings when the recipe has no yield', () => {
+    const noYield = compileLiteRecipe({ name: 'Toast' });
+
+    expect(getScaleFactor(noYield, { servings: 8 })).toBe(1);
+    expect(getScaleFactor(noYield, { factor: 2 })).toBe(2);
+  });
+});
@@ -0,0 +1,93 @@
+import { buildCookSchedule, describeTimeline } from '../schedule';
+import { compileLiteRecipe } from '../liteCompiler';
+
+function recipeWith(instructions: unknown[]) {
+  return compileLiteRecipe({
+    name: 'Buns',
+    ingredients: ['flour'],
+    instructions: instructions as Array<string | { text: string }>,
+  });
+}
+
+const buns = [
+  { id: 'mix', text: 'Mix the dough', timing: { activity: 'active', duration: { minutes: 10 } } },
+  { id: 'rise', text: 'Let rise', timing: { activity: 'passive', duration: { minutes: 60 } } },
+  {
+    id: 'filling',
+    text: 'Make the filling',
+    timing: { activity: 'active', duration: { minutes: 15 } },
+    dependsOn: ['mix'],
+  },
+  { id: 'bake', text: 'Bake', timing: { activity: 'passive', duration: { minMinutes: 20, maxMinutes: 25 } } },
+];
+
+describe('buildCookSchedule', () => {
+  it('overlaps active work with passive steps', () => {
+    const schedule = buildCookSchedule(recipeWith(buns));
+    expect(schedule.steps.map((step) => [step.start, step.end])).toEqual([
+      [0, 10],
+      [10, 70],
+      [10, 25],
+      [70, 95],
+    ]);
+    expect(schedule.totalMinutes).toBe(95);
+    expect(schedule.sequentialMinutes).toBe(110);
+    expect(schedule.activeMinutes).toBe(25);
+    expect(schedule.passiveMinutes).toBe(85);
+  });
+
+  it('marks the critical path', () => {
+    const schedule = buildCookSchedule(recipeWith(buns));
+    expect(schedule.steps.filter((step) => step.critical).map((step) => step.id)).toEqual(['mix', 'rise', 'bake']);
+  });
+
+  it('plans ranges for their upper bound', () => {
+    const bake = buildCookSchedule(recipeWith(buns)).steps[3];
+    expect(bake.minutes).toBe(25);
+    expect(bake.minMinutes).toBe(20);
+  });
+
+  it('runs steps without dependsOn after everything before them', () => {
+    const cake = [
+      { id: 'bake', text: 'Bake the cake', timing: { activity: 'passive', duration: { minutes: 30 } } },
+      { id: 'frost', text: 'Frost the cake', timing: { activity: 'active', duration: { minutes: 10 } } },
+      { id: 'slice', text: 'Slice', timing: { activity: 'active', duration: { minutes: 5 } } },
+    ];
+    const schedule = buildCookSchedule(recipeWith(cake));
+    expect(schedule.steps.map((step) => [step.start, step.end])).toEqual([
+      [0, 30],
+      [30, 40],
+      [40, 45],
+    ]);
+  });
+
+  it('honours explicit dependencies', () => {
+    const steps = buns.map((step) => (step.id === 'filling' ? { ...step, dependsOn: ['rise'] } : step));
+    const schedule = buildCookSchedule(recipeWith(steps));
+    expect(schedule.steps[2].start).toBe(70);
+    expect(schedule.totalMinutes).toBe(110);
+  });
+
+  it('reads sections and counts untimed steps', () => {
+    const schedule = buildCookSchedule(
+      recipeWith([{ section: { name: 'Dough', items: ['Knead well', buns[1]] } }, 'Serve'])
+    );
+    expect(schedule.steps.map((step) => step.section)).toEqual(['Dough', 'Dough', undefined]);
+    expect(schedule.untimedSteps).toBe(2);
+    expect(schedule.totalMinutes).toBe(60);
+  });
+});
+
+describe('describeTimeline', () => {
+  it('shows what the cook does while passive steps run', () => {
+    const slices = describeTimeline(buildCookSchedule(recipeWith(buns)));
+    expect(
+      slices.map((slice) => [slice.start, slice.end, slice.active?.id ?? null, slice.running.map((step) => step.id)])
+    ).toEqual([
+      [0, 10, 'mix', []],
+      [10, 25, 'filling', ['rise']],
+      [25, 70, null, ['rise']],
+      [70, 95, null, ['bake']],
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { toSchemaOrgRecipe } from '../schemaOrgExport';
+import { importSchemaOrgRecipes } from '../schemaOrgImport';
+import { compileLiteRecipe } from '../liteCompiler';
+
+describe('toSchemaOrgRecipe', () => {
+  it('maps a Soustack recipe to schema.org Recipe', () => {
+    const recipe = {
+      ...compileLiteRecipe({
+        name: 'Pie',
+        description: 'Flaky',
+        yield: { amount: 8, unit: 'slices' },
+        time: { prep: { minutes: 30 }, cook: { minMinutes: 45, maxMinutes: 50 } },
+        ingredients: [
+          { section: { name: 'Crust', items: [{ quantity: 2, unit: 'cups', name: 'flour' }, 'Salt'] } },
+          { name: 'sugar', toTaste: true },
+        ],
+        instructions: [
+          { section: { name: 'Crust', items: ['Rub in the butter'] } },
+          { text: 'Bake', timing: { duration: { minutes: 90 } } },
+        ],
+      }),
+      images: [{ url: 'https://example.com/pie.jpg', alt: 'Pie' }],
+    };
+
+    expect(toSchemaOrgRecipe(recipe)).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Recipe',
+      name: 'Pie',
+      description: 'Flaky',
+      image: [{ '@type': 'ImageObject', url: 'https://example.com/pie.jpg', caption: 'Pie' }],
+      recipeYield: '8 slices',
+      prepTime: 'PT30M',
+      cookTime: 'PT50M',
+      recipeIngredient: ['2 cups flour', 'Salt', 'sugar, to taste'],
+      recipeInstructions: [
+        {
+          '@type': 'HowToSection',
+          name: 'Crust',
+          itemListElement: [{ '@type': 'HowToStep', text: 'Rub in the butter' }],
+        },
+        { '@type': 'HowToStep', text: 'Bake', timeRequired: 'PT1H30M' },
+      ],
+    });
+  });
+
+  it('exports sections and drops placeholders', () => {
+    const recipe = compileLiteRecipe({ name: 'Empty' });
+    recipe.instructions = [{ section: { name: 'Finish', items: ['Serve'] } }];
+
+    const result = toSchemaOrgRecipe(recipe);
+
+    expect(result.recipeIngredient).toEqual([]);
+    expect(result.recipeInstructions).toEqual([
+      { '@type': 'HowToSection', name: 'Finish', itemListElement: [{ '@type': 'HowToStep', text: 'Serve' }] },
+    ]);
+  });
+
+  it('exports equipment as HowToTool, on the recipe and on steps', () => {
+    const recipe = {
+      ...compileLiteRecipe({ name: 'Cake', instructions: [{ text: 'Bake', equipment: ['eq-1'] }] }),
+      equipment: [
+        { id: 'eq-1', name: 'cake pan', size: '9-inch', quantity: 2 },
+        { id: 'eq-2', name: 'stand mixer', optional: true },
+      ],
+    };
+
+    const result = toSchemaOrgRecipe(recipe);
+
+    expect(result.tool).toEqual([
+      { '@type': 'HowToTool', name: '9-inch cake pan', requiredQuantity: 2 },
+      { '@type': 'HowToTool', name: 'stand mixer' },
+    ]);
+    expect(result.recipeInstructions).toEqual([
+      {
+        '@type': 'HowToStep',
+        text: 'Bake',
+        tool: [{ '@type': 'HowToTool', name: '9-inch cake pan', requiredQuantity: 2 }],
+      },
+    ]);
+  });
+
+  it('round-trips through the importer', () => {
+    const recipe = compileLiteRecipe({
+      name: 'Soup',
+      ingredients: [{ quantity: 1, unit: 'l', name: 'stock' }],
+      instructions: ['Heat', 'Serve'],
+    });
+
+    const [imported] = importSchemaOrgRecipes(JSON.stringify(toSchemaOrgRecipe(recipe)));
+
+    expect(imported.name).toBe('Soup');
+    expect(imported.ingredients).toEqual(recipe.ingredients);
+    expect(imported.instructions).toEqual(['Heat', 'Serve']);
+  });
+
+  it('keeps bare image URLs without alt text', () => {
+    const recipe = { ...compileLiteRecipe({ name: 'Pie' }), images: [{ url: 'https://example.com/pie.jpg' }] };
+
+    expect(toSchemaOrgRecipe(recipe).image).toEqual(['https://example.com/pie.jpg']);
+  });
+
+  it('round-trips equipment through the importer', () => {
+    const recipe = {
+      ...compileLiteRecipe({ name: 'Cake', instructions: ['Bake'] }),
+      equipment: [{ id: 'eq-1', name: 'cake pan', quantity: 2 }],
+    };
+
+    const [imported] = importSchemaOrgRecipes(JSON.stringify(toSchemaOrgRecipe(recipe)));
+
+    expect(imported.stacks.equipment).toBe(1);
+    expect(imported.equipment).toEqual(recipe.equipment);
+  });
+});
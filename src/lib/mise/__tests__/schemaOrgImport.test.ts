@@ -0,0 +1,111 @@
+import { importSchemaOrgRecipes } from '../schemaOrgImport';
+import { parseIsoDuration } from '../recipeMeta';
+
+const jsonLd = {
+  '@context': 'https://schema.org',
+  '@type': 'Recipe',
+  name: 'Banana Bread',
+  description: 'Moist &amp; easy',
+  image: ['https://example.com/bread.jpg', { '@type': 'ImageObject', url: 'https://example.com/slice.jpg', caption: 'A slice' }],
+  recipeYield: ['1', '1 loaf'],
+  prepTime: 'PT15M',
+  cookTime: 'PT1H',
+  recipeIngredient: ['3 ripe bananas, mashed', '2 cups flour', 'Salt, to taste'],
+  recipeInstructions: [
+    {
+      '@type': 'HowToSection',
+      name: 'Batter',
+      itemListElement: [
+        { '@type': 'HowToStep', text: 'Mash the bananas.' },
+        { '@type': 'HowToStep', text: 'Stir in the flour.' },
+      ],
+    },
+    { '@type': 'HowToStep', text: 'Bake until golden.', timeRequired: 'PT55M' },
+  ],
+};
+
+describe('importSchemaOrgRecipes', () => {
+  it('maps a JSON-LD recipe', () => {
+    const [recipe] = importSchemaOrgRecipes(JSON.stringify(jsonLd));
+
+    expect(recipe.name).toBe('Banana Bread');
+    expect(recipe.description).toBe('Moist & easy');
+    expect(recipe.yield).toEqual({ amount: 1, unit: 'loaf' });
+    expect(recipe.time).toEqual({ prep: { minutes: 15 }, cook: { minutes: 60 } });
+    expect(recipe.ingredients[0]).toEqual({ quantity: 3, name: 'ripe bananas', prep: 'mashed' });
+    expect(recipe.instructions).toEqual([
+      { section: { name: 'Batter', items: ['Mash the bananas.', 'Stir in the flour.'] } },
+      { text: 'Bake until golden.', timing: { duration: { minutes: 55 } } },
+    ]);
+    expect(recipe.images).toEqual([
+      { url: 'https://example.com/bread.jpg' },
+      { url: 'https://example.com/slice.jpg', alt: 'A slice' },
+    ]);
+    expect(recipe.stacks).toEqual({ structured: 1, timed: 1, illustrated: 1 });
+    expect(recipe['x-mise']?.source?.converter).toBe('schema.org');
+  });
+
+  it('finds recipes inside HTML script tags and @graph', () => {
+    const html = `<html><head>
+<script type="application/ld+json">{"@type":"WebSite","name":"Blog"}</script>
+<script type="application/ld+json">${JSON.stringify({ '@graph': [{ '@type': 'WebPage' }, jsonLd] })}</script>
+</head><body>...</body></html>`;
+
+    const recipes = importSchemaOrgRecipes(html);
+
+    expect(recipes).toHaveLength(1);
+    expect(recipes[0].name).toBe('Banana Bread');
+  });
+
+  it('splits plain-text instructions into steps', () => {
+    const [recipe] = importSchemaOrgRecipes(
+      JSON.stringify({
+        '@type': ['Recipe'],
+        name: 'Tea',
+        recipeIngredient: ['1 tea bag'],
+        recipeInstructions: '<p>Boil water.</p><p>Steep 3 minutes.</p>',
+      })
+    );
+
+    expect(recipe.instructions).toEqual(['Boil water.', 'Steep 3 minutes.']);
+    expect(recipe.stacks).toEqual({ structured: 1 });
+  });
+
+  it('reads microdata', () => {
+    const html = `<div itemscope itemtype="https://schema.org/Recipe">
+  <h1 itemprop="name">Toast</h1>
+  <img itemprop="image" src="https://example.com/toast.jpg" />
+  <meta itemprop="prepTime" content="PT5M">
+  <span itemprop="recipeYield">2 slices</span>
+  <ul>
+    <li itemprop="recipeIngredient">2 slices bread</li>
+    <li itemprop="recipeIngredient">butter</li>
+  </ul>
+  <div itemprop="recipeInstructions"><p>Toast the bread.</p><p>Butter it.</p></div>
+</div>`;
+
+    const [recipe] = importSchemaOrgRecipes(html);
+
+    expect(recipe.name).toBe('Toast');
+    expect(recipe.yield).toEqual({ amount: 2, unit: 'slices' });
+    expect(recipe.time).toEqual({ prep: { minutes: 5 } });
+    expect(recipe.ingredients).toEqual([{ quantity: 2, unit: 'slices', name: 'bread' }, 'butter']);
+    expect(recipe.instructions).toEqual(['Toast the bread.', 'Butter it.']);
+    expect(recipe.images).toEqual([{ url: 'https://example.com/toast.jpg' }]);
+  });
+
+  it('returns an empty list without a recipe', () => {
+    expect(importSchemaOrgRecipes('<html><body>Hello</body></html>')).toEqual([]);
+    expect(importSchemaOrgRecipes('{not json')).toEqual([]);
+    expect(importSchemaOrgRecipes('')).toEqual([]);
+  });
+});
+
+describe('parseIsoDuration', () => {
+  it('parses schema.org durations', () => {
+    expect(parseIsoDuration('PT1H30M')).toEqual({ minutes: 90 });
+    expect(parseIsoDuration('P0DT45M')).toEqual({ minutes: 45 });
+    expect(parseIsoDuration('PT0S')).toBeNull();
+    expect(parseIsoDuration('90 minutes')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { formatSchemaError, schemaErrorSummary, validateRecipe } from '../schemaValidation';
+import { SOUSTACK_SCHEMA_URL, withCanonicalSchema } from '../soustackSchemas';
+import { compileLiteRecipe } from '../liteCompiler';
+import { compileProfile } from '../profiles';
+import { withParsedQuantity } from '../ingredientLine';
+import type { SoustackLiteRecipe } from '../types';
+
+function recipeWith(fields: Partial<SoustackLiteRecipe>): SoustackLiteRecipe {
+  return {
+    ...compileLiteRecipe({ name: 'Pancakes', ingredients: ['flour'], instructions: ['Mix'] }),
+    ...fields,
+  };
+}
+
+describe('validateRecipe', () => {
+  it('accepts what the lite compiler produces, even from empty input', () => {
+    expect(validateRecipe(compileLiteRecipe({}))).toEqual([]);
+    expect(validateRecipe(recipeWith({}))).toEqual([]);
+  });
+
+  it('addresses errors by JSON pointer, including inside sections', () => {
+    const recipe = recipeWith({
+      ingredients: [
+        { section: { name: 'Batter', items: [{ name: 'flour', quantity: 'lots' }] } },
+      ],
+      instructions: [{ section: 'Cook', steps: [{ txt: 'Fry' }] }],
+    });
+    expect(validateRecipe(recipe)).toEqual([
+      { path: '/ingredients/0/section/items/0/quantity', message: 'must be a number' },
+      { path: '/instructions/0/steps/0/text', message: 'is required' },
+    ]);
+  });
+
+  it('accepts ingredients the way the structured editor saves them', () => {
+    // The editor's quantity inputs hold text; new rows start out empty
+    const edited = [
+      { name: 'flour', quantity: '2', unit: 'cups' },
+      { name: 'milk', quantity: '1 1/2', unit: 'cups' },
+      { name: 'eggs', quantity: '2-3', unit: '' },
+      { name: 'salt', quantity: '', unit: '' },
+    ];
+    const ingredients = edited.map(withParsedQuantity);
+    expect(ingredients.map((ingredient) => ingredient.quantity)).toEqual([2, 1.5, { min: 2, max: 3 }, undefined]);
+    expect('quantity' in ingredients[3]).toBe(false);
+    expect(validateRecipe(recipeWith({ ingredients }))).toEqual([]);
+  });
+
+  it('requires the canonical $schema', () => {
+    const errors = validateRecipe(recipeWith({ $schema: 'https://soustack.org/lite.schema.json' }));
+    expect(errors.map(formatSchemaError)).toEqual([`/$schema must be "${SOUSTACK_SCHEMA_URL}"`]);
+  });
+
+  it('checks the fields of enabled stacks only', () => {
+    const equipment = [{ name: '' }] as SoustackLiteRecipe['equipment'];
+    expect(validateRecipe(recipeWith({ equipment }))).toEqual([]);
+    expect(validateRecipe(recipeWith({ stacks: { equipment: 1 }, equipment }))).toEqual([
+      { path: '/equipment/0/name', message: 'must not be empty' },
+    ]);
+  });
+
+  it('checks every profile up to the declared one', () => {
+    const errors = validateRecipe(recipeWith({ profile: 'scalable', name: 'Untitled Recipe' }));
+    expect(errors.map(formatSchemaError)).toEqual([
+      '/name must not be "Untitled Recipe"',
+      '/yield is required',
+      '/stacks/scaling is required',
+      '/ingredients/0 must be an object',
+    ]);
+  });
+
+  it('accepts recipes at the profile the compiler assigns', () => {
+    const recipe = compileProfile(
+      recipeWith({
+        stacks: { scaling: 1, timed: 1 },
+        yield: { amount: 4, unit: 'servings' },
+        ingredients: [{ name: 'flour', quantity: 200, unit: 'g' }, { name: 'salt', toTaste: true }],
+        instructions: [{ text: 'Fry', timing: { activity: 'active', duration: { minutes: 3 } } }],
+      })
+    );
+    expect(recipe.profile).toBe('timed');
+    expect(validateRecipe(recipe)).toEqual([]);
+  });
+});
+
+describe('schemaErrorSummary', () => {
+  it('lists the first few errors and counts the rest', () => {
+    const errors = validateRecipe(recipeWith({ profile: 'scalable', name: 'Untitled Recipe' }));
+    expect(schemaErrorSummary(errors)).toBe(
+      'Recipe does not match the Soustack schema: /name must not be "Untitled Recipe"; /yield is required; ' +
+        '/stacks/scaling is required (and 1 more)'
+    );
+  });
+});
+
+describe('withCanonicalSchema', () => {
+  it('rewrites legacy schema URLs and keeps everything else', () => {
+    const recipe = recipeWith({});
+    expect(withCanonicalSchema(recipe)).toBe(recipe);
+    expect(withCanonicalSchema({ ...recipe, $schema: 'https://soustack.org/lite.schema.json' }).$schema).toBe(
+      SOUSTACK_SCHEMA_URL
+    );
+  });
+});
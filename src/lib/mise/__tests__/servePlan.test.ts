@@ -0,0 +1,93 @@
+import { parseServeTime, planForServeTime, servePlanToIcs } from '../servePlan';
+import { compileLiteRecipe } from '../liteCompiler';
+
+const recipe = {
+  ...compileLiteRecipe({
+    name: 'Buns',
+    ingredients: ['flour'],
+    instructions: [
+      { id: 'mix', text: 'Mix the dough', timing: { activity: 'active', duration: { minutes: 10 } } },
+      { text: 'Let rise', timing: { activity: 'passive', duration: { minutes: 60 }, completionCue: 'doubled in size' } },
+      {
+        text: 'Make the filling',
+        timing: { activity: 'active', duration: { minutes: 15 } },
+        dependsOn: ['mix'],
+      },
+      { text: 'Bake', timing: { activity: 'passive', duration: { minMinutes: 20, maxMinutes: 25 } } },
+    ],
+  }),
+  miseEnPlace: [{ text: 'Weigh the flour' }, { text: 'Warm the milk', timing: { duration: { minutes: 10 } } }],
+};
+
+const serveAt = new Date(2024, 5, 1, 19, 0);
+
+function clock(date: Date): string {
+  return `${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+describe('parseServeTime', () => {
+  const now = new Date(2024, 5, 1, 12, 0);
+
+  it('reads clock times in free text', () => {
+    expect(parseServeTime('dinner at 7:00pm', now)).toEqual(new Date(2024, 5, 1, 19, 0));
+    expect(parseServeTime('7 p.m.', now)).toEqual(new Date(2024, 5, 1, 19, 0));
+    expect(parseServeTime('19:30', now)).toEqual(new Date(2024, 5, 1, 19, 30));
+    expect(parseServeTime('noon', now)).toEqual(new Date(2024, 5, 2, 12, 0));
+  });
+
+  it('rolls over to tomorrow for times already past', () => {
+    expect(parseServeTime('brunch at 9am', now)).toEqual(new Date(2024, 5, 2, 9, 0));
+  });
+
+  it('rejects text without a clear time', () => {
+    expect(parseServeTime('for 4 people', now)).toBeNull();
+    expect(parseServeTime('13pm', now)).toBeNull();
+  });
+});
+
+describe('planForServeTime', () => {
+  it('ends the plan at the serve time with mise en place first', () => {
+    const plan = planForServeTime(recipe, serveAt);
+    expect(plan.items.map((item) => [item.kind, item.text, clock(item.start), clock(item.end)])).toEqual([
+      ['mise', 'Weigh the flour', '17:10', '17:15'],
+      ['mise', 'Warm the milk', '17:15', '17:25'],
+      ['step', 'Mix the dough', '17:25', '17:35'],
+      ['step', 'Let rise', '17:35', '18:35'],
+      ['step', 'Make the filling', '17:35', '17:50'],
+      ['step', 'Bake', '18:35', '19:00'],
+    ]);
+    expect(plan.startAt).toEqual(new Date(2024, 5, 1, 17, 10));
+  });
+
+  it('flags slack from range durations', () => {
+    const plan = planForServeTime(recipe, serveAt);
+    expect(plan.items[5].slackMinutes).toBe(5);
+    expect(plan.slackMinutes).toBe(5);
+  });
+});
+
+describe('servePlanToIcs', () => {
+  it('writes one event per item', () => {
+    const ics = servePlanToIcs(planForServeTime(recipe, serveAt), 'Buns', serveAt);
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(6);
+    expect(ics).toContain(`DTEND:${serveAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+    expect(ics).toContain('Done when: doubled in size');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const ics = servePlanToIcs(planForServeTime(recipe, serveAt), 'Sticky buns, the long weekend version; with extra cinnamon', serveAt);
+    expect(ics).toContain('Sticky buns\\, the long weekend version\\; with');
+    expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+  });
+
+  it('folds by UTF-8 octets without splitting characters', () => {
+    const name = 'Crème brûlée à 180°C 🍮 '.repeat(6);
+    const ics = servePlanToIcs(planForServeTime(recipe, serveAt), name, serveAt);
+    const lines = ics.split('\r\n');
+    expect(lines.every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(lines.some((line) => /\uFFFD|[\uD800-\uDBFF]$|^ [\uDC00-\uDFFF]/.test(line))).toBe(false);
+    expect(ics.replace(/\r\n /g, '')).toContain(name.trim());
+  });
+});
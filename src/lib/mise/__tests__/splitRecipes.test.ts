@@ -0,0 +1,82 @@
+import { splitRecipes } from '../splitRecipes';
+import { parseFreeform } from '../parseFreeform';
+
+describe('splitRecipes', () => {
+  it('splits repeated title + ingredients/method blocks', () => {
+    const text = `This week's menu, enjoy!
+
+Pancakes
+Serves 4
+
+Ingredients:
+- 1 cup flour
+- 1 egg
+
+Method:
+1. Whisk everything
+2. Fry
+
+Waffles
+Ingredients:
+- 2 cups flour
+
+Method:
+Bake in the waffle iron.`;
+
+    const chunks = splitRecipes(text);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].startsWith('Pancakes')).toBe(true);
+    expect(chunks[1].startsWith('Waffles')).toBe(true);
+    expect(parseFreeform(chunks[0]).title).toBe('Pancakes');
+    expect(parseFreeform(chunks[0]).instructions).toEqual(['Whisk everything', 'Fry']);
+    expect(parseFreeform(chunks[1]).ingredients).toEqual(['2 cups flour']);
+  });
+
+  it('keeps the title above separated yield lines', () => {
+    const text = `Soup
+
+Serves 2
+
+Ingredients:
+- water
+Method:
+1. Boil
+
+Salad
+Ingredients:
+- lettuce
+Method:
+1. Toss`;
+
+    expect(splitRecipes(text)[0].startsWith('Soup')).toBe(true);
+  });
+
+  it('returns a single recipe unchanged', () => {
+    const text = `Toast
+Ingredients:
+- bread
+Method:
+1. Toast`;
+
+    expect(splitRecipes(text)).toEqual([text]);
+  });
+
+  it('does not split a second ingredients list without instructions in between', () => {
+    const text = `Pie
+Ingredients:
+- flour
+
+Filling
+Ingredients:
+- apples
+Method:
+1. Bake`;
+
+    expect(splitRecipes(text)).toHaveLength(1);
+  });
+
+  it('handles empty input', () => {
+    expect(splitRecipes('')).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { convertAmount, convertIngredient, convertRecipeUnits, findDensity, normalizeUnit } from '../units';
+import { compileLiteRecipe } from '../liteCompiler';
+
+describe('normalizeUnit', () => {
+  it('maps aliases to canonical units', () => {
+    expect(normalizeUnit('tablespoon')).toBe('tbsp');
+    expect(normalizeUnit('Tbsp.')).toBe('tbsp');
+    expect(normalizeUnit('T')).toBe('tbsp');
+    expect(normalizeUnit('t')).toBe('tsp');
+    expect(normalizeUnit('fl. oz.')).toBe('fl oz');
+    expect(normalizeUnit('Grams')).toBe('g');
+  });
+
+  it('returns null for count units', () => {
+    expect(normalizeUnit('cloves')).toBeNull();
+    expect(normalizeUnit(undefined)).toBeNull();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts within volume and mass', () => {
+    expect(convertAmount(1, 'cup', 'ml')).toBeCloseTo(236.6, 1);
+    expect(convertAmount(1, 'lb', 'g')).toBeCloseTo(453.6, 1);
+    expect(convertAmount(3, 'tsp', 'tbsp')).toBeCloseTo(1, 2);
+  });
+
+  it('converts between volume and mass with a known density', () => {
+    expect(convertAmount(1, 'cup', 'g', 'all-purpose flour')).toBeCloseTo(125.4, 1);
+    expect(convertAmount(1, 'cup', 'g', 'gravel')).toBeNull();
+  });
+
+  it('prefers the most specific density', () => {
+    expect(findDensity('packed brown sugar')).toBe(0.93);
+    expect(findDensity('granulated sugar')).toBe(0.85);
+  });
+});
+
+describe('convertIngredient', () => {
+  it('weighs dry ingredients in metric', () => {
+    expect(convertIngredient({ name: 'flour', quantity: 2, unit: 'cups' }, 'metric')).toEqual({
+      name: 'flour',
+      quantity: 250,
+      unit: 'g',
+    });
+  });
+
+  it('keeps liquids in millilitres', () => {
+    expect(convertIngredient({ name: 'chicken stock', quantity: 1, unit: 'quart' }, 'metric')).toMatchObject({
+      quantity: 945,
+      unit: 'ml',
+    });
+  });
+
+  it('picks readable US units', () => {
+    expect(convertIngredient({ name: 'milk', quantity: 250, unit: 'ml' }, 'us')).toMatchObject({ quantity: 1, unit: 'cup' });
+    expect(convertIngredient({ name: 'oil', quantity: 30, unit: 'ml' }, 'us')).toMatchObject({ quantity: 2, unit: 'tbsp' });
+    expect(convertIngredient({ name: 'beef', quantity: 500, unit: 'g' }, 'us')).toMatchObject({ quantity: 1.125, unit: 'lb' });
+  });
+
+  it('converts numeric text the way the editor stores it and leaves other text alone', () => {
+    expect(convertIngredient({ name: 'flour', quantity: '2', unit: 'cups' }, 'metric')).toEqual({
+      name: 'flour',
+      quantity: 250,
+      unit: 'g',
+    });
+    const pinch = { name: 'flour', quantity: 'a handful', unit: 'cups' };
+    expect(convertIngredient(pinch, 'metric')).toBe(pinch);
+  });
+
+  it('converts ranges', () => {
+    expect(convertIngredient({ name: 'butter', quantity: { min: 4, max: 8 }, unit: 'oz' }, 'metric')).toMatchObject({
+      quantity: { min: 115, max: 225 },
+      unit: 'g',
+    });
+  });
+
+  it('leaves spoons, count units and same-system units alone', () => {
+    const spoon = { name: 'salt', quantity: 1, unit: 'T' };
+    const cloves = { name: 'garlic', quantity: 2, unit: 'cloves' };
+    const grams = { name: 'flour', quantity: 200, unit: 'g' };
+    expect(convertIngredient(spoon, 'metric')).toBe(spoon);
+    expect(convertIngredient(cloves, 'us')).toBe(cloves);
+    expect(convertIngredient(grams, 'metric')).toBe(grams);
+  });
+});
+
+describe('convertRecipeUnits', () => {
+  it('converts structured and free-text ingredients inside sections', () => {
+    const recipe = compileLiteRecipe({
+      name: 'Bread',
+      ingredients: [
+        '2 cups all-purpose flour, sifted',
+        { section: { name: 'Glaze', items: [{ name: 'milk', quantity: 250, unit: 'ml' }] } },
+        'a pinch of salt',
+      ],
+      instructions: ['Mix'],
+    });
+
+    const converted = convertRecipeUnits(recipe, 'metric');
+    expect(converted.ingredients[0]).toBe('250 g all-purpose flour, sifted');
+    expect(converted.ingredients[2]).toBe('a pinch of salt');
+    expect(convertRecipeUnits(recipe, 'us').ingredients[1]).toEqual({
+      section: { name: 'Glaze', items: [{ name: 'milk', quantity: 1, unit: 'cup' }] },
+    });
+    expect(recipe.ingredients[0]).toBe('2 cups all-purpose flour, sifted');
+  });
+});
@@ -0,0 +1,166 @@
+import type { Duration, IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine } from './ingredientLine';
+import { formatDuration } from './recipeMeta';
+import { isObject } from './json';
+import { sectionOf } from './sections';
+
+/**
+ * One instruction as shown in cook mode
+ */
+export type CookStep = {
+  text: string;
+  section?: string;
+  ingredients: string[]; // display lines for the step's inputs
+  timer?: { seconds: number; label: string };
+  completionCue?: string;
+};
+
+/**
+ * A countdown started from a step; `endsAt` is epoch milliseconds
+ */
+export type CookTimer = {
+  id: string;
+  step: number;
+  label: string;
+  endsAt: number;
+};
+
+/**
+ * Cook mode progress remembered per recipe
+ */
+export type CookProgress = {
+  step: number;
+  done: number[];
+  timers: CookTimer[];
+};
+
+const PROGRESS_KEY_PREFIX = 'mise:cook:';
+
+function flatten(items: unknown[]): Array<{ item: unknown; section?: string }> {
+  return items.flatMap((item) => {
+    const section = sectionOf(item);
+    if (!section) return [{ item }];
+    return section.items.map((entry) => ({ item: entry, ...(section.name && { section: section.name }) }));
+  });
+}
+
+/**
+ * Maps ingredient ids and names (lowercased) to display lines so step
+ * inputs resolve whether they hold an id or the ingredient name
+ */
+function ingredientLookup(recipe: SoustackLiteRecipe): Map<string, string> {
+  const lookup = new Map<string, string>();
+  const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  for (const { item } of flatten(ingredients)) {
+    if (!isObject(item) || typeof item.name !== 'string') continue;
+    const line = formatIngredientLine(item as IngredientObject);
+    if (typeof item.id === 'string' && item.id) lookup.set(item.id.toLowerCase(), line);
+    if (!lookup.has(item.name.toLowerCase())) lookup.set(item.name.toLowerCase(), line);
+  }
+  return lookup;
+}
+
+// Ranges count down to the lower bound so the cook checks early
+function timerFor(duration: unknown): CookStep['timer'] {
+  if (!isObject(duration)) return undefined;
+  const value = duration as Duration;
+  const minutes = 'minutes' in value ? value.minutes : value.minMinutes || value.maxMinutes;
+  if (!Number.isFinite(minutes) || minutes <= 0) return undefined;
+  return { seconds: Math.round(minutes * 60), label: formatDuration(value) };
+}
+
+/**
+ * Flattens instructions into cook mode steps with their ingredients and timers
+ */
+export function buildCookSteps(recipe: SoustackLiteRecipe): CookStep[] {
+  const lookup = ingredientLookup(recipe);
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+
+  return flatten(instructions).flatMap(({ item, section }): CookStep[] => {
+    if (typeof item === 'string') {
+      const text = item.trim();
+      return text && text !== '(not provided)' ? [{ text, ...(section && { section }), ingredients: [] }] : [];
+    }
+    if (!isObject(item) || typeof item.text !== 'string' || !item.text.trim()) return [];
+
+    const timing = isObject(item.timing) ? item.timing : {};
+    const inputs = Array.isArray(item.inputs) ? item.inputs.map(String).filter((input) => input.trim()) : [];
+    const timer = timerFor(timing.duration);
+    return [
+      {
+        text: item.text.trim(),
+        ...(section && { section }),
+        ingredients: inputs.map((input) => lookup.get(input.trim().toLowerCase()) ?? input.trim()),
+        ...(timer && { timer }),
+        ...(typeof timing.completionCue === 'string' && timing.completionCue.trim() && {
+          completionCue: timing.completionCue.trim(),
+        }),
+      },
+    ];
+  });
+}
+
+/**
+ * Formats remaining seconds as "m:ss" or "h:mm:ss"
+ */
+export function formatCountdown(seconds: number): string {
+  const total = Math.max(0, Math.ceil(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * Reads saved progress, clamped to the current step count. Returns null
+ * when nothing valid is stored.
+ */
+export function readCookProgress(
+  storage: Pick<Storage, 'getItem'>,
+  recipeId: string,
+  stepCount: number
+): CookProgress | null {
+  try {
+    const raw = storage.getItem(PROGRESS_KEY_PREFIX + recipeId);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<CookProgress>;
+    if (typeof parsed.step !== 'number' || stepCount === 0) return null;
+
+    const inRange = (step: unknown): step is number =>
+      typeof step === 'number' && Number.isInteger(step) && step >= 0 && step < stepCount;
+    return {
+      step: Math.min(Math.max(0, Math.floor(parsed.step)), stepCount - 1),
+      done: Array.isArray(parsed.done) ? parsed.done.filter(inRange) : [],
+      timers: Array.isArray(parsed.timers)
+        ? parsed.timers.filter(
+            (timer): timer is CookTimer =>
+              isObject(timer) && typeof timer.id === 'string' && typeof timer.endsAt === 'number' && inRange(timer.step)
+          )
+        : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores progress; storage errors (quota, private mode) are ignored
+ */
+export function writeCookProgress(storage: Pick<Storage, 'setItem'>, recipeId: string, progress: CookProgress): void {
+  try {
+    storage.setItem(PROGRESS_KEY_PREFIX + recipeId, JSON.stringify(progress));
+  } catch {
+    // Progress is a convenience; cooking continues without it
+  }
+}
+
+/**
+ * Forgets saved progress for a recipe
+ */
+export function clearCookProgress(storage: Pick<Storage, 'removeItem'>, recipeId: string): void {
+  try {
+    storage.removeItem(PROGRESS_KEY_PREFIX + recipeId);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -0,0 +1,80 @@
+import type { WorkbenchDoc } from './workbenchDoc';
+
+/**
+ * In-memory undo/redo history of the editor's WorkbenchDoc
+ */
+export type DocHistory = {
+  past: WorkbenchDoc[]; // oldest first
+  future: WorkbenchDoc[]; // next redo first
+  last?: { group: string; at: number }; // latest grouped edit, for coalescing
+};
+
+export const HISTORY_LIMIT = 100;
+
+// Edits in the same group closer together than this undo as one step
+export const COALESCE_MS = 1000;
+
+export function createDocHistory(): DocHistory {
+  return { past: [], future: [] };
+}
+
+export function canUndo(history: DocHistory): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: DocHistory): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * Records `before` as an undo step for an edit made at `at`. Edits with the
+ * same `group` (typing in one field) coalesce while they keep coming within
+ * COALESCE_MS; ungrouped edits (a conversion, a paste) are always their own
+ * step. Any new edit clears the redo stack.
+ */
+export function recordEdit(history: DocHistory, before: WorkbenchDoc, edit: { group?: string; at: number }): DocHistory {
+  const last = edit.group ? { group: edit.group, at: edit.at } : undefined;
+  const coalesce = !!edit.group && history.last?.group === edit.group && edit.at - history.last.at < COALESCE_MS;
+  // The same state recorded twice (e.g. a state updater run again) is one step
+  if (coalesce || history.past[history.past.length - 1] === before) {
+    return { ...history, future: [], last };
+  }
+  return { past: [...history.past, before].slice(-HISTORY_LIMIT), future: [], last };
+}
+
+// A restored state is a new revision of the doc, not a rewind of its counter
+function restamp(doc: WorkbenchDoc, current: WorkbenchDoc, now: string): WorkbenchDoc {
+  return { ...doc, meta: { revision: current.meta.revision + 1, updatedAt: now } };
+}
+
+/**
+ * Steps back from `current`. Returns null when there is nothing to undo.
+ */
+export function undoEdit(
+  history: DocHistory,
+  current: WorkbenchDoc,
+  now: string
+): { history: DocHistory; doc: WorkbenchDoc } | null {
+  if (!canUndo(history)) return null;
+  const previous = history.past[history.past.length - 1];
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    doc: restamp(previous, current, now),
+  };
+}
+
+/**
+ * Re-applies the last undone edit. Returns null when there is nothing to redo.
+ */
+export function redoEdit(
+  history: DocHistory,
+  current: WorkbenchDoc,
+  now: string
+): { history: DocHistory; doc: WorkbenchDoc } | null {
+  if (!canRedo(history)) return null;
+  const [next, ...future] = history.future;
+  return {
+    history: { past: [...history.past, current].slice(-HISTORY_LIMIT), future },
+    doc: restamp(next, current, now),
+  };
+}
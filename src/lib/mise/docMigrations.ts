@@ -0,0 +1,105 @@
+import type { SoustackLiteRecipe } from './types';
+import type { WorkbenchDoc } from './workbenchDoc';
+import { migrateVersionedStackKeys } from './stacks';
+import { normalizeEquipment } from './equipment';
+import { withCanonicalSchema } from './soustackSchemas';
+import { isObject } from './json';
+
+/**
+ * One step of the pipeline: brings a recipe from version `to - 1` to `to`.
+ * Every migration so far only touches the recipe.
+ */
+type DocMigration = {
+  to: number;
+  description: string;
+  migrate: (recipe: SoustackLiteRecipe) => SoustackLiteRecipe;
+};
+
+/**
+ * Moves data kept under stack keys to top-level fields, then drops
+ * versioned keys ("prep@1" → "prep": 1)
+ */
+function migrateStackData(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  if (!isObject(recipe.stacks)) return recipe;
+  let next = recipe;
+
+  // Must run before the keys are migrated, which would drop "prep@1" data
+  const prepData = recipe.stacks['prep@1'];
+  if (!('miseEnPlace' in recipe) && Array.isArray(prepData)) {
+    const miseEnPlace = prepData.filter((item) => isObject(item) && typeof item.text === 'string');
+    if (miseEnPlace.length > 0) next = { ...next, miseEnPlace } as SoustackLiteRecipe;
+  }
+
+  next = normalizeEquipment(next);
+
+  const stacks = migrateVersionedStackKeys(next.stacks);
+  return stacks === next.stacks ? next : { ...next, stacks };
+}
+
+/**
+ * Rewrites spec-style sections `{ section: 'Name', steps }` to the editor
+ * shape `{ section: { name, items } }`, at any depth. Returns the same
+ * array when nothing changes.
+ */
+function toEditorSections(items: unknown[]): unknown[] {
+  let changed = false;
+  const next = items.map((item) => {
+    if (!isObject(item)) return item;
+    if (typeof item.section === 'string' && Array.isArray(item.steps)) {
+      changed = true;
+      const { section, steps, ...rest } = item;
+      return { ...rest, section: { name: section, items: toEditorSections(steps) } };
+    }
+    if (isObject(item.section) && Array.isArray(item.section.items)) {
+      const sectionItems = toEditorSections(item.section.items);
+      if (sectionItems === item.section.items) return item;
+      changed = true;
+      return { ...item, section: { ...item.section, items: sectionItems } };
+    }
+    return item;
+  });
+  return changed ? next : items;
+}
+
+function migrateSections(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  const ingredients = Array.isArray(recipe.ingredients) ? toEditorSections(recipe.ingredients) : recipe.ingredients;
+  const instructions = Array.isArray(recipe.instructions) ? toEditorSections(recipe.instructions) : recipe.instructions;
+  if (ingredients === recipe.ingredients && instructions === recipe.instructions) return recipe;
+  return { ...recipe, ingredients, instructions };
+}
+
+/**
+ * Ordered by `to`; append new migrations, never edit shipped ones
+ */
+const MIGRATIONS: DocMigration[] = [
+  { to: 1, description: 'Stack data and versioned stack keys', migrate: migrateStackData },
+  { to: 2, description: 'Spec-style sections to the editor shape', migrate: migrateSections },
+  { to: 3, description: 'Canonical $schema', migrate: withCanonicalSchema },
+];
+
+/**
+ * The format version new documents are written with
+ */
+export const WORKBENCH_DOC_VERSION = MIGRATIONS[MIGRATIONS.length - 1].to;
+
+/**
+ * Runs every migration after `fromVersion` on a recipe. Imported recipes
+ * have no version, so they go through the whole pipeline. Migrations that
+ * need `stacks` skip recipes without it; the others still run.
+ */
+export function migrateRecipe(recipe: SoustackLiteRecipe, fromVersion = 0): SoustackLiteRecipe {
+  if (!isObject(recipe)) return recipe;
+  return MIGRATIONS.filter(({ to }) => to > fromVersion).reduce((next, { migrate }) => migrate(next), recipe);
+}
+
+/**
+ * Brings a stored document up to WORKBENCH_DOC_VERSION. Documents written
+ * before versioning count as version 0; documents from a newer version are
+ * returned untouched.
+ */
+export function migrateWorkbenchDoc(doc: WorkbenchDoc): WorkbenchDoc {
+  if (!isObject(doc)) return doc;
+  const fromVersion = typeof doc.formatVersion === 'number' ? doc.formatVersion : 0;
+  if (fromVersion >= WORKBENCH_DOC_VERSION) return doc;
+  return { ...doc, recipe: migrateRecipe(doc.recipe, fromVersion), formatVersion: WORKBENCH_DOC_VERSION };
+}
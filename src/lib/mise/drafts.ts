@@ -0,0 +1,156 @@
+import type { WorkbenchDoc } from './workbenchDoc';
+import { migrateWorkbenchDoc } from './docMigrations';
+import { isObject } from './json';
+
+/**
+ * Unsaved editor state kept on this device, one per recipe (or per editor
+ * for recipes that were never saved)
+ */
+export type StoredDraft = {
+  key: string;
+  doc: WorkbenchDoc;
+  recipeId?: string; // saved recipe the draft belongs to
+  baseRevision: number; // revision the draft was edited from, 0 if never saved
+  savedAt: string;
+  pending: boolean; // a save is queued until the server is reachable
+};
+
+/**
+ * How a queued save went. Callers throw instead when the server could not
+ * be reached, which keeps the rest of the queue for later.
+ */
+export type DraftSyncOutcome =
+  | { status: 'saved' }
+  | { status: 'conflict' } // saved elsewhere meanwhile; resolved when the recipe is opened
+  | { status: 'rejected' } // the server will never take it as is, e.g. schema errors
+  | { status: 'retry' }; // a temporary server error; stays queued for the next sync
+
+const DRAFT_KEY_PREFIX = 'mise:draft:';
+
+/**
+ * Draft key for a saved recipe, or for an editor's not-yet-saved recipe
+ */
+export function draftKey(recipeId: string | null | undefined, editor: 'workbench' | 'creator'): string {
+  return recipeId ? `recipe:${recipeId}` : `${editor}:new`;
+}
+
+function parseDraft(raw: string | null): StoredDraft | null {
+  if (!raw) return null;
+  const parsed = JSON.parse(raw) as Partial<StoredDraft>;
+  if (
+    typeof parsed.key !== 'string' ||
+    !isObject(parsed.doc) ||
+    !isObject(parsed.doc.recipe) ||
+    typeof parsed.savedAt !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    key: parsed.key,
+    doc: migrateWorkbenchDoc(parsed.doc as WorkbenchDoc),
+    ...(typeof parsed.recipeId === 'string' && { recipeId: parsed.recipeId }),
+    baseRevision: typeof parsed.baseRevision === 'number' ? parsed.baseRevision : 0,
+    savedAt: parsed.savedAt,
+    pending: parsed.pending === true,
+  };
+}
+
+/**
+ * Reads a stored draft. Returns null when nothing valid is stored.
+ */
+export function readDraft(storage: Pick<Storage, 'getItem'>, key: string): StoredDraft | null {
+  try {
+    return parseDraft(storage.getItem(DRAFT_KEY_PREFIX + key));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores a draft; storage errors (quota, private mode) are ignored
+ */
+export function writeDraft(storage: Pick<Storage, 'setItem'>, draft: StoredDraft): void {
+  try {
+    storage.setItem(DRAFT_KEY_PREFIX + draft.key, JSON.stringify(draft));
+  } catch {
+    // The editor keeps working; only reload recovery is lost
+  }
+}
+
+/**
+ * Forgets a draft, e.g. once it has been saved
+ */
+export function clearDraft(storage: Pick<Storage, 'removeItem'>, key: string): void {
+  try {
+    storage.removeItem(DRAFT_KEY_PREFIX + key);
+  } catch {
+    // Nothing to clear
+  }
+}
+
+/**
+ * All stored drafts, oldest first
+ */
+export function listDrafts(storage: Pick<Storage, 'length' | 'key' | 'getItem'>): StoredDraft[] {
+  const drafts: StoredDraft[] = [];
+  try {
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (!key?.startsWith(DRAFT_KEY_PREFIX)) continue;
+      try {
+        const draft = parseDraft(storage.getItem(key));
+        if (draft) drafts.push(draft);
+      } catch {
+        // Skip corrupt entries
+      }
+    }
+  } catch {
+    return [];
+  }
+  return drafts.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+}
+
+// The recipe without fields compiled from the rest of it
+function editedFields(recipe: WorkbenchDoc['recipe']): string {
+  const { profile: _profile, ...edited } = recipe;
+  return JSON.stringify(edited);
+}
+
+/**
+ * Whether two documents differ in what the user edits (the recipe and the
+ * draft text), ignoring timestamps, counters and the derived profile
+ */
+export function docChanged(doc: WorkbenchDoc, other: WorkbenchDoc): boolean {
+  return editedFields(doc.recipe) !== editedFields(other.recipe) || doc.draft.rawText !== other.draft.rawText;
+}
+
+/**
+ * Sends queued saves, oldest first, skipping drafts an open editor is
+ * handling itself. Saved drafts are cleared; conflicting or rejected ones
+ * stay on the device (no longer queued) for the restore prompt; drafts to
+ * retry stay queued without holding up the rest. Stops at the first save
+ * that throws, leaving the rest queued. Returns how many drafts were saved.
+ */
+export async function syncPendingDrafts(
+  storage: Pick<Storage, 'length' | 'key' | 'getItem' | 'setItem' | 'removeItem'>,
+  save: (draft: StoredDraft) => Promise<DraftSyncOutcome>,
+  skip: ReadonlySet<string> = new Set()
+): Promise<number> {
+  let saved = 0;
+  for (const draft of listDrafts(storage)) {
+    if (!draft.pending || skip.has(draft.key)) continue;
+    let outcome: DraftSyncOutcome;
+    try {
+      outcome = await save(draft);
+    } catch {
+      break;
+    }
+    if (outcome.status === 'saved') {
+      clearDraft(storage, draft.key);
+      saved++;
+    } else if (outcome.status !== 'retry') {
+      writeDraft(storage, { ...draft, pending: false });
+    }
+  }
+  return saved;
+}
@@ -0,0 +1,138 @@
+import type { EquipmentItem, SoustackLiteRecipe } from './types';
+import { isObject } from './json';
+
+const ID_PREFIX = 'eq-';
+const ID_PATTERN = /^eq-(\d+)$/;
+
+// Stack keys that held equipment lists before the top-level field existed
+const LEGACY_KEYS = ['equipment', 'equipment@1'];
+
+/**
+ * Reads a loosely shaped equipment entry (a plain name or an object).
+ * Returns null for entries without a name.
+ */
+function toEquipmentItem(value: unknown): EquipmentItem | null {
+  if (typeof value === 'string') {
+    return value.trim() ? { name: value.trim() } : null;
+  }
+  if (!isObject(value) || typeof value.name !== 'string' || !value.name.trim()) return null;
+
+  const item: EquipmentItem = { ...(value as EquipmentItem), name: value.name };
+  if (typeof item.quantity !== 'number' || !(item.quantity > 0)) delete item.quantity;
+  const alternatives = Array.isArray(value.alternatives)
+    ? value.alternatives.filter((alt): alt is string => typeof alt === 'string' && alt.trim() !== '')
+    : [];
+  if (alternatives.length > 0) item.alternatives = alternatives;
+  else delete item.alternatives;
+  return item;
+}
+
+/**
+ * Lists the recipe's equipment, skipping entries without a name
+ */
+export function readEquipment(recipe: SoustackLiteRecipe): EquipmentItem[] {
+  if (!Array.isArray(recipe.equipment)) return [];
+  return recipe.equipment
+    .map(toEquipmentItem)
+    .filter((item): item is EquipmentItem => item !== null);
+}
+
+/**
+ * Gives every equipment item a stable id ("eq-2") so steps can reference
+ * it through renames. Returns the same recipe when nothing changed.
+ */
+export function assignEquipmentIds(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  if (!Array.isArray(recipe.equipment)) return recipe;
+  const taken = new Set(recipe.equipment.map((item) => item?.id).filter(Boolean));
+  let counter = Array.from(taken).reduce((max, id) => {
+    const match = String(id).match(ID_PATTERN);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+
+  let changed = false;
+  const equipment = recipe.equipment.map((item) => {
+    if (!isObject(item) || (typeof item.id === 'string' && item.id)) return item;
+    let id = `${ID_PREFIX}${++counter}`;
+    while (taken.has(id)) id = `${ID_PREFIX}${++counter}`;
+    taken.add(id);
+    changed = true;
+    return { ...item, id };
+  });
+  return changed ? { ...recipe, equipment } : recipe;
+}
+
+/**
+ * Moves equipment lists stored under `stacks.equipment` (the old
+ * placeholder shape) to the top-level `equipment` field and assigns ids.
+ * Returns the same recipe when nothing changed.
+ */
+export function normalizeEquipment(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  let next = recipe;
+  const legacyKey = LEGACY_KEYS.find((key) => Array.isArray(recipe.stacks[key]));
+  if (legacyKey) {
+    const stacks = { ...recipe.stacks };
+    const legacy = (stacks[legacyKey] as unknown[])
+      .map(toEquipmentItem)
+      .filter((item): item is EquipmentItem => item !== null);
+    delete stacks[legacyKey];
+    stacks.equipment = 1;
+    next = {
+      ...recipe,
+      stacks,
+      ...(!Array.isArray(recipe.equipment) && legacy.length > 0 && { equipment: legacy }),
+    };
+  }
+  return assignEquipmentIds(next);
+}
+
+/**
+ * Formats an item for lists: "2 × 9-inch cake pan, or springform pan (optional)"
+ */
+export function formatEquipmentItem(item: EquipmentItem): string {
+  const quantity = item.quantity && item.quantity > 1 ? `${item.quantity} × ` : '';
+  const size = item.size?.trim() ? `${item.size.trim()} ` : '';
+  const alternatives = (item.alternatives ?? []).map((alt) => alt.trim()).filter(Boolean);
+  return [
+    `${quantity}${size}${item.name.trim()}`,
+    ...alternatives.map((alt) => `or ${alt}`),
+  ].join(', ') + (item.optional ? ' (optional)' : '');
+}
+
+/**
+ * Resolves a step's `equipment` ids to items, skipping unknown ids
+ */
+export function stepEquipment(step: unknown, equipment: EquipmentItem[]): EquipmentItem[] {
+  if (!isObject(step) || !Array.isArray(step.equipment)) return [];
+  return step.equipment
+    .map((id) => equipment.find((item) => item.id === id))
+    .filter((item): item is EquipmentItem => item !== undefined);
+}
+
+/**
+ * Drops step references to equipment that existed in `previous` but was
+ * removed in `next`
+ */
+export function removeDeletedEquipmentRefs(previous: SoustackLiteRecipe, next: SoustackLiteRecipe): SoustackLiteRecipe {
+  const remaining = new Set(readEquipment(next).map((item) => item.id));
+  const deleted = new Set(
+    readEquipment(previous)
+      .map((item) => item.id)
+      .filter((id): id is string => !!id && !remaining.has(id))
+  );
+  if (deleted.size === 0 || !Array.isArray(next.instructions)) return next;
+
+  let changed = false;
+  const prune = (step: unknown): unknown => {
+    if (!isObject(step)) return step;
+    if (isObject(step.section) && Array.isArray(step.section.items)) {
+      return { ...step, section: { ...step.section, items: step.section.items.map(prune) } };
+    }
+    if (!Array.isArray(step.equipment)) return step;
+    const kept = step.equipment.filter((id) => !(typeof id === 'string' && deleted.has(id)));
+    if (kept.length === step.equipment.length) return step;
+    changed = true;
+    return { ...step, equipment: kept };
+  };
+  const instructions = next.instructions.map(prune);
+  return changed ? { ...next, instructions } : next;
+}
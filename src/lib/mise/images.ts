@@ -0,0 +1,108 @@
+import type { RecipeImage, SoustackLiteRecipe } from './types';
+import { isObject } from './json';
+import { sectionOf } from './sections';
+
+/**
+ * Widths every upload is resized to (never upscaled)
+ */
+export const IMAGE_WIDTHS = [480, 960, 1600] as const;
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * An image without alt text, with the editor anchor to jump to
+ */
+export type ImageWithoutAlt = {
+  target: string; // "images" for recipe images, "step:2" / "step:2.1" for steps
+  label: string;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Returns a message when a file cannot be uploaded, null when it can
+ */
+export function checkImageFile(file: { type: string; size: number }): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) return 'Use a JPEG, PNG or WebP image.';
+  if (file.size > MAX_IMAGE_BYTES) return 'Images must be 10 MB or smaller.';
+  return null;
+}
+
+/**
+ * Widths to store for an image: every fixed width below its natural
+ * width, or the natural width alone for images smaller than all of them
+ */
+export function variantWidths(naturalWidth: number): number[] {
+  if (!Number.isFinite(naturalWidth) || naturalWidth <= 0) return [];
+  const widths = IMAGE_WIDTHS.filter((width) => width <= naturalWidth);
+  return widths.length > 0 ? widths : [Math.round(naturalWidth)];
+}
+
+/**
+ * Storage key for one width: "<owner>/<image>/960.jpg"
+ */
+export function imageVariantKey(ownerId: string, imageId: string, width: number, contentType: string): string {
+  return `${ownerId}/${imageId}/${width}.${EXTENSIONS[contentType] ?? 'bin'}`;
+}
+
+/**
+ * srcset for responsive rendering, or undefined for images without variants
+ */
+export function imageSrcSet(image: RecipeImage): string | undefined {
+  if (!Array.isArray(image.variants) || image.variants.length === 0) return undefined;
+  return [...image.variants]
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
+
+/**
+ * Reads an images field, keeping entries with a url
+ */
+export function readImages(value: unknown): RecipeImage[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (image): image is RecipeImage => isObject(image) && typeof image.url === 'string' && image.url.trim() !== ''
+  );
+}
+
+/**
+ * Lists recipe and step images that have no alt text
+ */
+export function listImagesWithoutAlt(recipe: SoustackLiteRecipe): ImageWithoutAlt[] {
+  const missing: ImageWithoutAlt[] = [];
+  const check = (images: RecipeImage[], target: string, owner: string) => {
+    images.forEach((image, idx) => {
+      if (!image.alt?.trim()) missing.push({ target, label: `${owner} image ${idx + 1}` });
+    });
+  };
+
+  check(readImages(recipe.images), 'images', 'Recipe');
+
+  let number = 0;
+  const visit = (item: unknown, path: string) => {
+    if (typeof item === 'string') {
+      if (item.trim() && item.trim() !== '(not provided)') number++;
+      return;
+    }
+    if (!isObject(item) || typeof item.text !== 'string') return;
+    number++;
+    check(readImages(item.images), `step:${path}`, `Step ${number}`);
+  };
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+  instructions.forEach((item, index) => {
+    const section = sectionOf(item);
+    if (section) {
+      section.items.forEach((entry, entryIndex) => visit(entry, `${index}.${entryIndex}`));
+    } else {
+      visit(item, String(index));
+    }
+  });
+  return missing;
+}
@@ -0,0 +1,91 @@
+import type { SoustackLiteRecipe } from './types';
+import { listIngredientRefs } from './ingredientRefs';
+import type { IngredientRef } from './ingredientRefs';
+import { isObject } from './json';
+import { sectionOf } from './sections';
+
+/**
+ * A step located by its path in the instruction list: "2" for a top-level
+ * step, "2.1" for the second item of the section at index 2
+ */
+export type StepLocation = {
+  path: string;
+  number: number; // 1-based position in the flattened step list
+  text: string;
+};
+
+export type IngredientUsageAudit = {
+  unused: IngredientRef[];
+  missing: Array<{ step: StepLocation; input: string }>;
+  unsplit: Array<{ ingredient: IngredientRef; steps: StepLocation[] }>;
+};
+
+type StepWithInputs = StepLocation & { inputs: string[] };
+
+// "half the butter", "the remaining flour", "1/3 of the sauce", "100 g sugar"
+const PORTION_PATTERN =
+  /\b(half|halves|third|quarter|remaining|rest of|reserved|another|some of)\b|\d+\s*\/\s*\d+|[½⅓⅔¼¾⅛]|\b\d+(?:\.\d+)?\s*(?:g|kg|ml|l|tbsp|tsp|cups?|oz|lb)\b/i;
+
+function stepInputs(item: unknown): string[] {
+  if (!isObject(item) || !Array.isArray(item.inputs)) return [];
+  return item.inputs.filter((input): input is string => typeof input === 'string' && input.trim() !== '');
+}
+
+function collectSteps(instructions: unknown[]): StepWithInputs[] {
+  const steps: StepWithInputs[] = [];
+  const add = (item: unknown, path: string) => {
+    if (typeof item === 'string') {
+      if (item.trim() && item.trim() !== '(not provided)') {
+        steps.push({ path, number: steps.length + 1, text: item, inputs: [] });
+      }
+      return;
+    }
+    if (isObject(item) && typeof item.text === 'string') {
+      steps.push({ path, number: steps.length + 1, text: item.text, inputs: stepInputs(item) });
+    }
+  };
+
+  instructions.forEach((item, index) => {
+    const section = sectionOf(item);
+    if (section) {
+      section.items.forEach((entry, entryIndex) => add(entry, `${index}.${entryIndex}`));
+    } else {
+      add(item, String(index));
+    }
+  });
+  return steps;
+}
+
+/**
+ * Audits how steps use ingredients (referenced stack): ingredients no step
+ * uses, inputs pointing at ids that do not exist, and ingredients with a
+ * quantity shared by several steps that never say how much each one takes.
+ * Unused ingredients are only reported once some step lists inputs.
+ */
+export function auditIngredientUsage(recipe: SoustackLiteRecipe): IngredientUsageAudit {
+  const refs = listIngredientRefs(recipe);
+  const ids = new Set(refs.map((ref) => ref.id));
+  const steps = collectSteps(Array.isArray(recipe.instructions) ? recipe.instructions : []);
+
+  const usedBy = new Map<string, StepLocation[]>();
+  const missing: IngredientUsageAudit['missing'] = [];
+  for (const { inputs, ...step } of steps) {
+    for (const input of new Set(inputs)) {
+      if (ids.has(input)) usedBy.set(input, [...(usedBy.get(input) ?? []), step]);
+      else missing.push({ step, input });
+    }
+  }
+
+  const anyInputs = steps.some((step) => step.inputs.length > 0);
+  const unused = anyInputs ? refs.filter((ref) => !usedBy.has(ref.id)) : [];
+
+  // One step may take "the rest" implicitly; the others need a portion
+  const unsplit = refs.flatMap((ingredient) => {
+    const using = usedBy.get(ingredient.id) ?? [];
+    if (ingredient.quantity === undefined || using.length < 2) return [];
+    const portioned = using.filter((step) => PORTION_PATTERN.test(step.text)).length;
+    return portioned < using.length - 1 ? [{ ingredient, steps: using }] : [];
+  });
+
+  return { unused, missing, unsplit };
+}
@@ -0,0 +1,275 @@
+import type { IngredientObject, ParsedIngredientLine } from './types';
+
+/**
+ * Lines parsed below this confidence stay as plain strings when compiled.
+ */
+export const STRUCTURED_CONFIDENCE_THRESHOLD = 0.7;
+
+// Unicode vulgar fractions and their textual equivalents
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '¼': '1/4',
+  '¾': '3/4',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+// Mixed fraction first so "1 1/2" is not read as "1"
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?`;
+
+// Leading quantity, optionally a range ("2-3", "2 to 3")
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(?:-|–|—|to)\s*(${NUMBER}))?(?![\d/.])\s*`,
+  'i'
+);
+
+// Unit tokens recognised after a quantity (lowercase, without trailing period)
+const UNIT_WORDS = new Set([
+  'cup', 'cups', 'c',
+  'tablespoon', 'tablespoons', 'tbsp', 'tbsps', 'tbs', 'tbl',
+  'teaspoon', 'teaspoons', 'tsp', 'tsps',
+  'ounce', 'ounces', 'oz',
+  'pound', 'pounds', 'lb', 'lbs',
+  'gram', 'grams', 'g',
+  'kilogram', 'kilograms', 'kg',
+  'milliliter', 'milliliters', 'millilitre', 'millilitres', 'ml',
+  'liter', 'liters', 'litre', 'litres', 'l',
+  'pint', 'pints', 'pt',
+  'quart', 'quarts', 'qt',
+  'gallon', 'gallons', 'gal',
+  'clove', 'cloves',
+  'slice', 'slices',
+  'can', 'cans',
+  'package', 'packages', 'pkg',
+  'pinch', 'pinches',
+  'dash', 'dashes',
+  'bunch', 'bunches',
+  'piece', 'pieces',
+  'stick', 'sticks',
+  'sprig', 'sprigs',
+  'handful', 'handfuls',
+  'head', 'heads',
+  'jar', 'jars',
+]);
+
+// Two-word units are checked before single words
+const FLUID_OUNCE_PATTERN = /^(fl\.?\s*oz\.?|fluid\s+ounces?)(?=\s|$)/i;
+
+const TO_TASTE_PATTERN = /,?\s*\bto\s+taste\b\.?/i;
+const PARENTHETICAL_PATTERN = /\s*\(([^)]*)\)/g;
+
+/**
+ * Replaces unicode fractions with "n/d" so "1½" reads as "1 1/2"
+ */
+function normalizeFractions(text: string): string {
+  return text
+    .replace(/⁄/g, '/')
+    .replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, (ch) => ` ${UNICODE_FRACTIONS[ch]}`)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Converts "1 1/2", "1/2" or "1.5" to a number. Returns NaN when invalid.
+ */
+function parseNumber(token: string): number {
+  const parts = token.trim().split(/\s+/);
+  let total = 0;
+  for (const part of parts) {
+    if (part.includes('/')) {
+      const [num, den] = part.split('/').map(Number);
+      if (!den) return NaN;
+      total += num / den;
+    } else {
+      total += Number(part);
+    }
+  }
+  return Math.round(total * 1000) / 1000;
+}
+
+/**
+ * Reads a unit token at the start of text, returning the unit as written
+ */
+function readUnit(text: string): { unit: string; rest: string } | null {
+  const fluid = text.match(FLUID_OUNCE_PATTERN);
+  if (fluid) {
+    return { unit: fluid[1], rest: text.slice(fluid[0].length).trim() };
+  }
+
+  const word = text.match(/^([A-Za-z]+)\.?(?=\s|$)/);
+  if (!word) return null;
+
+  const token = word[1];
+  // "T" (tablespoon) and "t" (teaspoon) are only meaningful as written
+  const known = token === 'T' || token === 't' || UNIT_WORDS.has(token.toLowerCase());
+  if (!known) return null;
+
+  return { unit: token, rest: text.slice(word[0].length).trim() };
+}
+
+/**
+ * Splits a single ingredient line into quantity, unit, name, prep and toTaste.
+ * Conservative: a line without a quantity or "to taste" gets a low confidence
+ * so callers keep it as a plain string. Never throws.
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const text = typeof line === 'string' ? line.trim() : '';
+  if (!text) {
+    return { text, ingredient: null, confidence: 0 };
+  }
+
+  let rest = normalizeFractions(text);
+
+  // "to taste" can appear anywhere ("salt, to taste", "pepper to taste")
+  const toTaste = TO_TASTE_PATTERN.test(rest);
+  if (toTaste) {
+    rest = rest.replace(TO_TASTE_PATTERN, '').trim();
+  }
+
+  // Parenthetical notes become part of prep ("1 (14 oz) can tomatoes")
+  const notes: string[] = [];
+  rest = rest
+    .replace(PARENTHETICAL_PATTERN, (_match, note: string) => {
+      if (note.trim()) notes.push(note.trim());
+      return '';
+    })
+    .trim();
+
+  let quantity: IngredientObject['quantity'];
+  const quantityMatch = rest.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    const min = parseNumber(quantityMatch[1]);
+    const max = quantityMatch[2] !== undefined ? parseNumber(quantityMatch[2]) : NaN;
+    if (!Number.isNaN(min)) {
+      quantity = !Number.isNaN(max) && max > min ? { min, max } : min;
+      rest = rest.slice(quantityMatch[0].length).trim();
+    }
+  }
+
+  let unit: string | undefined;
+  if (quantity !== undefined) {
+    const unitMatch = readUnit(rest);
+    if (unitMatch) {
+      unit = unitMatch.unit;
+      rest = unitMatch.rest;
+    }
+    rest = rest.replace(/^of\s+/i, '');
+  }
+
+  // Everything after the first comma is preparation
+  const commaIndex = rest.indexOf(',');
+  const name = (commaIndex >= 0 ? rest.slice(0, commaIndex) : rest).trim();
+  const prepParts = commaIndex >= 0 ? [rest.slice(commaIndex + 1).trim()] : [];
+  const prep = [...prepParts, ...notes].filter((part) => part.length > 0).join(', ');
+
+  if (!name) {
+    return { text, ingredient: null, confidence: 0 };
+  }
+
+  let confidence: number;
+  if (quantity !== undefined) {
+    confidence = unit ? 0.95 : 0.85;
+  } else if (toTaste) {
+    confidence = 0.8;
+  } else {
+    confidence = 0.3;
+  }
+  // Long names are usually sentences that slipped into the ingredient list
+  if (name.split(/\s+/).length > 6) {
+    confidence -= 0.3;
+  }
+
+  const ingredient: IngredientObject = {
+    ...(quantity !== undefined && { quantity }),
+    ...(unit && { unit }),
+    name,
+    ...(prep && { prep }),
+    ...(toTaste && { toTaste: true }),
+  };
+
+  return {
+    text,
+    ingredient,
+    confidence: Math.max(0, Math.round(confidence * 100) / 100),
+  };
+}
+
+/**
+ * Converts parsed lines to recipe ingredient items.
+ * Lines below minConfidence are kept as their original text.
+ */
+export function toIngredientItems(
+  lines: ParsedIngredientLine[],
+  minConfidence: number = STRUCTURED_CONFIDENCE_THRESHOLD
+): Array<string | IngredientObject> {
+  return lines.map((line) =>
+    line.ingredient && line.confidence >= minConfidence ? line.ingredient : line.text
+  );
+}
+
+/**
+ * Reads a typed quantity ("2", "1 1/2", "2-3") as a number or range. Empty
+ * text is no quantity; other text comes back as typed so schema validation
+ * can point at it.
+ */
+export function parseQuantity(
+  quantity: IngredientObject['quantity'] | string
+): IngredientObject['quantity'] | string {
+  if (typeof quantity !== 'string') return quantity;
+  const text = normalizeFractions(quantity);
+  if (!text) return undefined;
+
+  const match = text.match(QUANTITY_PATTERN);
+  if (!match || match[0].length !== text.length) return quantity;
+  const min = parseNumber(match[1]);
+  const max = match[2] !== undefined ? parseNumber(match[2]) : NaN;
+  if (Number.isNaN(min)) return quantity;
+  return !Number.isNaN(max) && max > min ? { min, max } : min;
+}
+
+/**
+ * Parses the quantity an editor stored as typed text, dropping it when empty
+ */
+export function withParsedQuantity<T extends { quantity?: IngredientObject['quantity'] | string }>(ingredient: T): T {
+  if (typeof ingredient.quantity !== 'string') return ingredient;
+  const { quantity, ...rest } = ingredient;
+  const parsed = parseQuantity(quantity);
+  return (parsed === undefined ? rest : { ...rest, quantity: parsed }) as T;
+}
+
+/**
+ * Formats a quantity for display ("2", "2-3")
+ */
+export function formatQuantity(quantity: IngredientObject['quantity'] | string | undefined): string {
+  if (quantity === undefined || quantity === null || quantity === '') return '';
+  if (typeof quantity === 'object') {
+    return `${quantity.min}-${quantity.max}`;
+  }
+  return String(quantity);
+}
+
+/**
+ * Formats a structured ingredient back into a single readable line
+ */
+export function formatIngredientLine(ingredient: IngredientObject): string {
+  const parts: string[] = [];
+  const quantity = formatQuantity(ingredient.quantity);
+  if (quantity) parts.push(quantity);
+  if (ingredient.unit) parts.push(ingredient.unit);
+  parts.push(ingredient.name);
+
+  let line = parts.join(' ');
+  if (ingredient.prep) line += `, ${ingredient.prep}`;
+  if (ingredient.toTaste) line += ', to taste';
+  return line;
+}
@@ -0,0 +1,198 @@
+import type { IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine } from './ingredientLine';
+import { isObject, type JsonObject } from './json';
+
+/**
+ * A structured ingredient that steps can reference by id
+ */
+export type IngredientRef = {
+  id: string;
+  name: string;
+  label: string;
+  quantity?: IngredientObject['quantity'];
+};
+
+const ID_PREFIX = 'ing-';
+const ID_PATTERN = /^ing-(\d+)$/;
+
+function isIngredient(value: unknown): value is IngredientObject & JsonObject {
+  return isObject(value) && !('section' in value) && typeof value.name === 'string';
+}
+
+/**
+ * Maps every ingredient (top-level and inside sections), keeping the
+ * array identity when nothing changed
+ */
+function mapIngredients(
+  items: unknown[],
+  fn: (ingredient: IngredientObject & JsonObject) => unknown
+): unknown[] {
+  let changed = false;
+  const next = items.map((item) => {
+    if (isIngredient(item)) {
+      const mapped = fn(item);
+      changed = changed || mapped !== item;
+      return mapped;
+    }
+    if (isObject(item) && isObject(item.section) && Array.isArray(item.section.items)) {
+      const sectionItems = mapIngredients(item.section.items, fn);
+      if (sectionItems === item.section.items) return item;
+      changed = true;
+      return { ...item, section: { ...item.section, items: sectionItems } };
+    }
+    return item;
+  });
+  return changed ? next : items;
+}
+
+/**
+ * Maps every step object (including inside sections), keeping the array
+ * identity when nothing changed
+ */
+function mapSteps(items: unknown[], fn: (step: JsonObject & { text: string }) => unknown): unknown[] {
+  let changed = false;
+  const next = items.map((item) => {
+    if (!isObject(item)) return item;
+    if (isObject(item.section) && Array.isArray(item.section.items)) {
+      const sectionItems = mapSteps(item.section.items, fn);
+      if (sectionItems === item.section.items) return item;
+      changed = true;
+      return { ...item, section: { ...item.section, items: sectionItems } };
+    }
+    if (typeof item.text !== 'string') return item;
+    const mapped = fn(item as JsonObject & { text: string });
+    changed = changed || mapped !== item;
+    return mapped;
+  });
+  return changed ? next : items;
+}
+
+function collectIngredients(recipe: SoustackLiteRecipe): Array<IngredientObject & JsonObject> {
+  const found: Array<IngredientObject & JsonObject> = [];
+  mapIngredients(Array.isArray(recipe.ingredients) ? recipe.ingredients : [], (ingredient) => {
+    found.push(ingredient);
+    return ingredient;
+  });
+  return found;
+}
+
+function withInstructions(recipe: SoustackLiteRecipe, instructions: unknown[]): SoustackLiteRecipe {
+  return instructions === recipe.instructions ? recipe : { ...recipe, instructions };
+}
+
+/**
+ * Lists structured ingredients that carry an id, for pickers and lookups
+ */
+export function listIngredientRefs(recipe: SoustackLiteRecipe): IngredientRef[] {
+  return collectIngredients(recipe)
+    .filter((ingredient) => typeof ingredient.id === 'string' && ingredient.id && ingredient.name.trim())
+    .map((ingredient) => ({
+      id: ingredient.id as string,
+      name: ingredient.name.trim(),
+      label: formatIngredientLine(ingredient),
+      ...(ingredient.quantity !== undefined && { quantity: ingredient.quantity }),
+    }));
+}
+
+/**
+ * Gives every named structured ingredient a stable id ("ing-3"). Ids are
+ * opaque and never change on rename, so step inputs survive edits.
+ * Returns the same recipe when all ingredients already have ids.
+ */
+export function assignIngredientIds(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  const taken = new Set(collectIngredients(recipe).map((ingredient) => ingredient.id).filter(Boolean));
+  let counter = Array.from(taken).reduce((max, id) => {
+    const match = String(id).match(ID_PATTERN);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+
+  const next = mapIngredients(ingredients, (ingredient) => {
+    if ((typeof ingredient.id === 'string' && ingredient.id) || !ingredient.name.trim()) return ingredient;
+    let id = `${ID_PREFIX}${++counter}`;
+    while (taken.has(id)) id = `${ID_PREFIX}${++counter}`;
+    taken.add(id);
+    return { ...ingredient, id };
+  });
+  return next === ingredients ? recipe : { ...recipe, ingredients: next };
+}
+
+/**
+ * Assigns ids and rewrites inputs typed as ingredient names to the
+ * matching ids. Returns the same recipe when nothing changed.
+ */
+export function normalizeIngredientRefs(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  const withIds = assignIngredientIds(recipe);
+  const refs = listIngredientRefs(withIds);
+  const ids = new Set(refs.map((ref) => ref.id));
+  const byName = new Map(refs.map((ref) => [ref.name.toLowerCase(), ref.id]));
+
+  const instructions = mapSteps(Array.isArray(withIds.instructions) ? withIds.instructions : [], (step) => {
+    if (!Array.isArray(step.inputs)) return step;
+    const inputs = step.inputs as unknown[];
+    const mapped = inputs.map((input) => {
+      if (typeof input !== 'string' || ids.has(input)) return input;
+      return byName.get(input.trim().toLowerCase()) ?? input;
+    });
+    return mapped.some((input, i) => input !== inputs[i]) ? { ...step, inputs: mapped } : step;
+  });
+  return withInstructions(withIds, instructions);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(text: string, phrase: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(phrase)}(?:e?s)?\\b`, 'i').test(text);
+}
+
+/**
+ * Adds the ids of ingredients named in each step's text to its inputs.
+ * A step matches an ingredient by its full name, or by its last word
+ * ("flour" for "all-purpose flour") when no other ingredient shares it.
+ * Existing inputs are kept.
+ */
+export function autoLinkInputs(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  const refs = listIngredientRefs(recipe);
+  const headCounts = new Map<string, number>();
+  const heads = refs.map((ref) => {
+    const head = ref.name.toLowerCase().split(/\s+/).pop() ?? '';
+    headCounts.set(head, (headCounts.get(head) ?? 0) + 1);
+    return head;
+  });
+
+  const instructions = mapSteps(Array.isArray(recipe.instructions) ? recipe.instructions : [], (step) => {
+    const existing = Array.isArray(step.inputs)
+      ? step.inputs.filter((input): input is string => typeof input === 'string' && input !== '')
+      : [];
+    const found = refs
+      .filter((ref, i) => {
+        if (mentions(step.text, ref.name)) return true;
+        const head = heads[i];
+        return head.length >= 3 && headCounts.get(head) === 1 && mentions(step.text, head);
+      })
+      .map((ref) => ref.id)
+      .filter((id) => !existing.includes(id));
+    return found.length > 0 ? { ...step, inputs: [...existing, ...found] } : step;
+  });
+  return withInstructions(recipe, instructions);
+}
+
+/**
+ * Drops step inputs pointing at ingredients that existed in `previous` but
+ * were deleted in `next`, so deleting an ingredient never leaves dangling
+ * references behind
+ */
+export function removeDeletedIngredientRefs(previous: SoustackLiteRecipe, next: SoustackLiteRecipe): SoustackLiteRecipe {
+  const remaining = new Set(listIngredientRefs(next).map((ref) => ref.id));
+  const deleted = new Set(listIngredientRefs(previous).map((ref) => ref.id).filter((id) => !remaining.has(id)));
+  if (deleted.size === 0) return next;
+
+  const instructions = mapSteps(Array.isArray(next.instructions) ? next.instructions : [], (step) => {
+    if (!Array.isArray(step.inputs)) return step;
+    const inputs = step.inputs.filter((input) => !(typeof input === 'string' && deleted.has(input)));
+    return inputs.length === step.inputs.length ? step : { ...step, inputs };
+  });
+  return withInstructions(next, instructions);
+}
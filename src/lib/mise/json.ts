@@ -0,0 +1,12 @@
+/**
+ * Helpers for reading untyped JSON: stored docs, imports, stack data
+ */
+
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Plain JSON object (not null, not an array)
+ */
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,6 +1,75 @@
-import type { SoustackLiteRecipe } from './types';
+import type {
+  IngredientObject,
+  ParseResult,
+  ParseSources,
+  ParsedSection,
+  RecipeSection,
+  RecipeTimes,
+  RecipeYield,
+  SoustackLiteRecipe,
+} from './types';
+import { toIngredientItems } from './ingredientLine';
+import { SOUSTACK_SCHEMA_URL } from './soustackSchemas';
 
-const CANONICAL_SCHEMA_URL = 'https://soustack.spec/soustack.schema.json';
+type IngredientInput = string | IngredientObject;
+type InstructionInput = string | { text: string; [key: string]: unknown };
+
+/**
+ * Checks whether an item carries any user content
+ */
+function hasContent(item: unknown): boolean {
+  if (typeof item === 'string') {
+    return item.trim().length > 0;
+  }
+  if (typeof item === 'object' && item !== null) {
+    if ('section' in item) {
+      return (item as RecipeSection<unknown>).section.items.some(hasContent);
+    }
+    if ('name' in item) {
+      return String((item as IngredientObject).name).trim().length > 0;
+    }
+    if ('text' in item) {
+      return String((item as { text: unknown }).text).trim().length > 0;
+    }
+  }
+  return false;
+}
+
+/**
+ * Drops empty items, including empty entries inside sections
+ */
+function filterItems<T>(items: Array<T | RecipeSection<T>> | null | undefined): Array<T | RecipeSection<T>> {
+  return (items || [])
+    .filter(hasContent)
+    .map((item) => {
+      if (typeof item === 'object' && item !== null && 'section' in item) {
+        const section = (item as RecipeSection<T>).section;
+        return { section: { name: section.name, items: section.items.filter(hasContent) } };
+      }
+      return item;
+    });
+}
+
+/**
+ * Groups a flat list into sections. Items outside every section stay top-level.
+ */
+function groupSections<T>(items: T[], sections: ParsedSection[]): Array<T | RecipeSection<T>> {
+  const grouped: Array<T | RecipeSection<T>> = [];
+  let index = 0;
+  for (const section of [...sections].sort((a, b) => a.start - b.start)) {
+    while (index < section.start && index < items.length) {
+      grouped.push(items[index++]);
+    }
+    grouped.push({
+      section: { name: section.name, items: items.slice(section.start, section.end) },
+    });
+    index = Math.max(index, section.end);
+  }
+  while (index < items.length) {
+    grouped.push(items[index++]);
+  }
+  return grouped;
+}
 
 /**
  * Compiles parse results into an always-valid Soustack Lite recipe.
@@ -9,21 +78,25 @@ const CANONICAL_SCHEMA_URL = 'https://soustack.spec/soustack.schema.json';
 export function compileLiteRecipe(input: {
   name?: string | null;
   description?: string | null;
-  ingredients?: string[] | null;
-  instructions?: string[] | null;
-  meta?: { confidence?: number; mode?: string };
+  ingredients?: Array<IngredientInput | RecipeSection<IngredientInput>> | null;
+  instructions?: Array<InstructionInput | RecipeSection<InstructionInput>> | null;
+  yield?: RecipeYield | null;
+  time?: RecipeTimes | null;
+  meta?: { confidence?: number; mode?: string; sources?: ParseSources };
 }): SoustackLiteRecipe {
   const name = input.name?.trim() || 'Untitled Recipe';
   const description = input.description?.trim() || undefined;
-  const ingredients = input.ingredients?.filter((item) => item.trim().length > 0) || [];
-  const instructions = input.instructions?.filter((item) => item.trim().length > 0) || [];
+  const ingredients = filterItems(input.ingredients);
+  const instructions = filterItems(input.instructions);
 
   const recipe: SoustackLiteRecipe = {
-    $schema: CANONICAL_SCHEMA_URL,
+    $schema: SOUSTACK_SCHEMA_URL,
     profile: 'lite',
     stacks: {},
     name,
     ...(description && { description }),
+    ...(input.yield && { yield: input.yield }),
+    ...(input.time && Object.keys(input.time).length > 0 && { time: input.time }),
     ingredients: ingredients.length > 0 ? ingredients : ['(not provided)'],
     instructions: instructions.length > 0 ? instructions : ['(not provided)'],
   };
@@ -34,6 +107,7 @@ export function compileLiteRecipe(input: {
       parse: {
         confidence: input.meta.confidence ?? 0.0,
         mode: input.meta.mode ?? 'unknown',
+        ...(input.meta.sources && { sources: input.meta.sources }),
       },
     };
   }
@@ -41,3 +115,25 @@ export function compileLiteRecipe(input: {
   return recipe;
 }
 
+/**
+ * Compiles a parseFreeform result: structures confident ingredient lines,
+ * regroups sub-sections and carries yield, times and source lines. Never throws.
+ */
+export function compileParseResult(
+  parse: ParseResult,
+  options: { description?: string | null } = {}
+): SoustackLiteRecipe {
+  return compileLiteRecipe({
+    name: parse.title,
+    description: options.description,
+    ingredients: groupSections(toIngredientItems(parse.parsedIngredients), parse.ingredientSections),
+    instructions: groupSections(parse.instructions, parse.instructionSections),
+    yield: parse.yield,
+    time: parse.time,
+    meta: {
+      confidence: parse.confidence,
+      mode: parse.mode,
+      sources: parse.sources,
+    },
+  });
+}
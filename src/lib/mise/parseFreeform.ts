@@ -1,9 +1,33 @@
-import type { ParseResult } from './types';
+import type {
+  LineOverrides,
+  ParseResult,
+  ParseSources,
+  ParsedSection,
+  RecipeTimes,
+  RecipeYield,
+  SourceLineRange,
+} from './types';
+import { parseIngredientLine } from './ingredientLine';
+import { parseMetaLine } from './recipeMeta';
 
 // Header patterns (case-insensitive, allow trailing colon)
 const INGREDIENT_HEADERS = /^(ingredients?|ingredient\s+list)\s*:?\s*$/i;
 const INSTRUCTION_HEADERS = /^(instructions?|directions?|method|steps?)\s*:?\s*$/i;
 
+// Named list headers ("Dough ingredients:", "Instructions for the filling:")
+const NAMED_INGREDIENT_HEADER =
+  /^(?:([a-z][^:]*?)\s+ingredients?|ingredients?\s+for\s+(?:the\s+)?([^:]+?))\s*:\s*$/i;
+const NAMED_INSTRUCTION_HEADER =
+  /^(?:([a-z][^:]*?)\s+(?:instructions?|directions?|method|steps?)|(?:instructions?|directions?|method|steps?)\s+for\s+(?:the\s+)?([^:]+?))\s*:\s*$/i;
+
+// Sub-section headers ("For the dough:", "Filling:"). A bare "Name:" line
+// only counts when list items follow it, so "Note:" or "Tip:" stay content.
+const FOR_THE_HEADER = /^for\s+the\s+([^,.:;]+?)\s*(:?)\s*$/i;
+const SHORT_COLON_HEADER = /^([a-z][^:]*?)\s*:\s*$/i;
+
+// Longest section name we accept, in words
+const MAX_SECTION_WORDS = 5;
+
 // List prefix patterns
 const LIST_PREFIX = /^[\s]*[-*•]\s+|^[\s]*\d+[.)]\s+/;
 
@@ -42,6 +66,108 @@ function isIngredientLike(line: string): boolean {
   return false;
 }
 
+export type HeaderMatch = {
+  kind: 'ingredients' | 'instructions' | null; // null for a bare sub-header
+  section: string | null; // null for a top-level header
+};
+
+/**
+ * Classifies a line as a top-level header, a named list header or a
+ * sub-section header. Returns null for ordinary content lines. `next` is
+ * the following non-empty line, needed to tell "Filling:" from "Note:".
+ */
+export function matchHeader(line: string, next?: string): HeaderMatch | null {
+  if (INGREDIENT_HEADERS.test(line)) return { kind: 'ingredients', section: null };
+  if (INSTRUCTION_HEADERS.test(line)) return { kind: 'instructions', section: null };
+
+  // Content lines with list prefixes are never headers
+  if (LIST_PREFIX.test(line)) return null;
+
+  const isShortName = (name: string) => name.split(/\s+/).length <= MAX_SECTION_WORDS;
+
+  const namedIngredients = line.match(NAMED_INGREDIENT_HEADER);
+  if (namedIngredients) {
+    const name = (namedIngredients[1] || namedIngredients[2]).trim();
+    if (isShortName(name)) return { kind: 'ingredients', section: name };
+  }
+
+  const namedInstructions = line.match(NAMED_INSTRUCTION_HEADER);
+  if (namedInstructions) {
+    const name = (namedInstructions[1] || namedInstructions[2]).trim();
+    if (isShortName(name)) return { kind: 'instructions', section: name };
+  }
+
+  // "For the dough" only counts without a colon when it is very short
+  const forThe = line.match(FOR_THE_HEADER);
+  if (forThe) {
+    const words = forThe[1].split(/\s+/).length;
+    if (words <= (forThe[2] ? MAX_SECTION_WORDS : 3)) {
+      return { kind: null, section: line.replace(/\s*:\s*$/, '') };
+    }
+  }
+
+  const shortColon = line.match(SHORT_COLON_HEADER);
+  const listFollows = next !== undefined && (hasListPrefix(next) || isIngredientLike(next));
+  if (shortColon && isShortName(shortColon[1]) && listFollows) {
+    return { kind: null, section: shortColon[1].trim() };
+  }
+
+  return null;
+}
+
+/**
+ * A non-empty raw line and its position in the original text
+ */
+type SourceLine = {
+  text: string;
+  index: number;
+};
+
+function headerAt(lines: SourceLine[], i: number): HeaderMatch | null {
+  return matchHeader(lines[i].text, lines[i + 1]?.text);
+}
+
+type LineCollector = {
+  lines: string[];
+  sources: SourceLineRange[]; // parallel to lines
+  sections: ParsedSection[];
+  open: ParsedSection | null; // section that new lines extend
+};
+
+function createCollector(): LineCollector {
+  return { lines: [], sources: [], sections: [], open: null };
+}
+
+function sourceRange(line: SourceLine): SourceLineRange {
+  return { start: line.index, end: line.index + 1 };
+}
+
+function emptySources(): ParseSources {
+  return { title: null, ingredients: [], instructions: [], meta: [] };
+}
+
+/**
+ * Appends a line to a list, opening a new section first when one is pending
+ */
+function collect(target: LineCollector, line: SourceLine, sectionName: string | null): void {
+  if (sectionName !== null) {
+    target.open = { name: sectionName, start: target.lines.length, end: target.lines.length };
+    target.sections.push(target.open);
+  }
+  target.lines.push(stripListPrefix(line.text));
+  target.sources.push(sourceRange(line));
+  if (target.open) {
+    target.open.end = target.lines.length;
+  }
+}
+
+/**
+ * Checks for a bullet or numbered list prefix
+ */
+export function hasListPrefix(line: string): boolean {
+  return LIST_PREFIX.test(line);
+}
+
 /**
  * Strips list prefixes from a line
  */
@@ -50,39 +176,65 @@ function stripListPrefix(line: string): string {
 }
 
 /**
- * Normalizes newlines and splits into lines
+ * Normalizes newlines and splits into non-empty lines, keeping line numbers
  */
-function normalizeLines(text: string): string[] {
+function normalizeLines(text: string): SourceLine[] {
   return text
     .replace(/\r\n/g, '\n')
     .replace(/\r/g, '\n')
     .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+    .map((line, index) => ({ text: line.trim(), index }))
+    .filter((line) => line.text.length > 0);
 }
 
 /**
  * Parses freeform recipe text into structured components.
  * Conservative, explainable rules. Never throws.
+ * `overrides` force matching lines into a list regardless of the rules.
  */
-export function parseFreeform(text: string): ParseResult {
+export function parseFreeform(text: string, options: { overrides?: LineOverrides } = {}): ParseResult {
+  const overrides = options.overrides || {};
+
   if (!text || typeof text !== 'string') {
     return {
       title: null,
       ingredients: [],
+      parsedIngredients: [],
+      ingredientSections: [],
       instructions: [],
+      instructionSections: [],
+      yield: null,
+      time: null,
+      sources: emptySources(),
       confidence: 0.1,
       mode: 'fallback',
     };
   }
 
-  const lines = normalizeLines(text);
+  // Yield and time lines are facts about the recipe, not list items
+  let recipeYield: RecipeYield | null = null;
+  let recipeTime: RecipeTimes | null = null;
+  const metaSources: SourceLineRange[] = [];
+  const lines = normalizeLines(text).filter((line) => {
+    const meta = overrides[line.text] ? null : parseMetaLine(line.text);
+    if (!meta) return true;
+    if (meta.yield && !recipeYield) recipeYield = meta.yield;
+    if (meta.time) recipeTime = { ...meta.time, ...recipeTime };
+    metaSources.push(sourceRange(line));
+    return false;
+  });
 
   if (lines.length === 0) {
     return {
       title: null,
       ingredients: [],
+      parsedIngredients: [],
+      ingredientSections: [],
       instructions: [],
+      instructionSections: [],
+      yield: recipeYield,
+      time: recipeTime,
+      sources: { ...emptySources(), meta: metaSources },
       confidence: 0.1,
       mode: 'fallback',
     };
@@ -93,10 +245,11 @@ export function parseFreeform(text: string): ParseResult {
   let instructionsHeaderIndex = -1;
 
   for (let i = 0; i < lines.length; i++) {
-    if (INGREDIENT_HEADERS.test(lines[i])) {
+    const header = overrides[lines[i].text] ? null : headerAt(lines, i);
+    if (header?.kind === 'ingredients') {
       ingredientsHeaderIndex = i;
     }
-    if (INSTRUCTION_HEADERS.test(lines[i])) {
+    if (header?.kind === 'instructions') {
       instructionsHeaderIndex = i;
     }
   }
@@ -105,9 +258,10 @@ export function parseFreeform(text: string): ParseResult {
 
   if (hasExplicitHeaders) {
     // Parse with explicit sections
-    const titleLines: string[] = [];
-    const ingredientLines: string[] = [];
-    const instructionLines: string[] = [];
+    const titleLines: SourceLine[] = [];
+    const ingredients = createCollector();
+    const instructions = createCollector();
+    let pendingSection: string | null = null;
 
     let currentSection: 'title' | 'ingredients' | 'instructions' = 'title';
     const hasIngredientsHeader = ingredientsHeaderIndex >= 0;
@@ -116,13 +270,26 @@ export function parseFreeform(text: string): ParseResult {
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
+      // Manually routed lines bypass every rule
+      const forced = overrides[line.text];
+      if (forced) {
+        collect(forced === 'ingredients' ? ingredients : instructions, line, null);
+        continue;
+      }
+
       // Skip header lines
-      if (INGREDIENT_HEADERS.test(line) || INSTRUCTION_HEADERS.test(line)) {
-        if (INGREDIENT_HEADERS.test(line)) {
+      const header = headerAt(lines, i);
+      if (header) {
+        if (header.kind) {
+          currentSection = header.kind;
+          // Top-level headers close any open sub-section
+          ingredients.open = null;
+          instructions.open = null;
+        } else if (currentSection === 'title') {
+          // Sub-headers before any list header group ingredients
           currentSection = 'ingredients';
-        } else if (INSTRUCTION_HEADERS.test(line)) {
-          currentSection = 'instructions';
         }
+        pendingSection = header.section;
         continue;
       }
 
@@ -132,8 +299,8 @@ export function parseFreeform(text: string): ParseResult {
         currentSection === 'ingredients' &&
         hasIngredientsHeader &&
         !hasInstructionsHeader &&
-        ingredientLines.length > 0 &&
-        !isIngredientLike(line)
+        ingredients.lines.length > 0 &&
+        !isIngredientLike(line.text)
       ) {
         currentSection = 'instructions';
       }
@@ -142,62 +309,91 @@ export function parseFreeform(text: string): ParseResult {
       if (currentSection === 'title') {
         titleLines.push(line);
       } else if (currentSection === 'ingredients') {
-        ingredientLines.push(stripListPrefix(line));
+        collect(ingredients, line, pendingSection);
+        pendingSection = null;
       } else if (currentSection === 'instructions') {
-        instructionLines.push(stripListPrefix(line));
+        collect(instructions, line, pendingSection);
+        pendingSection = null;
       }
     }
 
-    const title = titleLines.length > 0 ? titleLines[0] : null;
+    const title = titleLines.length > 0 ? titleLines[0].text : null;
 
     return {
       title,
-      ingredients: ingredientLines,
-      instructions: instructionLines,
+      ingredients: ingredients.lines,
+      parsedIngredients: ingredients.lines.map(parseIngredientLine),
+      ingredientSections: ingredients.sections,
+      instructions: instructions.lines,
+      instructionSections: instructions.sections,
+      yield: recipeYield,
+      time: recipeTime,
+      sources: {
+        title: titleLines.length > 0 ? sourceRange(titleLines[0]) : null,
+        ingredients: ingredients.sources,
+        instructions: instructions.sources,
+        meta: metaSources,
+      },
       confidence: 0.85,
       mode: 'explicit-sections',
     };
   }
 
   // No explicit headers - use heuristics
-  const ingredientLines: string[] = [];
-  const instructionLines: string[] = [];
+  const ingredients = createCollector();
+  const instructions = createCollector();
+  let pendingSection: string | null = null;
 
-  // Check if early lines are ingredient-heavy
-  const earlyLines = lines.slice(0, Math.min(5, lines.length));
-  const ingredientCount = earlyLines.filter(isIngredientLike).length;
+  // Check if early lines are ingredient-heavy (sub-headers don't count either way)
+  const earlyLines = lines.filter((_, i) => !headerAt(lines, i)).slice(0, 5);
+  const ingredientCount = earlyLines.filter((line) => isIngredientLike(line.text)).length;
   const isIngredientHeavy = ingredientCount >= 2;
 
-  if (isIngredientHeavy) {
-    // Collect ingredients until a clear instruction-like line appears
-    let foundInstructions = false;
+  // Collect ingredients until a clear instruction-like line appears
+  let foundInstructions = !isIngredientHeavy;
 
-    for (const line of lines) {
-      const stripped = stripListPrefix(line);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const forced = overrides[line.text];
+    if (forced) {
+      collect(forced === 'ingredients' ? ingredients : instructions, line, null);
+      continue;
+    }
 
-      if (!foundInstructions && isIngredientLike(line)) {
-        ingredientLines.push(stripped);
-      } else {
-        foundInstructions = true;
-        instructionLines.push(stripped);
-      }
+    const header = headerAt(lines, i);
+    if (header) {
+      pendingSection = header.section;
+      continue;
     }
-  } else {
-    // Treat all as instructions
-    for (const line of lines) {
-      instructionLines.push(stripListPrefix(line));
+
+    if (!foundInstructions && isIngredientLike(line.text)) {
+      collect(ingredients, line, pendingSection);
+    } else {
+      foundInstructions = true;
+      collect(instructions, line, pendingSection);
     }
+    pendingSection = null;
   }
 
   // Title is first non-empty line
-  const title = lines.length > 0 ? lines[0] : null;
+  const title = lines.length > 0 ? lines[0].text : null;
 
   return {
     title,
-    ingredients: ingredientLines,
-    instructions: instructionLines,
+    ingredients: ingredients.lines,
+    parsedIngredients: ingredients.lines.map(parseIngredientLine),
+    ingredientSections: ingredients.sections,
+    instructions: instructions.lines,
+    instructionSections: instructions.sections,
+    yield: recipeYield,
+    time: recipeTime,
+    sources: {
+      title: sourceRange(lines[0]),
+      ingredients: ingredients.sources,
+      instructions: instructions.sources,
+      meta: metaSources,
+    },
     confidence: 0.55,
     mode: 'heuristic',
   };
 }
-
@@ -0,0 +1,167 @@
+import type { SoustackLiteRecipe, SoustackProfile } from './types';
+import { VALID_SOUSTACK_PROFILES } from './types';
+import { isStackEnabled } from './stacks';
+import { readEquipment } from './equipment';
+import { readImages } from './images';
+import { isObject } from './json';
+import { flattenSections } from './sections';
+
+/**
+ * One condition a profile puts on a recipe
+ */
+export type ProfileRequirement = {
+  id: string;
+  message: string;
+  met: boolean;
+};
+
+/**
+ * The strongest profile a recipe satisfies, every profile it satisfies,
+ * and what the next unsatisfied one up still needs
+ */
+export type ProfileReport = {
+  profile: SoustackProfile;
+  satisfied: SoustackProfile[]; // in VALID_SOUSTACK_PROFILES order
+  next: SoustackProfile | null;
+  missing: ProfileRequirement[]; // unmet requirements of `next`
+};
+
+function isShown(text: unknown): boolean {
+  return typeof text === 'string' && text.trim() !== '' && text.trim() !== '(not provided)';
+}
+
+/**
+ * Items of a list with sections flattened and placeholders dropped
+ */
+function flatten(items: unknown): unknown[] {
+  return flattenSections(items).filter((item) =>
+    isObject(item) ? isShown(item.name) || isShown(item.text) : isShown(item)
+  );
+}
+
+function hasQuantity(ingredient: unknown): boolean {
+  if (!isObject(ingredient) || typeof ingredient.name !== 'string') return false;
+  if (ingredient.toTaste === true) return true;
+  if (isObject(ingredient.scaling) && ingredient.scaling.mode === 'toTaste') return true;
+  return typeof ingredient.quantity === 'number' || isObject(ingredient.quantity);
+}
+
+function hasDuration(step: unknown): boolean {
+  if (!isObject(step) || !isObject(step.timing) || !isObject(step.timing.duration)) return false;
+  const duration = step.timing.duration;
+  return [duration.minutes, duration.minMinutes, duration.maxMinutes].some(
+    (minutes) => typeof minutes === 'number' && minutes > 0
+  );
+}
+
+function stackRequirement(recipe: SoustackLiteRecipe, key: string): ProfileRequirement {
+  return {
+    id: `${key}-stack`,
+    message: `Enable the ${key} stack`,
+    met: isStackEnabled(recipe.stacks, key),
+  };
+}
+
+/**
+ * Requirements a profile adds on top of base. Base adds its own on top of
+ * lite; the profiles above base are independent of each other.
+ */
+export function profileRequirements(recipe: SoustackLiteRecipe, profile: SoustackProfile): ProfileRequirement[] {
+  const ingredients = flatten(recipe.ingredients);
+  const steps = flatten(recipe.instructions);
+  const miseEnPlace = (recipe as SoustackLiteRecipe & { miseEnPlace?: unknown[] }).miseEnPlace;
+
+  switch (profile) {
+    case 'lite':
+      return [];
+    case 'base':
+      return [
+        { id: 'name', message: 'Give the recipe a name', met: isShown(recipe.name) && recipe.name !== 'Untitled Recipe' },
+        { id: 'ingredients', message: 'List at least one ingredient', met: ingredients.length > 0 },
+        { id: 'instructions', message: 'Add at least one step', met: steps.length > 0 },
+      ];
+    case 'scalable':
+      return [
+        stackRequirement(recipe, 'scaling'),
+        { id: 'yield', message: 'Set the yield', met: !!recipe.yield },
+        {
+          id: 'ingredient-quantities',
+          message: 'Give every ingredient a structured quantity (or mark it to taste)',
+          met: ingredients.length > 0 && ingredients.every(hasQuantity),
+        },
+      ];
+    case 'timed':
+      return [
+        stackRequirement(recipe, 'timed'),
+        {
+          id: 'step-durations',
+          message: 'Give every step a duration',
+          met: steps.length > 0 && steps.every(hasDuration),
+        },
+      ];
+    case 'equipped':
+      return [
+        stackRequirement(recipe, 'equipment'),
+        { id: 'equipment', message: 'List the equipment', met: readEquipment(recipe).length > 0 },
+      ];
+    case 'prepped':
+      return [
+        stackRequirement(recipe, 'prep'),
+        {
+          id: 'mise-en-place',
+          message: 'Add mise en place items',
+          met: Array.isArray(miseEnPlace) && miseEnPlace.some((item) => isObject(item) && isShown(item.text)),
+        },
+      ];
+    case 'illustrated': {
+      const images = readImages(recipe.images);
+      return [
+        stackRequirement(recipe, 'illustrated'),
+        { id: 'image', message: 'Add a recipe image', met: images.length > 0 },
+        {
+          id: 'image-alt',
+          message: 'Give every recipe image alt text',
+          met: images.every((image) => isShown(image.alt)),
+        },
+      ];
+    }
+  }
+}
+
+function unmet(recipe: SoustackLiteRecipe, profile: SoustackProfile): ProfileRequirement[] {
+  return profileRequirements(recipe, profile).filter((requirement) => !requirement.met);
+}
+
+/**
+ * Checks every profile above base on its own merits once base is met. The
+ * strongest satisfied profile is the latest in VALID_SOUSTACK_PROFILES
+ * order; `next` is the first unsatisfied profile after it.
+ */
+export function analyzeProfile(recipe: SoustackLiteRecipe): ProfileReport {
+  const baseMissing = unmet(recipe, 'base');
+  if (baseMissing.length > 0) {
+    return { profile: 'lite', satisfied: ['lite'], next: 'base', missing: baseMissing };
+  }
+
+  const satisfied: SoustackProfile[] = ['lite', 'base'];
+  const gaps = new Map<SoustackProfile, ProfileRequirement[]>();
+  for (const candidate of VALID_SOUSTACK_PROFILES.slice(2)) {
+    const missing = unmet(recipe, candidate);
+    if (missing.length === 0) satisfied.push(candidate);
+    else gaps.set(candidate, missing);
+  }
+
+  const profile = satisfied[satisfied.length - 1];
+  const above = VALID_SOUSTACK_PROFILES.slice(VALID_SOUSTACK_PROFILES.indexOf(profile) + 1);
+  const next = above.find((candidate) => gaps.has(candidate)) ?? null;
+  return { profile, satisfied, next, missing: next ? gaps.get(next) ?? [] : [] };
+}
+
+/**
+ * Sets `profile` to the strongest profile the recipe satisfies. Returns
+ * the same recipe when it is already correct.
+ */
+export function compileProfile(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  const { profile } = analyzeProfile(recipe);
+  return profile === recipe.profile ? recipe : { ...recipe, profile };
+}
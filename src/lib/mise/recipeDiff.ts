@@ -0,0 +1,213 @@
+import type { IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine, parseIngredientLine } from './ingredientLine';
+import { formatYield } from './recipeMeta';
+import { readEquipment, formatEquipmentItem } from './equipment';
+import { isStackEnabled, STACK_KEYS } from './stacks';
+import { isObject } from './json';
+import { flattenSections } from './sections';
+
+/**
+ * One change between two versions of a recipe, in cook's terms rather
+ * than JSON paths
+ */
+export type RecipeChange = {
+  area: 'details' | 'ingredients' | 'steps' | 'equipment' | 'stacks';
+  kind: 'added' | 'removed' | 'changed' | 'moved';
+  label: string; // field name, ingredient, step or stack
+  from?: string;
+  to?: string;
+};
+
+function isPlaceholder(text: string): boolean {
+  return text.trim() === '' || text.trim() === '(not provided)';
+}
+
+type Entry = { key: string; label: string; text: string };
+
+function ingredientEntries(recipe: SoustackLiteRecipe): Entry[] {
+  return flattenSections(recipe.ingredients).flatMap((item): Entry[] => {
+    if (typeof item === 'string') {
+      if (isPlaceholder(item)) return [];
+      const name = parseIngredientLine(item).ingredient?.name || item;
+      return [{ key: `name:${name.trim().toLowerCase()}`, label: name.trim(), text: item.trim() }];
+    }
+    if (!isObject(item) || typeof item.name !== 'string' || isPlaceholder(item.name)) return [];
+    const ingredient = item as IngredientObject;
+    return [
+      {
+        key: ingredient.id ? `id:${ingredient.id}` : `name:${ingredient.name.trim().toLowerCase()}`,
+        label: ingredient.name.trim(),
+        text: formatIngredientLine(ingredient),
+      },
+    ];
+  });
+}
+
+function stepEntries(recipe: SoustackLiteRecipe): Entry[] {
+  return flattenSections(recipe.instructions).flatMap((item): Entry[] => {
+    const text = typeof item === 'string' ? item : isObject(item) && typeof item.text === 'string' ? item.text : '';
+    if (isPlaceholder(text)) return [];
+    const id = isObject(item) && typeof item.id === 'string' ? item.id : null;
+    return [{ key: id ? `id:${id}` : `text:${text.trim()}`, label: text.trim(), text: text.trim() }];
+  });
+}
+
+/**
+ * Pairs entries with the same key, first occurrence first. Returns the
+ * new index of each old entry, or -1 when it has no partner.
+ */
+function matchEntries(before: Entry[], after: Entry[]): number[] {
+  const used = new Set<number>();
+  return before.map((entry) => {
+    const index = after.findIndex((candidate, i) => !used.has(i) && candidate.key === entry.key);
+    if (index >= 0) used.add(index);
+    return index;
+  });
+}
+
+/**
+ * Old indexes of matched entries that are not part of the longest run kept
+ * in order, i.e. the entries that were moved
+ */
+function movedEntries(matches: number[]): Set<number> {
+  const matched = matches.map((to, from) => ({ from, to })).filter(({ to }) => to >= 0);
+  const lengths = matched.map(() => 1);
+  const previous = matched.map(() => -1);
+  matched.forEach((entry, i) => {
+    for (let j = 0; j < i; j++) {
+      if (matched[j].to < entry.to && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+  const kept = new Set<number>();
+  let i = lengths.indexOf(Math.max(0, ...lengths));
+  while (i >= 0) {
+    kept.add(matched[i].from);
+    i = previous[i];
+  }
+  return new Set(matched.filter(({ from }) => !kept.has(from)).map(({ from }) => from));
+}
+
+/**
+ * Ingredients and equipment match by id, then by name; a new amount,
+ * size or prep is a change
+ */
+function diffByKey(area: 'ingredients' | 'equipment', before: Entry[], after: Entry[]): RecipeChange[] {
+  const matches = matchEntries(before, after);
+  const changes: RecipeChange[] = [];
+  before.forEach((entry, i) => {
+    const partner = after[matches[i]];
+    if (!partner) changes.push({ area, kind: 'removed', label: entry.label, from: entry.text });
+    else if (partner.text !== entry.text) {
+      changes.push({ area, kind: 'changed', label: partner.label, from: entry.text, to: partner.text });
+    }
+  });
+  after.forEach((entry, i) => {
+    if (!matches.includes(i)) changes.push({ area, kind: 'added', label: entry.label, to: entry.text });
+  });
+  return changes;
+}
+
+/**
+ * Steps match by id, then by text. Unmatched steps are paired in order as
+ * rewrites; matched steps out of their old order are reported as moved.
+ */
+function diffSteps(before: Entry[], after: Entry[]): RecipeChange[] {
+  const matches = matchEntries(before, after);
+  const changes: RecipeChange[] = [];
+
+  const removed = before.map((_, i) => i).filter((i) => matches[i] < 0);
+  const added = after.map((_, i) => i).filter((i) => !matches.includes(i));
+  // Rewrites count as staying in place when looking for moved steps
+  const positions = [...matches];
+  removed.forEach((from, i) => {
+    const to = added[i];
+    if (to !== undefined) {
+      positions[from] = to;
+      changes.push({ area: 'steps', kind: 'changed', label: after[to].label, from: before[from].text, to: after[to].text });
+    } else {
+      changes.push({ area: 'steps', kind: 'removed', label: before[from].label, from: before[from].text });
+    }
+  });
+  added.slice(removed.length).forEach((to) => {
+    changes.push({ area: 'steps', kind: 'added', label: after[to].label, to: after[to].text });
+  });
+
+  movedEntries(positions).forEach((from) => {
+    if (matches[from] < 0) return;
+    changes.push({
+      area: 'steps',
+      kind: 'moved',
+      label: after[matches[from]].label,
+      from: `step ${from + 1}`,
+      to: `step ${matches[from] + 1}`,
+    });
+  });
+  return changes;
+}
+
+function diffDetails(before: SoustackLiteRecipe, after: SoustackLiteRecipe): RecipeChange[] {
+  const fields: Array<[string, string, string]> = [
+    ['Name', before.name, after.name],
+    ['Description', before.description ?? '', after.description ?? ''],
+    ['Yield', before.yield ? formatYield(before.yield) : '', after.yield ? formatYield(after.yield) : ''],
+  ];
+  return fields.flatMap(([label, from, to]): RecipeChange[] => {
+    if (from === to) return [];
+    const kind = !from ? 'added' : !to ? 'removed' : 'changed';
+    return [{ area: 'details', kind, label, ...(from && { from }), ...(to && { to }) }];
+  });
+}
+
+function diffEquipment(before: SoustackLiteRecipe, after: SoustackLiteRecipe): RecipeChange[] {
+  const toEntries = (recipe: SoustackLiteRecipe): Entry[] =>
+    readEquipment(recipe).map((item) => ({
+      key: item.id ? `id:${item.id}` : `name:${item.name.toLowerCase()}`,
+      label: item.name,
+      text: formatEquipmentItem(item),
+    }));
+  return diffByKey('equipment', toEntries(before), toEntries(after));
+}
+
+function diffStacks(before: SoustackLiteRecipe, after: SoustackLiteRecipe): RecipeChange[] {
+  return STACK_KEYS.flatMap((key): RecipeChange[] => {
+    const was = isStackEnabled(before.stacks, key);
+    const is = isStackEnabled(after.stacks, key);
+    if (was === is) return [];
+    return [{ area: 'stacks', kind: is ? 'added' : 'removed', label: key }];
+  });
+}
+
+/**
+ * Lists what changed from `before` to `after`: details, ingredients
+ * added/removed/changed, steps rewritten or reordered, equipment and stacks
+ */
+export function diffRecipes(before: SoustackLiteRecipe, after: SoustackLiteRecipe): RecipeChange[] {
+  return [
+    ...diffDetails(before, after),
+    ...diffByKey('ingredients', ingredientEntries(before), ingredientEntries(after)),
+    ...diffSteps(stepEntries(before), stepEntries(after)),
+    ...diffEquipment(before, after),
+    ...diffStacks(before, after),
+  ];
+}
+
+/**
+ * One readable line per change, e.g. 'Changed "2 cups flour" to "250 g flour"'
+ */
+export function describeChange(change: RecipeChange): string {
+  if (change.area === 'stacks') {
+    return `${change.kind === 'added' ? 'Enabled' : 'Disabled'} the ${change.label} stack`;
+  }
+  if (change.kind === 'moved') return `Moved "${change.label}" from ${change.from} to ${change.to}`;
+  if (change.area === 'details') {
+    if (change.kind === 'added') return `${change.label} set to "${change.to}"`;
+    if (change.kind === 'removed') return `${change.label} cleared (was "${change.from}")`;
+    return `${change.label} changed from "${change.from}" to "${change.to}"`;
+  }
+  if (change.kind === 'added') return `Added "${change.to}"`;
+  if (change.kind === 'removed') return `Removed "${change.from}"`;
+  return `Changed "${change.from}" to "${change.to}"`;
+}
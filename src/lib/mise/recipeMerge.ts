@@ -0,0 +1,293 @@
+import type { IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine, parseIngredientLine } from './ingredientLine';
+import { compileProfile } from './profiles';
+import { isObject, type JsonObject } from './json';
+
+/**
+ * An item or field both sides changed in different ways. `ours` and
+ * `theirs` are display text; undefined means that side removed it.
+ */
+export type MergeConflict = {
+  id: string; // stable for the same three inputs, used to pick a side
+  area: 'details' | 'ingredients' | 'steps';
+  label: string;
+  ours?: string;
+  theirs?: string;
+};
+
+export type MergeResolutions = Record<string, 'ours' | 'theirs'>;
+
+export type MergeResult = {
+  recipe: SoustackLiteRecipe;
+  conflicts: MergeConflict[];
+};
+
+type ListArea = 'ingredients' | 'steps';
+
+// A side removed the value (or never had it)
+const MISSING = Symbol('missing');
+type Value = unknown | typeof MISSING;
+
+function isSection(value: unknown): value is { section: { name: string; items: unknown[] } } {
+  return isObject(value) && isObject(value.section) && Array.isArray(value.section.items);
+}
+
+function isEqual(a: Value, b: Value): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+    const otherKeys = Object.keys(b).filter((key) => b[key] !== undefined);
+    return keys.length === otherKeys.length && keys.every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Identity of a list item across versions: sections by name, then ids,
+ * then ingredient name or step text
+ */
+function itemKey(area: ListArea, item: unknown): string {
+  if (isSection(item)) return `section:${item.section.name.trim().toLowerCase()}`;
+  if (isObject(item) && typeof item.id === 'string' && item.id) return `id:${item.id}`;
+  if (area === 'ingredients') {
+    const name =
+      typeof item === 'string'
+        ? parseIngredientLine(item).ingredient?.name || item
+        : isObject(item) && typeof item.name === 'string'
+          ? item.name
+          : JSON.stringify(item);
+    return `name:${name.trim().toLowerCase()}`;
+  }
+  const text = typeof item === 'string' ? item : isObject(item) && typeof item.text === 'string' ? item.text : '';
+  return `text:${text.trim() || JSON.stringify(item)}`;
+}
+
+function display(area: MergeConflict['area'], value: Value): string | undefined {
+  if (value === MISSING) return undefined;
+  if (typeof value === 'string') return value;
+  if (isSection(value)) return `Section "${value.section.name}"`;
+  if (area === 'ingredients' && isObject(value) && typeof value.name === 'string') {
+    return formatIngredientLine(value as IngredientObject);
+  }
+  if (area === 'steps' && isObject(value) && typeof value.text === 'string') return value.text;
+  return JSON.stringify(value);
+}
+
+/**
+ * New index of each old item: same key first, then leftover plain items
+ * paired in order as rewrites
+ */
+function matchItems(area: ListArea, before: unknown[], after: unknown[]): number[] {
+  const used = new Set<number>();
+  const matches = before.map((item) => {
+    const key = itemKey(area, item);
+    const index = after.findIndex((candidate, i) => !used.has(i) && itemKey(area, candidate) === key);
+    if (index >= 0) used.add(index);
+    return index;
+  });
+  const leftover = after.map((_, i) => i).filter((i) => !used.has(i) && !isSection(after[i]));
+  matches.forEach((index, i) => {
+    if (index >= 0 || isSection(before[i]) || leftover.length === 0) return;
+    matches[i] = leftover.shift()!;
+  });
+  return matches;
+}
+
+type MergeContext = {
+  resolutions: MergeResolutions;
+  conflicts: MergeConflict[];
+};
+
+/**
+ * Three-way merge of one value; overlapping changes become conflicts,
+ * resolved to our side unless the caller picked theirs
+ */
+function mergeValue(
+  ctx: MergeContext,
+  id: string,
+  area: MergeConflict['area'],
+  label: string,
+  base: Value,
+  ours: Value,
+  theirs: Value
+): Value {
+  if (isEqual(ours, theirs)) return ours;
+  if (isEqual(ours, base)) return theirs;
+  if (isEqual(theirs, base)) return ours;
+
+  if (area !== 'details' && isSection(ours) && isSection(theirs)) {
+    const baseSection = isSection(base) ? base.section : { name: '', items: [] };
+    const sectionLabel = `Section "${ours.section.name}"`;
+    const name = mergeValue(ctx, `${id}/name`, area, sectionLabel, baseSection.name, ours.section.name, theirs.section.name);
+    return {
+      ...ours,
+      section: {
+        ...ours.section,
+        name,
+        items: mergeList(ctx, `${id}/items`, area, baseSection.items, ours.section.items, theirs.section.items),
+      },
+    };
+  }
+
+  const labelled = label || display(area, ours === MISSING ? theirs : ours) || '';
+  ctx.conflicts.push({ id, area, label: labelled, ours: display(area, ours), theirs: display(area, theirs) });
+  return ctx.resolutions[id] === 'theirs' ? theirs : ours;
+}
+
+/**
+ * Merges a list item by item. Our order wins unless we only edited in
+ * place, in which case their reordering is kept; items only one side has
+ * go after the item that precedes them on that side.
+ */
+function mergeList(
+  ctx: MergeContext,
+  path: string,
+  area: ListArea,
+  base: unknown[],
+  ours: unknown[],
+  theirs: unknown[]
+): unknown[] {
+  const oursMatch = matchItems(area, base, ours);
+  const theirsMatch = matchItems(area, base, theirs);
+
+  // Node ids per position on each side: `b<i>` for base items, `o<j>`
+  // for our additions (theirs reuse it when they added the same item)
+  const oursIds = ours.map((_, j) => {
+    const i = oursMatch.indexOf(j);
+    return i >= 0 ? `b${i}` : `o${j}`;
+  });
+  const theirsIds = theirs.map((_, k) => {
+    const i = theirsMatch.indexOf(k);
+    return i >= 0 ? `b${i}` : `t${k}`;
+  });
+  const addedKeys = new Map<string, number>();
+  oursIds.forEach((id, j) => {
+    if (id.startsWith('o') && !addedKeys.has(itemKey(area, ours[j]))) addedKeys.set(itemKey(area, ours[j]), j);
+  });
+  theirsIds.forEach((id, k) => {
+    const j = addedKeys.get(itemKey(area, theirs[k]));
+    if (id.startsWith('t') && j !== undefined) {
+      theirsIds[k] = `o${j}`;
+      addedKeys.delete(itemKey(area, theirs[k]));
+    }
+  });
+
+  const values = new Map<string, Value>();
+  base.forEach((item, i) => {
+    const mine = oursMatch[i] >= 0 ? ours[oursMatch[i]] : MISSING;
+    const their = theirsMatch[i] >= 0 ? theirs[theirsMatch[i]] : MISSING;
+    values.set(`b${i}`, mergeValue(ctx, `${path}/b${i}`, area, '', item, mine, their));
+  });
+  ours.forEach((item, j) => {
+    if (oursIds[j] !== `o${j}`) return;
+    const k = theirsIds.indexOf(`o${j}`);
+    values.set(`o${j}`, k >= 0 ? mergeValue(ctx, `${path}/o${j}`, area, '', MISSING, item, theirs[k]) : item);
+  });
+  theirs.forEach((item, k) => {
+    if (theirsIds[k] === `t${k}`) values.set(`t${k}`, item);
+  });
+
+  const baseOrder = oursIds.filter((id) => id.startsWith('b'));
+  const keptOrder = baseOrder.every((id, n) => n === 0 || Number(id.slice(1)) > Number(baseOrder[n - 1].slice(1)));
+  const [primary, secondary] = keptOrder ? [theirsIds, oursIds] : [oursIds, theirsIds];
+
+  // Secondary-only nodes follow their nearest preceding shared node
+  const following = new Map<string, string[]>();
+  let anchor = '';
+  secondary.forEach((id) => {
+    if (primary.includes(id)) {
+      anchor = id;
+    } else {
+      following.set(anchor, [...(following.get(anchor) ?? []), id]);
+    }
+  });
+  const order = [...(following.get('') ?? [])];
+  primary.forEach((id) => order.push(id, ...(following.get(id) ?? [])));
+
+  return order.map((id) => values.get(id)).filter((value) => value !== MISSING);
+}
+
+const LIST_FIELDS: Record<string, ListArea> = { ingredients: 'ingredients', instructions: 'steps' };
+
+// Computed from the rest of the recipe rather than edited: never a conflict
+const DERIVED_FIELDS = new Set(['profile']);
+const DERIVED_MISE_FIELDS = new Set(['parse']);
+
+function field(recipe: SoustackLiteRecipe | null, key: string): Value {
+  if (!recipe) return MISSING;
+  const value = (recipe as unknown as JsonObject)[key];
+  return value === undefined ? MISSING : value;
+}
+
+/**
+ * Merges an object field key by key. Keys in `derived` take our side (or
+ * theirs when we have none) and never conflict.
+ */
+function mergeKeys(
+  ctx: MergeContext,
+  path: string,
+  label: (key: string) => string,
+  b: Value,
+  o: JsonObject,
+  t: JsonObject,
+  derived: Set<string> = new Set()
+): JsonObject {
+  const merged: JsonObject = {};
+  const base = isObject(b) ? b : {};
+  new Set([...Object.keys(base), ...Object.keys(o), ...Object.keys(t)]).forEach((key) => {
+    const value = derived.has(key)
+      ? o[key] ?? t[key] ?? MISSING
+      : mergeValue(
+          ctx,
+          `${path}/${key}`,
+          'details',
+          label(key),
+          key in base ? base[key] : MISSING,
+          key in o ? o[key] : MISSING,
+          key in t ? t[key] : MISSING
+        );
+    if (value !== MISSING) merged[key] = value;
+  });
+  return merged;
+}
+
+/**
+ * Three-way merge of two edits of the same recipe against their common
+ * ancestor (null when unknown, so any difference overlaps). Fields, stacks,
+ * ingredients and steps changed on only one side merge on their own;
+ * overlapping changes are listed in `conflicts` and resolved to our side
+ * unless `resolutions` picks theirs. Derived fields (the profile, parse
+ * metadata) are left out and recomputed or kept from our side.
+ */
+export function mergeRecipes(
+  base: SoustackLiteRecipe | null,
+  ours: SoustackLiteRecipe,
+  theirs: SoustackLiteRecipe,
+  resolutions: MergeResolutions = {}
+): MergeResult {
+  const ctx: MergeContext = { resolutions, conflicts: [] };
+  const keys = new Set([...Object.keys(base ?? {}), ...Object.keys(ours), ...Object.keys(theirs)]);
+  const merged: JsonObject = {};
+
+  keys.forEach((key) => {
+    const [b, o, t] = [field(base, key), field(ours, key), field(theirs, key)];
+    let value: Value;
+    if (DERIVED_FIELDS.has(key)) {
+      value = o !== MISSING ? o : t; // recomputed below
+    } else if (key in LIST_FIELDS && !isEqual(o, b) && !isEqual(t, b) && Array.isArray(o) && Array.isArray(t)) {
+      value = mergeList(ctx, key, LIST_FIELDS[key], Array.isArray(b) ? b : [], o, t);
+    } else if (key === 'stacks' && isObject(o) && isObject(t)) {
+      value = mergeKeys(ctx, 'stacks', (stack) => `${stack} stack`, b, o, t);
+    } else if (key === 'x-mise' && isObject(o) && isObject(t)) {
+      value = mergeKeys(ctx, 'x-mise', (name) => `x-mise ${name}`, b, o, t, DERIVED_MISE_FIELDS);
+    } else {
+      value = mergeValue(ctx, key, 'details', key, b, o, t);
+    }
+    if (value !== MISSING) merged[key] = value;
+  });
+
+  return { recipe: compileProfile(merged as SoustackLiteRecipe), conflicts: ctx.conflicts };
+}
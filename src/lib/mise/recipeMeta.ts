@@ -0,0 +1,208 @@
+import type { Duration, RecipeTimes, RecipeYield, SoustackLiteRecipe } from './types';
+
+/**
+ * A recognised yield or time line ("Serves 4", "Prep time: 15 min")
+ */
+export type MetaLine = {
+  yield?: RecipeYield;
+  time?: RecipeTimes;
+};
+
+// "Serves 4", "Makes 24 cookies", "Yield: 2 loaves", "Servings: 4-6"
+const YIELD_PATTERN = /^(serves|servings?|yields?|makes)\s*:?\s*(.+?)\.?$/i;
+// "4 servings" on its own line
+const BARE_SERVINGS_PATTERN = /^(\d+(?:\s*(?:-|–|to)\s*\d+)?)\s+(servings?|portions?)$/i;
+const AMOUNT_PATTERN = /^(?:about|around|approx(?:imately|\.)?)?\s*(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(.*)$/i;
+
+// "Prep time: 15 min", "Cook: 1 hr", "Total time 1 hour 10 minutes"
+// A "time" word or a colon is required so "Bake 30 minutes" stays an instruction
+const TIME_PATTERN = /^(prep(?:aration)?|cook(?:ing)?|bak(?:e|ing)|total)(\s+time)?\s*(:)?\s*(.+?)\.?$/i;
+
+// "1 hr", "30 minutes", "1 1/2 hours", "10-15 min", "1h30m"
+const DURATION_TOKEN =
+  /^(\d+(?:\.\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hours?|hrs?|h|minutes?|mins?|m)(?![a-z])\s*(?:and\s+|,\s*)?/i;
+
+// Separators for several facts on one line ("Prep: 10 min | Cook: 20 min")
+const SEGMENT_SEPARATOR = /\s*[|•·;]\s*/;
+
+function toNumber(token: string): number {
+  return token
+    .trim()
+    .split(/\s+/)
+    .reduce((total, part) => {
+      if (part.includes('/')) {
+        const [num, den] = part.split('/').map(Number);
+        return den ? total + num / den : NaN;
+      }
+      return total + Number(part);
+    }, 0);
+}
+
+/**
+ * Parses a human duration ("1 hour 30 minutes", "10-15 min") into minutes.
+ * The whole text must be a duration; returns null otherwise.
+ */
+export function parseDurationText(text: string): Duration | null {
+  let rest = text.trim();
+  if (!rest) return null;
+
+  let min = 0;
+  let max = 0;
+  let isRange = false;
+
+  while (rest.length > 0) {
+    const match = rest.match(DURATION_TOKEN);
+    if (!match) return null;
+
+    const factor = /^h/i.test(match[3]) ? 60 : 1;
+    const low = toNumber(match[1]);
+    const high = match[2] !== undefined ? toNumber(match[2]) : low;
+    if (Number.isNaN(low) || Number.isNaN(high)) return null;
+
+    min += low * factor;
+    max += high * factor;
+    isRange = isRange || high !== low;
+    rest = rest.slice(match[0].length).trim();
+  }
+
+  const minutes = Math.round(min);
+  const maxMinutes = Math.round(max);
+  if (isRange && maxMinutes > minutes) {
+    return { minMinutes: minutes, maxMinutes };
+  }
+  return minutes > 0 ? { minutes } : null;
+}
+
+function parseYield(text: string): RecipeYield | null {
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const min = Number(match[1]);
+  const max = match[2] !== undefined ? Number(match[2]) : NaN;
+
+  return {
+    amount: !Number.isNaN(max) && max > min ? { min, max } : min,
+    unit: match[3].trim() || 'servings',
+  };
+}
+
+/**
+ * Parses free yield text ("4 servings", "Serves 4", "12 cookies")
+ */
+export function parseYieldText(text: string): RecipeYield | null {
+  const trimmed = text.trim();
+  const segment = parseSegment(trimmed);
+  if (segment?.yield) return segment.yield;
+  return parseYield(trimmed);
+}
+
+// ISO 8601 durations as used by schema.org ("PT1H30M", "P0DT45M")
+const ISO_DURATION_PATTERN =
+  /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+/**
+ * Parses an ISO 8601 duration into minutes. Returns null for zero or invalid values.
+ */
+export function parseIsoDuration(text: string): Duration | null {
+  const match = text.trim().match(ISO_DURATION_PATTERN);
+  if (!match) return null;
+
+  const [days, hours, minutes, seconds] = match.slice(1).map((part) => (part ? Number(part) : 0));
+  const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? { minutes: total } : null;
+}
+
+/**
+ * Formats a duration as ISO 8601 ("PT1H30M"). Ranges use their upper bound.
+ */
+export function formatIsoDuration(duration: Duration): string {
+  const minutes = 'minutes' in duration ? duration.minutes : duration.maxMinutes;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return `PT${hours > 0 ? `${hours}H` : ''}${rest > 0 || hours === 0 ? `${rest}M` : ''}`;
+}
+
+function timeKey(keyword: string): keyof RecipeTimes {
+  const lower = keyword.toLowerCase();
+  if (lower.startsWith('prep')) return 'prep';
+  if (lower.startsWith('total')) return 'total';
+  return 'cook';
+}
+
+function parseSegment(segment: string): MetaLine | null {
+  const bare = segment.match(BARE_SERVINGS_PATTERN);
+  if (bare) {
+    const parsed = parseYield(bare[1]);
+    return parsed ? { yield: { ...parsed, unit: bare[2].toLowerCase() } } : null;
+  }
+
+  const yieldMatch = segment.match(YIELD_PATTERN);
+  if (yieldMatch) {
+    const parsed = parseYield(yieldMatch[2]);
+    return parsed ? { yield: parsed } : null;
+  }
+
+  const timeMatch = segment.match(TIME_PATTERN);
+  if (timeMatch && (timeMatch[2] || timeMatch[3])) {
+    const duration = parseDurationText(timeMatch[4]);
+    return duration ? { time: { [timeKey(timeMatch[1])]: duration } } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Recognises a yield or time line. Every segment of the line must be a
+ * yield or time fact, so ordinary sentences ("Cook the onions") never match.
+ */
+export function parseMetaLine(line: string): MetaLine | null {
+  const segments = line.split(SEGMENT_SEPARATOR).filter((segment) => segment.trim().length > 0);
+  if (segments.length === 0) return null;
+
+  const result: MetaLine = {};
+  for (const segment of segments) {
+    const parsed = parseSegment(segment.trim());
+    if (!parsed) return null;
+    if (parsed.yield && !result.yield) result.yield = parsed.yield;
+    if (parsed.time) result.time = { ...parsed.time, ...result.time };
+  }
+  return result;
+}
+
+/**
+ * Formats a duration for display ("1 hr 30 min", "10-15 min")
+ */
+export function formatDuration(duration: Duration): string {
+  const format = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours} hr` : `${hours} hr ${rest} min`;
+  };
+  if ('minutes' in duration) return format(duration.minutes);
+  if (duration.maxMinutes < 60) return `${duration.minMinutes}-${duration.maxMinutes} min`;
+  return `${format(duration.minMinutes)} - ${format(duration.maxMinutes)}`;
+}
+
+/**
+ * Formats a yield for display ("4 servings", "24-30 cookies")
+ */
+export function formatYield(recipeYield: RecipeYield): string {
+  const amount =
+    typeof recipeYield.amount === 'number'
+      ? String(recipeYield.amount)
+      : `${recipeYield.amount.min}-${recipeYield.amount.max}`;
+  return `${amount} ${recipeYield.unit}`.trim();
+}
+
+/**
+ * Short display facts for a recipe header ("4 servings", "Prep 15 min")
+ */
+export function describeRecipeFacts(recipe: SoustackLiteRecipe): string[] {
+  const facts: string[] = [];
+  if (recipe.yield) facts.push(formatYield(recipe.yield));
+  if (recipe.time?.prep) facts.push(`Prep ${formatDuration(recipe.time.prep)}`);
+  if (recipe.time?.cook) facts.push(`Cook ${formatDuration(recipe.time.cook)}`);
+  if (recipe.time?.total) facts.push(`Total ${formatDuration(recipe.time.total)}`);
+  return facts;
+}
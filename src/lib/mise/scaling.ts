@@ -0,0 +1,175 @@
+import type { IngredientObject, RecipeYield, SoustackLiteRecipe } from './types';
+
+type Quantity = IngredientObject['quantity'];
+
+/**
+ * Scale target: an explicit factor or a number of servings (needs recipe.yield)
+ */
+export type ScaleTarget = { factor: number } | { servings: number };
+
+// Fractions a cook can measure, with their display glyphs
+const KITCHEN_FRACTIONS: Array<[number, string]> = [
+  [0, ''],
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [3 / 8, '⅜'],
+  [1 / 2, '½'],
+  [5 / 8, '⅝'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [7 / 8, '⅞'],
+  [1, ''],
+];
+
+// Units measured on a scale or in a jug; rounded as decimals, never fractions
+const METRIC_UNITS = new Set(['g', 'gram', 'grams', 'kg', 'mg', 'ml', 'milliliter', 'milliliters', 'l', 'liter', 'liters', 'cl', 'dl']);
+
+const EPSILON = 0.01;
+
+function isMetric(unit: string | undefined): boolean {
+  return !!unit && METRIC_UNITS.has(unit.toLowerCase().replace(/\.$/, ''));
+}
+
+function nearestFraction(fraction: number): [number, string] {
+  return KITCHEN_FRACTIONS.reduce((best, candidate) =>
+    Math.abs(candidate[0] - fraction) < Math.abs(best[0] - fraction) ? candidate : best
+  );
+}
+
+/**
+ * Rounds a scaled amount to something measurable: eighths and thirds below 10,
+ * whole numbers up to 100, then steps of 5. Metric units round to decimals.
+ * A positive amount never rounds down to zero.
+ */
+export function roundToKitchenFraction(value: number, unit?: string): number {
+  if (!Number.isFinite(value) || value <= 0) return 0;
+  if (value >= 100) return Math.round(value / 5) * 5;
+  if (value >= 10) return Math.round(value);
+
+  if (isMetric(unit)) {
+    return Math.max(Math.round(value * 10) / 10, 0.1);
+  }
+
+  const whole = Math.floor(value);
+  const rounded = whole + nearestFraction(value - whole)[0];
+  return rounded > 0 ? rounded : KITCHEN_FRACTIONS[1][0];
+}
+
+/**
+ * Formats an amount with fraction glyphs when it is (nearly) an exact
+ * kitchen fraction ("1 ½", "⅓"); other values keep up to two decimals.
+ */
+export function formatKitchenNumber(value: number, unit?: string): string {
+  const decimal = String(Math.round(value * 100) / 100);
+  if (isMetric(unit) || value <= 0) return decimal;
+
+  const whole = Math.floor(value);
+  const [fraction, glyph] = nearestFraction(value - whole);
+  if (Math.abs(value - whole - fraction) > EPSILON) return decimal;
+
+  const total = whole + fraction;
+  if (!glyph) return String(total);
+  return whole > 0 ? `${whole} ${glyph}` : glyph;
+}
+
+/**
+ * Display form of a quantity, including ranges ("1 ½-2")
+ */
+export function formatKitchenQuantity(quantity: Quantity | string, unit?: string): string {
+  if (quantity === undefined || quantity === null || quantity === '') return '';
+  if (typeof quantity === 'string') return quantity;
+  if (typeof quantity === 'object') {
+    return `${formatKitchenNumber(quantity.min, unit)}-${formatKitchenNumber(quantity.max, unit)}`;
+  }
+  return formatKitchenNumber(quantity, unit);
+}
+
+/**
+ * Multiplies a quantity (number or range) and rounds it for the kitchen.
+ * Non-numeric string quantities are returned unchanged.
+ */
+export function scaleQuantity<Q extends Quantity | string>(quantity: Q, factor: number, unit?: string): Q {
+  if (quantity === undefined || quantity === null || factor === 1) return quantity;
+  if (typeof quantity === 'string') {
+    const numeric = Number(quantity);
+    return (Number.isNaN(numeric) || quantity.trim() === '' ? quantity : scaleQuantity(numeric, factor, unit)) as Q;
+  }
+  if (typeof quantity === 'object') {
+    return {
+      min: roundToKitchenFraction(quantity.min * factor, unit),
+      max: roundToKitchenFraction(quantity.max * factor, unit),
+    } as Q;
+  }
+  return roundToKitchenFraction((quantity as number) * factor, unit) as Q;
+}
+
+/**
+ * Scales one ingredient honouring its scaling mode: `fixed` and `toTaste`
+ * (including ingredients marked toTaste) keep their quantity.
+ */
+export function scaleIngredient<T extends { quantity?: Quantity | string; unit?: string; toTaste?: boolean; scaling?: { mode?: string } }>(
+  ingredient: T,
+  factor: number
+): T {
+  const mode = ingredient.scaling?.mode ?? (ingredient.toTaste ? 'toTaste' : 'proportional');
+  if (mode !== 'proportional' || ingredient.quantity === undefined) return ingredient;
+  return { ...ingredient, quantity: scaleQuantity(ingredient.quantity, factor, ingredient.unit) };
+}
+
+function scaleItems(items: unknown[], factor: number): unknown[] {
+  return items.map((item) => {
+    if (typeof item !== 'object' || item === null) return item;
+    if ('section' in item) {
+      const section = (item as { section: { name: string; items?: unknown[] } }).section;
+      if (!Array.isArray(section.items)) return item;
+      return { ...item, section: { ...section, items: scaleItems(section.items, factor) } };
+    }
+    if ('name' in item) return scaleIngredient(item as IngredientObject, factor);
+    return item;
+  });
+}
+
+function baseServings(recipeYield: RecipeYield | undefined): number | null {
+  if (!recipeYield) return null;
+  const amount = typeof recipeYield.amount === 'number' ? recipeYield.amount : recipeYield.amount.min;
+  return amount > 0 ? amount : null;
+}
+
+/**
+ * Resolves a scale target to a factor. Servings without a recipe yield give 1.
+ */
+export function getScaleFactor(recipe: SoustackLiteRecipe, target: ScaleTarget): number {
+  if ('factor' in target) {
+    return Number.isFinite(target.factor) && target.factor > 0 ? target.factor : 1;
+  }
+  const base = baseServings(recipe.yield);
+  return base && target.servings > 0 ? target.servings / base : 1;
+}
+
+/**
+ * Returns a scaled copy of the recipe (ingredients and yield); the input is not mutated.
+ * Free-text ingredient lines are left as written.
+ */
+export function scaleRecipe(recipe: SoustackLiteRecipe, target: ScaleTarget): SoustackLiteRecipe {
+  const factor = getScaleFactor(recipe, target);
+  if (factor === 1) return recipe;
+
+  const scaled: SoustackLiteRecipe = {
+    ...recipe,
+    ingredients: scaleItems(Array.isArray(recipe.ingredients) ? recipe.ingredients : [], factor),
+  };
+
+  if (recipe.yield) {
+    const amount = recipe.yield.amount;
+    scaled.yield = {
+      ...recipe.yield,
+      amount:
+        'servings' in target && typeof amount === 'number'
+          ? target.servings
+          : scaleQuantity(amount, factor) ?? amount,
+    };
+  }
+
+  return scaled;
+}
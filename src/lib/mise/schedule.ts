@@ -0,0 +1,219 @@
+import type { Duration, SoustackLiteRecipe } from './types';
+import { isObject } from './json';
+import { sectionOf } from './sections';
+
+export type StepActivity = 'active' | 'passive';
+
+/**
+ * A step placed on the timeline, in minutes from the start of cooking
+ */
+export type ScheduledStep = {
+  index: number; // position in the flattened instruction list
+  id?: string;
+  text: string;
+  section?: string;
+  activity: StepActivity;
+  completionCue?: string;
+  minutes: number; // planned duration (upper bound of a range)
+  minMinutes: number; // lower bound; equals minutes for exact durations
+  timed: boolean; // false when the step has no duration
+  start: number;
+  end: number;
+  dependsOn: number[];
+  critical: boolean;
+};
+
+/**
+ * A stretch of time in which the cook's task and the running passive steps do not change
+ */
+export type TimelineSlice = {
+  start: number;
+  end: number;
+  active: ScheduledStep | null;
+  running: ScheduledStep[];
+};
+
+export type CookSchedule = {
+  steps: ScheduledStep[];
+  totalMinutes: number; // earliest finish
+  activeMinutes: number;
+  passiveMinutes: number;
+  sequentialMinutes: number; // finish time if nothing overlapped
+  untimedSteps: number;
+};
+
+type StepInput = {
+  id?: string;
+  text: string;
+  section?: string;
+  activity: StepActivity;
+  completionCue?: string;
+  duration?: Duration;
+  dependsOn?: string[];
+};
+
+function toStepInput(item: unknown, section?: string): StepInput | null {
+  if (typeof item === 'string') {
+    const text = item.trim();
+    return text && text !== '(not provided)' ? { text, section, activity: 'active' } : null;
+  }
+  if (!isObject(item) || typeof item.text !== 'string' || !item.text.trim()) return null;
+
+  const timing = isObject(item.timing) ? item.timing : {};
+  return {
+    ...(typeof item.id === 'string' && { id: item.id }),
+    text: item.text.trim(),
+    section,
+    activity: timing.activity === 'passive' ? 'passive' : 'active',
+    ...(typeof timing.completionCue === 'string' && timing.completionCue.trim() && {
+      completionCue: timing.completionCue.trim(),
+    }),
+    duration: isObject(timing.duration) ? (timing.duration as Duration) : undefined,
+    ...(Array.isArray(item.dependsOn) && { dependsOn: item.dependsOn.map(String) }),
+  };
+}
+
+/**
+ * Flattens instructions (including sections) into schedulable steps
+ */
+function collectSteps(instructions: unknown[]): StepInput[] {
+  return instructions.flatMap((item) => {
+    const section = sectionOf(item);
+    if (section) {
+      return section.items
+        .map((entry) => toStepInput(entry, section.name || undefined))
+        .filter((step): step is StepInput => step !== null);
+    }
+    const step = toStepInput(item);
+    return step ? [step] : [];
+  });
+}
+
+function durationBounds(duration: Duration | undefined): { min: number; max: number } | null {
+  if (!duration) return null;
+  const [min, max] =
+    'minutes' in duration ? [duration.minutes, duration.minutes] : [duration.minMinutes, duration.maxMinutes];
+  if (!Number.isFinite(max) || max <= 0) return null;
+  return { min: Math.max(0, Math.min(min, max)), max };
+}
+
+/**
+ * Default dependencies when a step lists none: everything done so far.
+ * Only a step that says what it needs in `dependsOn` can run while a
+ * passive step is in progress; the text alone cannot tell "make the
+ * filling" (fine while the dough rises) from "frost the cake" (needs the
+ * bake to finish).
+ */
+function defaultDependencies(index: number): number[] {
+  return Array.from({ length: index }, (_, i) => i);
+}
+
+/**
+ * Builds an earliest-finish schedule from timed instructions. Active steps
+ * need the cook and never overlap each other; passive steps (resting,
+ * baking) run unattended so later active work can happen meanwhile.
+ * Ranges are planned for their upper bound. Steps may list the ids of the
+ * steps they need in `dependsOn`.
+ */
+export function buildCookSchedule(recipe: SoustackLiteRecipe): CookSchedule {
+  const inputs = collectSteps(Array.isArray(recipe.instructions) ? recipe.instructions : []);
+  const idIndex = new Map(inputs.flatMap((step, index) => (step.id ? [[step.id, index] as const] : [])));
+
+  const steps: ScheduledStep[] = [];
+  // What fixed each step's start, for tracing the critical path
+  const startedBy: Array<number | null> = [];
+  let cookFreeAt = 0;
+  let lastActive: number | null = null;
+
+  inputs.forEach((input, index) => {
+    const dependsOn = input.dependsOn
+      ? input.dependsOn
+          .map((id) => idIndex.get(id))
+          .filter((dep): dep is number => dep !== undefined && dep < index)
+      : defaultDependencies(index);
+
+    let start = 0;
+    let blocker: number | null = null;
+    for (const dep of dependsOn) {
+      if (steps[dep].end >= start) {
+        start = steps[dep].end;
+        blocker = dep;
+      }
+    }
+    if (input.activity === 'active' && cookFreeAt > start) {
+      start = cookFreeAt;
+      blocker = lastActive;
+    }
+
+    const bounds = durationBounds(input.duration);
+    const minutes = bounds?.max ?? 0;
+    const step: ScheduledStep = {
+      index,
+      ...(input.id && { id: input.id }),
+      text: input.text,
+      ...(input.section && { section: input.section }),
+      activity: input.activity,
+      ...(input.completionCue && { completionCue: input.completionCue }),
+      minutes,
+      minMinutes: bounds?.min ?? 0,
+      timed: bounds !== null,
+      start,
+      end: start + minutes,
+      dependsOn,
+      critical: false,
+    };
+    steps.push(step);
+    startedBy.push(start > 0 ? blocker : null);
+
+    if (input.activity === 'active') {
+      cookFreeAt = step.end;
+      lastActive = index;
+    }
+  });
+
+  const totalMinutes = steps.reduce((latest, step) => Math.max(latest, step.end), 0);
+
+  // Walk back from the last step to finish through whatever held each start
+  let cursor: number | null =
+    steps.length > 0 ? steps.reduce((last, step) => (step.end >= last.end ? step : last)).index : null;
+  while (cursor !== null) {
+    steps[cursor].critical = true;
+    cursor = startedBy[cursor];
+  }
+
+  const sum = (activity: StepActivity) =>
+    steps.filter((step) => step.activity === activity).reduce((total, step) => total + step.minutes, 0);
+
+  return {
+    steps,
+    totalMinutes,
+    activeMinutes: sum('active'),
+    passiveMinutes: sum('passive'),
+    sequentialMinutes: steps.reduce((total, step) => total + step.minutes, 0),
+    untimedSteps: steps.filter((step) => !step.timed).length,
+  };
+}
+
+/**
+ * Splits the schedule into slices showing what the cook is doing and what
+ * is running on its own at each moment
+ */
+export function describeTimeline(schedule: CookSchedule): TimelineSlice[] {
+  const boundaries = Array.from(
+    new Set(schedule.steps.flatMap((step) => [step.start, step.end]).concat(0, schedule.totalMinutes))
+  ).sort((a, b) => a - b);
+
+  const slices: TimelineSlice[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const during = schedule.steps.filter((step) => step.start <= start && step.end >= end && step.end > step.start);
+    slices.push({
+      start,
+      end,
+      active: during.find((step) => step.activity === 'active') ?? null,
+      running: during.filter((step) => step.activity === 'passive'),
+    });
+  }
+  return slices;
+}
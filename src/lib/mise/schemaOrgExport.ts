@@ -0,0 +1,117 @@
+import type { Duration, EquipmentItem, IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine } from './ingredientLine';
+import { readEquipment, stepEquipment } from './equipment';
+import { readImages } from './images';
+import { formatIsoDuration, formatYield } from './recipeMeta';
+import { isObject, type JsonObject } from './json';
+import { sectionOf } from './sections';
+
+function isPlaceholder(text: string): boolean {
+  return text.trim() === '' || text.trim() === '(not provided)';
+}
+
+function ingredientText(item: unknown): string {
+  if (typeof item === 'string') return item.trim();
+  if (isObject(item) && typeof item.name === 'string') {
+    return formatIngredientLine(item as IngredientObject);
+  }
+  return '';
+}
+
+/**
+ * Flattens ingredients (including sections) to schema.org text lines
+ */
+function toRecipeIngredient(ingredients: unknown[]): string[] {
+  return ingredients
+    .flatMap((item) => {
+      const section = sectionOf(item);
+      return section ? section.items.map(ingredientText) : [ingredientText(item)];
+    })
+    .filter((text) => !isPlaceholder(text));
+}
+
+/**
+ * Plain URLs, or ImageObjects when alt text or dimensions are known
+ */
+function toImages(images: unknown): Array<string | JsonObject> {
+  return readImages(images).map((image) => {
+    const caption = image.alt?.trim();
+    if (!caption && !image.width) return image.url;
+    return {
+      '@type': 'ImageObject',
+      url: image.url,
+      ...(caption && { caption }),
+      ...(image.width && { width: image.width }),
+      ...(image.height && { height: image.height }),
+    };
+  });
+}
+
+function toHowToTool(item: EquipmentItem): JsonObject {
+  return {
+    '@type': 'HowToTool',
+    name: item.size?.trim() ? `${item.size.trim()} ${item.name.trim()}` : item.name.trim(),
+    ...(item.quantity !== undefined && item.quantity > 1 && { requiredQuantity: item.quantity }),
+  };
+}
+
+function toHowToStep(item: unknown, equipment: EquipmentItem[]): JsonObject | null {
+  if (typeof item === 'string') {
+    return isPlaceholder(item) ? null : { '@type': 'HowToStep', text: item.trim() };
+  }
+  if (!isObject(item) || typeof item.text !== 'string' || isPlaceholder(item.text)) return null;
+
+  const duration = isObject(item.timing) ? (item.timing.duration as Duration | undefined) : undefined;
+  const images = toImages(item.images);
+  const tools = stepEquipment(item, equipment);
+  return {
+    '@type': 'HowToStep',
+    text: item.text.trim(),
+    ...(duration && { timeRequired: formatIsoDuration(duration) }),
+    ...(images.length > 0 && { image: images }),
+    ...(tools.length > 0 && { tool: tools.map(toHowToTool) }),
+  };
+}
+
+function toRecipeInstructions(instructions: unknown[], equipment: EquipmentItem[]): JsonObject[] {
+  return instructions.flatMap((item): JsonObject[] => {
+    const section = sectionOf(item);
+    if (section) {
+      const steps = section.items
+        .map((step) => toHowToStep(step, equipment))
+        .filter((step): step is JsonObject => step !== null);
+      if (steps.length === 0) return [];
+      return [{ '@type': 'HowToSection', name: section.name || 'Steps', itemListElement: steps }];
+    }
+    const step = toHowToStep(item, equipment);
+    return step ? [step] : [];
+  });
+}
+
+/**
+ * Converts a Soustack recipe to a schema.org Recipe JSON-LD object.
+ * Ingredients become text lines, instructions HowToStep/HowToSection,
+ * equipment HowToTool, durations ISO 8601. Mise-only extensions are left out.
+ */
+export function toSchemaOrgRecipe(recipe: SoustackLiteRecipe, options: { url?: string } = {}): JsonObject {
+  const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  const instructions = Array.isArray(recipe.instructions) ? recipe.instructions : [];
+  const images = toImages(recipe.images);
+  const equipment = readEquipment(recipe);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.name,
+    ...(recipe.description && { description: recipe.description }),
+    ...(options.url && { url: options.url }),
+    ...(images.length > 0 && { image: images }),
+    ...(recipe.yield && { recipeYield: formatYield(recipe.yield) }),
+    ...(recipe.time?.prep && { prepTime: formatIsoDuration(recipe.time.prep) }),
+    ...(recipe.time?.cook && { cookTime: formatIsoDuration(recipe.time.cook) }),
+    ...(recipe.time?.total && { totalTime: formatIsoDuration(recipe.time.total) }),
+    ...(equipment.length > 0 && { tool: equipment.map(toHowToTool) }),
+    recipeIngredient: toRecipeIngredient(ingredients),
+    recipeInstructions: toRecipeInstructions(instructions, equipment),
+  };
+}
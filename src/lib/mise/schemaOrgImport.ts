@@ -0,0 +1,299 @@
+import type { Duration, EquipmentItem, RecipeImage, RecipeSection, SoustackLiteRecipe } from './types';
+import { compileLiteRecipe } from './liteCompiler';
+import { parseIngredientLine, toIngredientItems } from './ingredientLine';
+import { parseIsoDuration, parseYieldText } from './recipeMeta';
+import { enableStack } from './stacks';
+import { assignEquipmentIds } from './equipment';
+import { isObject, type JsonObject } from './json';
+
+type ImportedStep = {
+  text: string;
+  timing?: { duration: Duration };
+  images?: RecipeImage[];
+};
+
+type StepItem = string | ImportedStep;
+
+const JSON_LD_SCRIPT = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const MICRODATA_SCOPE = /itemtype\s*=\s*["'][^"']*schema\.org\/Recipe["']/i;
+const ITEMPROP_TAG = /<([a-z][a-z0-9]*)\b([^>]*?\bitemprop\s*=\s*["']([^"']+)["'][^>]*)>/gi;
+
+// Microdata properties that may repeat
+const LIST_PROPS = new Set(['recipeIngredient', 'ingredients', 'recipeInstructions', 'image', 'tool']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function hasType(node: JsonObject, type: string): boolean {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some((t) => typeof t === 'string' && t.replace(/^.*[/:]/, '') === type);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Turns an HTML fragment into plain text, one line per block element
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|li|div|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+function cleanText(value: unknown): string {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return '';
+  return htmlToText(value).replace(/\n/g, ' ');
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Collects Recipe nodes from parsed JSON-LD, following arrays and @graph
+ */
+function findRecipeNodes(value: unknown): JsonObject[] {
+  if (Array.isArray(value)) return value.flatMap(findRecipeNodes);
+  if (!isObject(value)) return [];
+  if (hasType(value, 'Recipe')) return [value];
+  return [...findRecipeNodes(value['@graph']), ...findRecipeNodes(value.mainEntity)];
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a microdata property value the way a browser would
+ */
+function microdataValue(html: string, tag: string, attrs: string, end: number): string {
+  const attr = (name: string) => attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+
+  const content = attr('content');
+  if (content !== undefined) return decodeEntities(content);
+
+  const lower = tag.toLowerCase();
+  if (lower === 'img') return attr('src') ?? '';
+  if (lower === 'a' || lower === 'link') return attr('href') ?? '';
+  if (lower === 'time' && attr('datetime')) return attr('datetime') ?? '';
+  if (lower === 'meta') return '';
+
+  const close = html.toLowerCase().indexOf(`</${lower}>`, end);
+  return close >= 0 ? html.slice(end, close) : '';
+}
+
+/**
+ * Reads the first microdata Recipe scope into a JSON-LD shaped object.
+ * Lightweight: nested scopes are read as plain text of their element.
+ */
+function extractMicrodata(html: string): JsonObject | null {
+  const start = html.search(MICRODATA_SCOPE);
+  if (start < 0) return null;
+
+  const scoped = html.slice(start);
+  const node: JsonObject = { '@type': 'Recipe' };
+
+  for (const match of Array.from(scoped.matchAll(ITEMPROP_TAG))) {
+    const value = microdataValue(scoped, match[1], match[2], (match.index ?? 0) + match[0].length);
+    for (const prop of match[3].split(/\s+/)) {
+      if (LIST_PROPS.has(prop)) {
+        node[prop] = [...asArray(node[prop]), value];
+      } else if (node[prop] === undefined) {
+        node[prop] = value;
+      }
+    }
+  }
+
+  return node;
+}
+
+function mapImages(value: unknown): RecipeImage[] {
+  const images = asArray(value).flatMap((item): RecipeImage[] => {
+    if (typeof item === 'string') return item.trim() ? [{ url: item.trim() }] : [];
+    if (isObject(item)) {
+      const url = item.url ?? item.contentUrl;
+      if (typeof url !== 'string' || !url.trim()) return [];
+      const alt = cleanText(item.caption) || cleanText(item.name);
+      return [{ url: url.trim(), ...(alt && { alt }) }];
+    }
+    return [];
+  });
+  return images.filter((image, idx) => images.findIndex((other) => other.url === image.url) === idx);
+}
+
+/**
+ * Reads recipe-level HowToTool entries (or plain names) as equipment
+ */
+function mapTools(value: unknown): EquipmentItem[] {
+  return asArray(value).flatMap((item): EquipmentItem[] => {
+    const name = isObject(item) ? cleanText(item.name) : cleanText(item);
+    if (!name) return [];
+    const quantity = isObject(item) ? Number(item.requiredQuantity) : NaN;
+    return [{ name, ...(quantity > 1 && { quantity }) }];
+  });
+}
+
+function mapStep(node: JsonObject): StepItem[] {
+  const text = cleanText(node.text) || cleanText(node.name);
+  if (!text) return [];
+
+  const duration = [node.timeRequired, node.totalTime, node.performTime]
+    .map((value) => (typeof value === 'string' ? parseIsoDuration(value) : null))
+    .find((parsed) => parsed !== null);
+  const images = mapImages(node.image);
+
+  if (!duration && images.length === 0) return [text];
+  return [
+    {
+      text,
+      ...(duration && { timing: { duration } }),
+      ...(images.length > 0 && { images }),
+    },
+  ];
+}
+
+/**
+ * Flattens recipeInstructions into steps; nested sections inside a
+ * section are flattened into their parent
+ */
+function mapSteps(value: unknown): StepItem[] {
+  return asArray(value).flatMap((item): StepItem[] => {
+    if (typeof item === 'string') return htmlToText(item).split('\n').filter(Boolean);
+    if (!isObject(item)) return [];
+    if (item.itemListElement !== undefined) return mapSteps(item.itemListElement);
+    return mapStep(item);
+  });
+}
+
+function mapInstructions(value: unknown): Array<StepItem | RecipeSection<StepItem>> {
+  return asArray(value).flatMap((item): Array<StepItem | RecipeSection<StepItem>> => {
+    if (isObject(item) && hasType(item, 'HowToSection')) {
+      return [{ section: { name: cleanText(item.name), items: mapSteps(item.itemListElement) } }];
+    }
+    return mapSteps(item);
+  });
+}
+
+/**
+ * Picks the most descriptive recipeYield ("24 cookies" over "24")
+ */
+function mapYield(value: unknown) {
+  const candidates = asArray(value).map((item) => (typeof item === 'number' ? String(item) : cleanText(item)));
+  const best = candidates.find((text) => /[a-z]/i.test(text)) ?? candidates[0];
+  return best ? parseYieldText(best) : null;
+}
+
+function mapDuration(value: unknown): Duration | undefined {
+  return typeof value === 'string' ? parseIsoDuration(value) ?? undefined : undefined;
+}
+
+function hasStepField(items: Array<StepItem | RecipeSection<StepItem>>, field: keyof ImportedStep): boolean {
+  return items.some((item) => {
+    if (typeof item === 'string') return false;
+    if ('section' in item) return hasStepField(item.section.items, field);
+    return item[field] !== undefined;
+  });
+}
+
+function toSoustackRecipe(node: JsonObject): SoustackLiteRecipe {
+  const ingredientLines = asArray(node.recipeIngredient ?? node.ingredients)
+    .map(cleanText)
+    .filter((line) => line.length > 0);
+  const ingredients = toIngredientItems(ingredientLines.map(parseIngredientLine));
+  const instructions = mapInstructions(node.recipeInstructions);
+  const images = mapImages(node.image);
+  const equipment = mapTools(node.tool);
+
+  const time = {
+    ...(mapDuration(node.prepTime) && { prep: mapDuration(node.prepTime) }),
+    ...(mapDuration(node.cookTime) && { cook: mapDuration(node.cookTime) }),
+    ...(mapDuration(node.totalTime) && { total: mapDuration(node.totalTime) }),
+  };
+
+  const recipe = compileLiteRecipe({
+    name: cleanText(node.name),
+    description: cleanText(node.description),
+    ingredients,
+    instructions,
+    yield: mapYield(node.recipeYield),
+    time,
+  });
+
+  let stacks = recipe.stacks;
+  if (ingredients.some((item) => typeof item !== 'string') || hasStepField(instructions, 'text')) {
+    stacks = enableStack(stacks, 'structured');
+  }
+  if (hasStepField(instructions, 'timing')) {
+    stacks = enableStack(stacks, 'timed');
+  }
+  if (images.length > 0 || hasStepField(instructions, 'images')) {
+    stacks = enableStack(stacks, 'illustrated');
+  }
+  if (equipment.length > 0) {
+    stacks = enableStack(stacks, 'equipment');
+  }
+
+  return assignEquipmentIds({
+    ...recipe,
+    stacks,
+    ...(images.length > 0 && { images }),
+    ...(equipment.length > 0 && { equipment }),
+    'x-mise': {
+      source: {
+        text: JSON.stringify(node),
+        convertedAt: new Date().toISOString(),
+        converter: 'schema.org',
+      },
+    },
+  });
+}
+
+/**
+ * Imports schema.org Recipe objects from pasted HTML (JSON-LD scripts or
+ * microdata) or from raw JSON-LD. Deterministic, no network or AI calls.
+ * Returns an empty list when no Recipe is found.
+ */
+export function importSchemaOrgRecipes(input: string): SoustackLiteRecipe[] {
+  if (!input || typeof input !== 'string') return [];
+
+  const trimmed = input.trim();
+  const documents =
+    trimmed.startsWith('{') || trimmed.startsWith('[')
+      ? [parseJson(trimmed)]
+      : Array.from(trimmed.matchAll(JSON_LD_SCRIPT)).map((match) => parseJson(match[1]));
+
+  let nodes = documents.flatMap(findRecipeNodes);
+  if (nodes.length === 0 && !trimmed.startsWith('{')) {
+    const microdata = extractMicrodata(trimmed);
+    nodes = microdata ? [microdata] : [];
+  }
+
+  return nodes.map(toSoustackRecipe);
+}
@@ -0,0 +1,168 @@
+import type { JsonSchema } from './soustackSchemas';
+import { PROFILE_SCHEMAS, RECIPE_SCHEMA, STACK_SCHEMAS } from './soustackSchemas';
+import { VALID_SOUSTACK_PROFILES } from './types';
+import type { SoustackProfile } from './types';
+import { STACK_KEYS, isStackEnabled } from './stacks';
+import { isObject } from './json';
+
+/**
+ * A schema violation. `path` is a JSON Pointer into the recipe
+ * ("/ingredients/2/quantity"); "" is the recipe itself.
+ */
+export type SchemaError = {
+  path: string;
+  message: string;
+};
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  const name = ref.match(/^#\/\$defs\/(.+)$/)?.[1];
+  const target = name ? root.$defs?.[name] : undefined;
+  if (!target) throw new Error(`Unknown schema reference ${ref}`);
+  return target;
+}
+
+function depth(errors: SchemaError[]): number {
+  return Math.min(...errors.map(({ path }) => path.split('/').length));
+}
+
+function isCloser(errors: SchemaError[], than: SchemaError[]): boolean {
+  const difference = depth(errors) - depth(than);
+  return difference > 0 || (difference === 0 && errors.length < than.length);
+}
+
+function check(value: unknown, schema: JsonSchema, root: JsonSchema, path: string): SchemaError[] {
+  if (schema.$ref) return check(value, resolveRef(root, schema.$ref), root, path);
+
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    fail(`must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    return errors;
+  }
+  if ('const' in schema && value !== schema.const) fail(`must be ${describe(schema.const)}`);
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map(describe).join(', ')}`);
+  }
+  if (schema.not && check(value, schema.not, root, path).length === 0) {
+    fail(`must not be ${'const' in schema.not ? describe(schema.not.const) : 'this value'}`);
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...check(item, schema.items as JsonSchema, root, pointer(path, i))));
+    }
+  }
+
+  if (isObject(value)) {
+    schema.required?.forEach((key) => {
+      if (value[key] === undefined) errors.push({ path: pointer(path, key), message: 'is required' });
+    });
+    Object.entries(value).forEach(([key, child]) => {
+      if (child === undefined) return;
+      const childSchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (childSchema === false) errors.push({ path: pointer(path, key), message: 'is not allowed' });
+      else if (childSchema) errors.push(...check(child, childSchema, root, pointer(path, key)));
+    });
+  }
+
+  if (schema.anyOf) {
+    // Report the alternative that got furthest into the value, so errors
+    // point at the offending field rather than at the whole item
+    let closest: SchemaError[] | null = null;
+    for (const option of schema.anyOf) {
+      const optionErrors = check(value, option, root, path);
+      if (optionErrors.length === 0) {
+        closest = null;
+        break;
+      }
+      if (!closest || isCloser(optionErrors, closest)) closest = optionErrors;
+    }
+    if (closest) errors.push(...closest);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a value against one of the bundled schemas
+ */
+export function validateAgainst(value: unknown, schema: JsonSchema): SchemaError[] {
+  return check(value, schema, schema, '');
+}
+
+/**
+ * Validates a recipe against the core schema, every profile up to the one
+ * it declares, and the schema of each enabled stack. An empty list means
+ * the recipe is valid.
+ */
+export function validateRecipe(recipe: unknown): SchemaError[] {
+  const errors = validateAgainst(recipe, RECIPE_SCHEMA);
+  if (!isObject(recipe)) return errors;
+
+  const declared = VALID_SOUSTACK_PROFILES.indexOf(recipe.profile as SoustackProfile);
+  VALID_SOUSTACK_PROFILES.slice(0, declared + 1).forEach((profile) => {
+    errors.push(...validateAgainst(recipe, PROFILE_SCHEMAS[profile]));
+  });
+
+  if (isObject(recipe.stacks)) {
+    const stacks = recipe.stacks;
+    STACK_KEYS.filter((key) => isStackEnabled(stacks, key)).forEach((key) => {
+      errors.push(...validateAgainst(recipe, STACK_SCHEMAS[key]));
+    });
+  }
+
+  const seen = new Set<string>();
+  return errors.filter(({ path, message }) => {
+    const key = `${path} ${message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * One line per error, e.g. "/ingredients/2/quantity must be a number"
+ */
+export function formatSchemaError(error: SchemaError): string {
+  return `${error.path || '/'} ${error.message}`;
+}
+
+/**
+ * Banner text for schema errors; long lists are cut after a few entries
+ */
+export function schemaErrorSummary(errors: SchemaError[]): string {
+  const shown = errors.slice(0, 3).map(formatSchemaError).join('; ');
+  const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+  return `Recipe does not match the Soustack schema: ${shown}${more}`;
+}
@@ -0,0 +1,23 @@
+import { isObject } from './json';
+
+/**
+ * Reads a section group, `{ section: { name, items } }`. Spec-style
+ * `{ section: 'Name', steps }` groups are rewritten to this shape when
+ * recipes are loaded or imported (see docMigrations), so only this one is read.
+ */
+export function sectionOf(item: unknown): { name: string; items: unknown[] } | null {
+  if (!isObject(item) || !isObject(item.section)) return null;
+  const { name, items } = item.section;
+  return { name: typeof name === 'string' ? name : '', items: Array.isArray(items) ? items : [] };
+}
+
+/**
+ * Flattens section groups into their items, at any depth
+ */
+export function flattenSections(items: unknown): unknown[] {
+  if (!Array.isArray(items)) return [];
+  return items.flatMap((item) => {
+    const section = sectionOf(item);
+    return section ? flattenSections(section.items) : [item];
+  });
+}
@@ -0,0 +1,207 @@
+import type { Duration, SoustackLiteRecipe } from './types';
+import { buildCookSchedule } from './schedule';
+import type { StepActivity } from './schedule';
+
+/**
+ * A mise en place item or step pinned to clock times
+ */
+export type PlannedItem = {
+  kind: 'mise' | 'step';
+  text: string;
+  activity: StepActivity;
+  start: Date;
+  end: Date;
+  minutes: number;
+  slackMinutes: number; // how much earlier a range step may finish
+  critical: boolean;
+  completionCue?: string;
+};
+
+export type ServePlan = {
+  serveAt: Date;
+  startAt: Date; // when the first mise en place item (or step) begins
+  items: PlannedItem[];
+  slackMinutes: number; // how much earlier the food may be ready
+};
+
+// Mise en place items carry no duration unless one is given
+const DEFAULT_MISE_MINUTES = 5;
+
+const MINUTE_MS = 60_000;
+
+// "7pm", "7:00 pm", "19:30", "dinner at 7:00p.m."
+const CLOCK_TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?(?![\d:])/i;
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * MINUTE_MS);
+}
+
+function durationMinutes(duration: unknown): number | null {
+  if (typeof duration !== 'object' || duration === null) return null;
+  const value = duration as Duration;
+  const minutes = 'minutes' in value ? value.minutes : value.maxMinutes;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+/**
+ * Reads a clock time out of free text and returns the next such moment
+ * after `now` (today, or tomorrow if it has already passed)
+ */
+export function parseServeTime(text: string, now: Date = new Date()): Date | null {
+  let hours: number;
+  let minutes = 0;
+
+  if (/\bnoon\b/i.test(text)) {
+    hours = 12;
+  } else if (/\bmidnight\b/i.test(text)) {
+    hours = 0;
+  } else {
+    const match = text.match(CLOCK_TIME_PATTERN);
+    if (!match) return null;
+    hours = Number(match[1]);
+    minutes = match[2] ? Number(match[2]) : 0;
+    const meridiem = match[3]?.toLowerCase().replace(/\./g, '');
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+    } else if (!match[2]) {
+      // A bare number is too ambiguous ("4 people")
+      return null;
+    }
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  const serveAt = new Date(now);
+  serveAt.setHours(hours, minutes, 0, 0);
+  if (serveAt.getTime() <= now.getTime()) serveAt.setDate(serveAt.getDate() + 1);
+  return serveAt;
+}
+
+/**
+ * Plans the recipe backwards from a serve time: the cook schedule ends at
+ * `serveAt` and mise en place items run back to back just before it starts.
+ * Range durations are planned for their upper bound; the difference is
+ * reported as slack.
+ */
+export function planForServeTime(recipe: SoustackLiteRecipe, serveAt: Date): ServePlan {
+  const schedule = buildCookSchedule(recipe);
+  const cookStart = addMinutes(serveAt, -schedule.totalMinutes);
+
+  const mise = ((recipe as SoustackLiteRecipe & { miseEnPlace?: unknown[] }).miseEnPlace ?? [])
+    .filter(
+      (item): item is { text: string; timing?: { duration?: unknown } } =>
+        typeof item === 'object' &&
+        item !== null &&
+        typeof (item as { text?: unknown }).text === 'string' &&
+        (item as { text: string }).text.trim().length > 0
+    )
+    .map((item) => ({ text: item.text.trim(), minutes: durationMinutes(item.timing?.duration) ?? DEFAULT_MISE_MINUTES }));
+
+  const miseMinutes = mise.reduce((total, item) => total + item.minutes, 0);
+  let cursor = addMinutes(cookStart, -miseMinutes);
+  const miseItems: PlannedItem[] = mise.map((item) => {
+    const start = cursor;
+    cursor = addMinutes(start, item.minutes);
+    return {
+      kind: 'mise',
+      text: item.text,
+      activity: 'active',
+      start,
+      end: cursor,
+      minutes: item.minutes,
+      slackMinutes: 0,
+      critical: true,
+    };
+  });
+
+  const stepItems: PlannedItem[] = schedule.steps.map((step) => ({
+    kind: 'step',
+    text: step.text,
+    activity: step.activity,
+    start: addMinutes(cookStart, step.start),
+    end: addMinutes(cookStart, step.end),
+    minutes: step.minutes,
+    slackMinutes: step.minutes - step.minMinutes,
+    critical: step.critical,
+    ...(step.completionCue && { completionCue: step.completionCue }),
+  }));
+
+  return {
+    serveAt,
+    startAt: addMinutes(cookStart, -miseMinutes),
+    items: [...miseItems, ...stepItems],
+    slackMinutes: stepItems.filter((item) => item.critical).reduce((total, item) => total + item.slackMinutes, 0),
+  };
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+}
+
+// Content lines are folded at 75 octets of UTF-8, never inside a character;
+// continuations start with a space, which counts towards their 75
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (octets + size > 75) {
+      parts.push(part);
+      part = '';
+      octets = 1;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Serialises a serve plan as an iCalendar file with one event per item
+ */
+export function servePlanToIcs(plan: ServePlan, recipeName: string, now: Date = new Date()): string {
+  const stamp = icsDate(now);
+  const events = plan.items.flatMap((item, index) => {
+    const notes = [
+      item.activity === 'passive' ? 'Hands-off' : 'Hands-on',
+      item.completionCue ? `Done when: ${item.completionCue}` : null,
+      item.slackMinutes > 0 ? `May finish up to ${item.slackMinutes} min early` : null,
+    ].filter((note): note is string => note !== null);
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${plan.serveAt.getTime()}-${index}@soustack-mise`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(item.start)}`,
+      `DTEND:${icsDate(item.end > item.start ? item.end : addMinutes(item.start, 1))}`,
+      `SUMMARY:${icsText(`${recipeName}: ${item.text}`)}`,
+      `DESCRIPTION:${icsText(notes.join('\n'))}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Soustack Mise//Cook plan//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n')
+    .concat('\r\n');
+}
@@ -0,0 +1,323 @@
+import type { SoustackLiteRecipe, SoustackProfile } from './types';
+import { VALID_SOUSTACK_PROFILES } from './types';
+import type { StackKey } from './stacks';
+
+/**
+ * The one `$schema` every producer writes
+ */
+export const SOUSTACK_SCHEMA_URL = 'https://soustack.spec/soustack.schema.json';
+
+/**
+ * `$schema` values written by older producers
+ */
+const LEGACY_SCHEMA_URLS = ['https://soustack.org/lite.schema.json'];
+
+/**
+ * The subset of JSON Schema the bundled schemas use (see schemaValidation)
+ */
+export type JsonSchema = {
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  const?: unknown;
+  enum?: readonly unknown[];
+  not?: JsonSchema;
+  anyOf?: JsonSchema[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: JsonSchema | false;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+};
+
+const text: JsonSchema = { type: 'string' };
+const nonEmptyText: JsonSchema = { type: 'string', minLength: 1 };
+
+function listOf(items: JsonSchema, minItems?: number): JsonSchema {
+  return { type: 'array', items, ...(minItems !== undefined && { minItems }) };
+}
+
+/**
+ * `item`, or a section of items in either shape:
+ * `{ section: { name, items } }` or `{ section: 'Name', steps }`
+ */
+function sectioned(item: JsonSchema, self: string): JsonSchema {
+  const nested: JsonSchema = { $ref: `#/$defs/${self}` };
+  return {
+    anyOf: [
+      item,
+      {
+        type: 'object',
+        required: ['section'],
+        properties: {
+          section: { type: 'object', required: ['name', 'items'], properties: { name: text, items: listOf(nested) } },
+        },
+      },
+      {
+        type: 'object',
+        required: ['section', 'steps'],
+        properties: { section: text, steps: listOf(nested) },
+      },
+    ],
+  };
+}
+
+type SchemaParts = {
+  recipe?: JsonSchema;
+  ingredient?: JsonSchema;
+  step?: JsonSchema;
+  strings?: boolean; // whether plain string ingredients and steps pass (default true)
+};
+
+/**
+ * Schema whose ingredient and step objects must match `ingredient` and
+ * `step`, looking inside sections
+ */
+function itemsSchema(title: string, parts: SchemaParts): JsonSchema {
+  const item = (schema: JsonSchema | undefined): JsonSchema =>
+    parts.strings === false ? schema ?? {} : { anyOf: [text, schema ?? {}] };
+  return {
+    title,
+    type: 'object',
+    ...parts.recipe,
+    properties: {
+      ...parts.recipe?.properties,
+      ...(parts.ingredient && { ingredients: listOf({ $ref: '#/$defs/ingredientItem' }) }),
+      ...(parts.step && { instructions: listOf({ $ref: '#/$defs/stepItem' }) }),
+    },
+    $defs: {
+      ...parts.recipe?.$defs,
+      ingredientItem: sectioned(item(parts.ingredient), 'ingredientItem'),
+      stepItem: sectioned(item(parts.step), 'stepItem'),
+    },
+  };
+}
+
+const duration: JsonSchema = {
+  anyOf: [
+    { type: 'object', required: ['minutes'], properties: { minutes: { type: 'number', minimum: 0 } } },
+    {
+      type: 'object',
+      required: ['minMinutes', 'maxMinutes'],
+      properties: { minMinutes: { type: 'number', minimum: 0 }, maxMinutes: { type: 'number', minimum: 0 } },
+    },
+  ],
+};
+
+const quantity: JsonSchema = {
+  anyOf: [
+    { type: 'number', minimum: 0 },
+    {
+      type: 'object',
+      required: ['min', 'max'],
+      properties: { min: { type: 'number', minimum: 0 }, max: { type: 'number', minimum: 0 } },
+    },
+  ],
+};
+
+const image: JsonSchema = {
+  type: 'object',
+  required: ['url'],
+  properties: {
+    url: nonEmptyText,
+    alt: text,
+    width: { type: 'integer', minimum: 1 },
+    height: { type: 'integer', minimum: 1 },
+    variants: listOf({
+      type: 'object',
+      required: ['width', 'url'],
+      properties: { width: { type: 'integer', minimum: 1 }, url: nonEmptyText },
+    }),
+  },
+};
+
+const storageMethod: JsonSchema = {
+  type: 'object',
+  required: ['duration'],
+  properties: {
+    duration: { type: 'object', required: ['iso8601'], properties: { iso8601: nonEmptyText } },
+    notes: text,
+  },
+};
+
+/**
+ * Every Soustack recipe, whatever its profile and stacks
+ */
+export const RECIPE_SCHEMA: JsonSchema = itemsSchema('Soustack recipe', {
+  recipe: {
+    $id: SOUSTACK_SCHEMA_URL,
+    required: ['$schema', 'profile', 'stacks', 'name', 'ingredients', 'instructions'],
+    properties: {
+      $schema: { const: SOUSTACK_SCHEMA_URL },
+      profile: { enum: VALID_SOUSTACK_PROFILES },
+      stacks: { type: 'object', additionalProperties: { type: 'integer', minimum: 1 } },
+      name: nonEmptyText,
+      description: text,
+      'x-mise': { type: 'object' },
+    },
+  },
+  ingredient: {
+    type: 'object',
+    required: ['name'],
+    properties: { name: text, quantity, unit: text, prep: text, toTaste: { type: 'boolean' } },
+  },
+  step: { type: 'object', required: ['text'], properties: { text } },
+});
+
+/**
+ * What each profile adds. Profiles are cumulative: a recipe declaring
+ * `timed` must also match `base` and `scalable`.
+ */
+export const PROFILE_SCHEMAS: Record<SoustackProfile, JsonSchema> = {
+  lite: { title: 'lite profile' },
+  base: {
+    title: 'base profile',
+    properties: {
+      name: { not: { const: 'Untitled Recipe' } },
+      ingredients: { type: 'array', minItems: 1 },
+      instructions: { type: 'array', minItems: 1 },
+    },
+  },
+  scalable: itemsSchema('scalable profile', {
+    recipe: { required: ['yield'], properties: { stacks: { required: ['scaling'] } } },
+    strings: false,
+    ingredient: {
+      type: 'object',
+      anyOf: [
+        { required: ['quantity'] },
+        { required: ['toTaste'], properties: { toTaste: { const: true } } },
+        { required: ['scaling'], properties: { scaling: { required: ['mode'], properties: { mode: { const: 'toTaste' } } } } },
+      ],
+    },
+  }),
+  timed: itemsSchema('timed profile', {
+    recipe: { properties: { stacks: { required: ['timed'] } } },
+    strings: false,
+    step: { type: 'object', required: ['timing'], properties: { timing: { required: ['duration'] } } },
+  }),
+  equipped: {
+    title: 'equipped profile',
+    required: ['equipment'],
+    properties: { stacks: { required: ['equipment'] }, equipment: { type: 'array', minItems: 1 } },
+  },
+  prepped: {
+    title: 'prepped profile',
+    required: ['miseEnPlace'],
+    properties: { stacks: { required: ['prep'] }, miseEnPlace: { type: 'array', minItems: 1 } },
+  },
+  illustrated: {
+    title: 'illustrated profile',
+    required: ['images'],
+    properties: {
+      stacks: { required: ['illustrated'] },
+      images: listOf({ required: ['alt'], properties: { alt: nonEmptyText } }, 1),
+    },
+  },
+};
+
+// Plain strings stay legal in timed steps; the timed profile is what requires timing
+const stepTiming: JsonSchema = {
+  type: 'object',
+  properties: {
+    activity: { enum: ['active', 'passive'] },
+    duration,
+    completionCue: text,
+  },
+};
+
+/**
+ * Shapes of the fields each stack owns, checked while the stack is enabled
+ */
+export const STACK_SCHEMAS: Record<StackKey, JsonSchema> = {
+  prep: {
+    title: 'prep stack',
+    properties: {
+      miseEnPlace: listOf({
+        type: 'object',
+        required: ['text'],
+        properties: { text: text, timing: { type: 'object', properties: { duration } } },
+      }),
+    },
+  },
+  equipment: itemsSchema('equipment stack', {
+    recipe: {
+      properties: {
+        equipment: listOf({
+          type: 'object',
+          required: ['name'],
+          properties: {
+            id: text,
+            name: nonEmptyText,
+            quantity: { type: 'integer', minimum: 1 },
+            size: text,
+            optional: { type: 'boolean' },
+            alternatives: listOf(text),
+          },
+        }),
+      },
+    },
+    step: { type: 'object', properties: { equipment: listOf(text) } },
+  }),
+  timed: itemsSchema('timed stack', {
+    recipe: {
+      properties: { time: { type: 'object', properties: { prep: duration, cook: duration, total: duration } } },
+    },
+    step: { type: 'object', properties: { timing: stepTiming } },
+  }),
+  storage: {
+    title: 'storage stack',
+    properties: {
+      storage: {
+        type: 'object',
+        properties: {
+          refrigerated: storageMethod,
+          frozen: storageMethod,
+          roomTemp: storageMethod,
+          leftovers: {
+            type: 'object',
+            properties: {
+              reheat: listOf({ anyOf: [text, { type: 'object', required: ['method'], properties: { method: text } }] }),
+            },
+          },
+        },
+      },
+    },
+  },
+  scaling: itemsSchema('scaling stack', {
+    recipe: {
+      properties: {
+        yield: { type: 'object', required: ['amount', 'unit'], properties: { amount: quantity, unit: text } },
+      },
+    },
+    ingredient: {
+      type: 'object',
+      properties: {
+        scaling: { type: 'object', properties: { mode: { enum: ['proportional', 'fixed', 'toTaste'] } } },
+      },
+    },
+  }),
+  structured: itemsSchema('structured stack', {
+    ingredient: { type: 'object', properties: { name: nonEmptyText } },
+    step: { type: 'object', properties: { text: nonEmptyText } },
+  }),
+  referenced: itemsSchema('referenced stack', {
+    ingredient: { type: 'object', properties: { id: text } },
+    step: { type: 'object', properties: { inputs: listOf(text) } },
+  }),
+  illustrated: itemsSchema('illustrated stack', {
+    recipe: { properties: { images: listOf(image) } },
+    step: { type: 'object', properties: { images: listOf(image) } },
+  }),
+};
+
+/**
+ * Rewrites a legacy `$schema` to the canonical one. Returns the same
+ * recipe when nothing changes.
+ */
+export function withCanonicalSchema(recipe: SoustackLiteRecipe): SoustackLiteRecipe {
+  return LEGACY_SCHEMA_URLS.includes(recipe.$schema) ? { ...recipe, $schema: SOUSTACK_SCHEMA_URL } : recipe;
+}
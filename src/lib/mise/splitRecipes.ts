@@ -0,0 +1,86 @@
+import { hasListPrefix, matchHeader } from './parseFreeform';
+import { parseMetaLine } from './recipeMeta';
+
+// Most lines a title block above "Ingredients:" may span (title plus yield/time lines)
+const MAX_TITLE_LINES = 3;
+
+/**
+ * Finds the first line of the title block directly above an ingredients
+ * header. Yield and time lines separated by blank lines belong to the block.
+ * Returns -1 when there is no title.
+ */
+function findTitleStart(lines: string[], headerIndex: number, floor: number): number {
+  let start = -1;
+  let i = headerIndex - 1;
+
+  while (i >= floor) {
+    // Skip blank lines between blocks
+    while (i >= floor && !lines[i].trim()) i--;
+
+    // Collect one contiguous block of plain lines
+    const blockEnd = i;
+    while (
+      i >= floor &&
+      lines[i].trim() &&
+      !hasListPrefix(lines[i].trim()) &&
+      !matchHeader(lines[i].trim(), lines[i + 1]?.trim()) &&
+      blockEnd - i < MAX_TITLE_LINES
+    ) {
+      i--;
+    }
+    if (i === blockEnd) break;
+    start = i + 1;
+
+    // Keep walking only while the block holds nothing but yield/time lines
+    const block = lines.slice(start, blockEnd + 1);
+    if (!block.every((line) => parseMetaLine(line.trim()))) break;
+  }
+
+  return start;
+}
+
+/**
+ * Splits pasted text holding several recipes (a menu, a newsletter) into one
+ * chunk per recipe. A new recipe starts at a titled "Ingredients" header that
+ * follows an instructions block. Text before the first recipe is dropped.
+ * Returns the whole text as a single chunk when fewer than two recipes are found.
+ */
+export function splitRecipes(text: string): string[] {
+  if (!text || typeof text !== 'string') return [];
+
+  const lines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+  const starts: number[] = [];
+  let sawInstructions = false;
+  let floor = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = matchHeader(lines[i].trim());
+    if (!header || header.section !== null) continue;
+
+    if (header.kind === 'instructions') {
+      sawInstructions = true;
+      continue;
+    }
+
+    // Ingredients header: the first one always opens a candidate recipe,
+    // later ones only after the previous recipe's instructions
+    if (starts.length > 0 && !sawInstructions) continue;
+
+    // An untitled first recipe starts at the top of the text
+    const titleStart = findTitleStart(lines, i, floor);
+    if (titleStart < 0 && starts.length > 0) continue;
+
+    starts.push(Math.max(titleStart, 0));
+    sawInstructions = false;
+    floor = i + 1;
+  }
+
+  if (starts.length < 2) return [text];
+
+  return starts.map((start, idx) =>
+    lines
+      .slice(start, idx + 1 < starts.length ? starts[idx + 1] : lines.length)
+      .join('\n')
+      .trim()
+  );
+}
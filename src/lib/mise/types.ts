@@ -16,6 +16,60 @@ export const VALID_SOUSTACK_PROFILES: SoustackProfile[] = [
   'illustrated',
 ];
 
+/**
+ * Duration in minutes, exact or as a range (same shape as step timing)
+ */
+export type Duration = { minutes: number } | { minMinutes: number; maxMinutes: number };
+
+/**
+ * Recipe yield ("4 servings", "24 cookies")
+ */
+export type RecipeYield = {
+  amount: number | { min: number; max: number };
+  unit: string;
+};
+
+/**
+ * Recipe-level times
+ */
+export type RecipeTimes = {
+  prep?: Duration;
+  cook?: Duration;
+  total?: Duration;
+};
+
+/**
+ * One stored width of an uploaded image
+ */
+export type ImageVariant = {
+  width: number;
+  url: string;
+};
+
+/**
+ * Image attached to a recipe or step (illustrated stack). `url` is the
+ * largest stored width; uploads also list every width in `variants`.
+ */
+export type RecipeImage = {
+  url: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+};
+
+/**
+ * A piece of equipment (equipment stack). Steps reference items by id.
+ */
+export type EquipmentItem = {
+  id?: string;
+  name: string;
+  quantity?: number;
+  size?: string; // size or capacity, e.g. "9-inch" or "5-quart"
+  optional?: boolean;
+  alternatives?: string[]; // names of acceptable substitutes
+};
+
 /**
  * Soustack Recipe type
  * Always-valid recipe artifact with minimal structure
@@ -26,12 +80,17 @@ export type SoustackLiteRecipe = {
   stacks: Record<string, unknown>;
   name: string;
   description?: string;
+  yield?: RecipeYield;
+  time?: RecipeTimes;
+  images?: RecipeImage[]; // illustrated stack
+  equipment?: EquipmentItem[]; // equipment stack
   ingredients: unknown[];
   instructions: unknown[];
   'x-mise'?: {
     parse?: {
       confidence: number;
       mode: string;
+      sources?: ParseSources;
     };
     prose?: {
       text: string;
@@ -46,13 +105,90 @@ export type SoustackLiteRecipe = {
   };
 };
 
+/**
+ * How an ingredient follows a change of yield (scaling stack)
+ */
+export type ScalingMode = 'proportional' | 'fixed' | 'toTaste';
+
+/**
+ * Structured ingredient shape shared by the parser and the editors
+ */
+export type IngredientObject = {
+  id?: string; // stable id referenced by step inputs (referenced stack)
+  quantity?: number | { min: number; max: number };
+  unit?: string;
+  name: string;
+  prep?: string;
+  toTaste?: boolean;
+  scaling?: { mode?: ScalingMode };
+};
+
+/**
+ * A single ingredient line as understood by the parser.
+ * `ingredient` is null when the line could not be split at all.
+ */
+export type ParsedIngredientLine = {
+  text: string;
+  ingredient: IngredientObject | null;
+  confidence: number; // 0..1
+};
+
+/**
+ * Named group of recipe items, in the shape the section editors use
+ */
+export type RecipeSection<T> = {
+  section: {
+    name: string;
+    items: T[];
+  };
+};
+
+/**
+ * A sub-section found by the parser: items [start, end) of a flat list
+ */
+export type ParsedSection = {
+  name: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Lines [start, end) of the raw text, counted from 0 including blank lines
+ */
+export type SourceLineRange = {
+  start: number;
+  end: number;
+};
+
+/**
+ * Where each parsed item came from in the raw text. Ingredient and
+ * instruction ranges follow the flat item order (sections flattened).
+ */
+export type ParseSources = {
+  title: SourceLineRange | null;
+  ingredients: SourceLineRange[];
+  instructions: SourceLineRange[];
+  meta: SourceLineRange[]; // yield and time lines
+};
+
+/**
+ * Manual routing of raw lines, keyed by trimmed line text
+ */
+export type LineOverrides = Record<string, 'ingredients' | 'instructions'>;
+
 /**
  * Parse result from freeform text
  */
 export type ParseResult = {
   title: string | null;
   ingredients: string[];
+  parsedIngredients: ParsedIngredientLine[]; // parallel to ingredients
+  ingredientSections: ParsedSection[];
   instructions: string[];
+  instructionSections: ParsedSection[];
+  yield: RecipeYield | null;
+  time: RecipeTimes | null;
+  sources: ParseSources;
   confidence: number; // 0..1
   mode: 'explicit-sections' | 'heuristic' | 'fallback';
 };
@@ -0,0 +1,239 @@
+import type { IngredientObject, SoustackLiteRecipe } from './types';
+import { formatIngredientLine, parseIngredientLine, STRUCTURED_CONFIDENCE_THRESHOLD } from './ingredientLine';
+import { formatKitchenQuantity, roundToKitchenFraction } from './scaling';
+
+export type UnitSystem = 'metric' | 'us';
+
+type UnitKind = 'volume' | 'mass';
+
+type Quantity = IngredientObject['quantity'];
+
+type UnitDefinition = {
+  kind: UnitKind;
+  system: UnitSystem | 'both';
+  toBase: number; // millilitres for volume, grams for mass
+};
+
+/**
+ * Canonical units. Spoons are shared by both systems and never converted
+ * on a system switch.
+ */
+const UNITS: Record<string, UnitDefinition> = {
+  ml: { kind: 'volume', system: 'metric', toBase: 1 },
+  cl: { kind: 'volume', system: 'metric', toBase: 10 },
+  dl: { kind: 'volume', system: 'metric', toBase: 100 },
+  l: { kind: 'volume', system: 'metric', toBase: 1000 },
+  tsp: { kind: 'volume', system: 'both', toBase: 4.92892 },
+  tbsp: { kind: 'volume', system: 'both', toBase: 14.7868 },
+  'fl oz': { kind: 'volume', system: 'us', toBase: 29.5735 },
+  cup: { kind: 'volume', system: 'us', toBase: 236.588 },
+  pint: { kind: 'volume', system: 'us', toBase: 473.176 },
+  quart: { kind: 'volume', system: 'us', toBase: 946.353 },
+  gallon: { kind: 'volume', system: 'us', toBase: 3785.41 },
+  mg: { kind: 'mass', system: 'metric', toBase: 0.001 },
+  g: { kind: 'mass', system: 'metric', toBase: 1 },
+  kg: { kind: 'mass', system: 'metric', toBase: 1000 },
+  oz: { kind: 'mass', system: 'us', toBase: 28.3495 },
+  lb: { kind: 'mass', system: 'us', toBase: 453.592 },
+};
+
+// Lowercase aliases; "T" and "t" are matched case-sensitively first
+const UNIT_ALIASES: Record<string, string> = {
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', mls: 'ml',
+  centiliter: 'cl', centilitre: 'cl',
+  deciliter: 'dl', decilitre: 'dl',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', ltr: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  floz: 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  c: 'cup', cups: 'cup',
+  pints: 'pint', pt: 'pint',
+  quarts: 'quart', qt: 'quart',
+  gallons: 'gallon', gal: 'gallon',
+  milligram: 'mg', milligrams: 'mg',
+  gram: 'g', grams: 'g', gr: 'g',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+};
+
+type Density = {
+  gramsPerMl: number;
+  // Liquids stay in millilitres when shown in metric
+  liquid?: boolean;
+};
+
+/**
+ * Bundled densities for common ingredients, matched by the longest key
+ * contained in the ingredient name
+ */
+const INGREDIENT_DENSITIES: Record<string, Density> = {
+  water: { gramsPerMl: 1, liquid: true },
+  stock: { gramsPerMl: 1, liquid: true },
+  broth: { gramsPerMl: 1, liquid: true },
+  milk: { gramsPerMl: 1.03, liquid: true },
+  buttermilk: { gramsPerMl: 1.03, liquid: true },
+  cream: { gramsPerMl: 1.0, liquid: true },
+  oil: { gramsPerMl: 0.92, liquid: true },
+  'olive oil': { gramsPerMl: 0.91, liquid: true },
+  yogurt: { gramsPerMl: 1.03 },
+  flour: { gramsPerMl: 0.53 },
+  'bread flour': { gramsPerMl: 0.55 },
+  'whole wheat flour': { gramsPerMl: 0.51 },
+  cornstarch: { gramsPerMl: 0.54 },
+  'cocoa powder': { gramsPerMl: 0.42 },
+  sugar: { gramsPerMl: 0.85 },
+  'brown sugar': { gramsPerMl: 0.93 },
+  'powdered sugar': { gramsPerMl: 0.51 },
+  'icing sugar': { gramsPerMl: 0.51 },
+  honey: { gramsPerMl: 1.42 },
+  'maple syrup': { gramsPerMl: 1.32 },
+  butter: { gramsPerMl: 0.96 },
+  salt: { gramsPerMl: 1.22 },
+  'kosher salt': { gramsPerMl: 0.6 },
+  rice: { gramsPerMl: 0.78 },
+  oats: { gramsPerMl: 0.38 },
+};
+
+// Thresholds for picking a readable unit, in base units
+const METRIC_STEP_UP = 1000;
+const US_CUP_FROM_ML = 60;
+const US_TBSP_FROM_ML = 15;
+const US_LB_FROM_G = 453.592;
+
+/**
+ * Normalises a unit as written ("Tbsp", "tablespoons", "T") to its canonical
+ * id, or null for units we cannot convert (cloves, pinch, ...)
+ */
+export function normalizeUnit(unit: string | undefined): string | null {
+  if (!unit) return null;
+  const trimmed = unit.trim().replace(/\.$/, '');
+  if (trimmed === 'T') return 'tbsp';
+  if (trimmed === 't') return 'tsp';
+
+  const lower = trimmed.toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  if (lower === 'fl oz') return 'fl oz';
+  if (UNITS[lower]) return lower;
+  return UNIT_ALIASES[lower] ?? null;
+}
+
+function lookupDensity(ingredientName: string): Density | null {
+  const name = ingredientName.toLowerCase();
+  const key = Object.keys(INGREDIENT_DENSITIES)
+    .filter((candidate) => new RegExp(`\\b${candidate}\\b`).test(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? INGREDIENT_DENSITIES[key] : null;
+}
+
+/**
+ * Looks up an ingredient density in g/ml, or null when unknown
+ */
+export function findDensity(ingredientName: string): number | null {
+  return lookupDensity(ingredientName)?.gramsPerMl ?? null;
+}
+
+/**
+ * Converts an amount between units. Volume and mass convert through the
+ * ingredient density when one is known. Returns null when not convertible.
+ */
+export function convertAmount(value: number, from: string, to: string, ingredientName = ''): number | null {
+  const fromUnit = UNITS[normalizeUnit(from) ?? ''];
+  const toUnit = UNITS[normalizeUnit(to) ?? ''];
+  if (!fromUnit || !toUnit) return null;
+
+  let base = value * fromUnit.toBase;
+  if (fromUnit.kind !== toUnit.kind) {
+    const density = findDensity(ingredientName);
+    if (!density) return null;
+    base = fromUnit.kind === 'volume' ? base * density : base / density;
+  }
+  return base / toUnit.toBase;
+}
+
+/**
+ * Picks the unit a cook would use in the target system for an amount in base units
+ */
+function targetUnit(kind: UnitKind, base: number, system: UnitSystem): string {
+  if (system === 'metric') {
+    if (kind === 'mass') return base >= METRIC_STEP_UP ? 'kg' : 'g';
+    return base >= METRIC_STEP_UP ? 'l' : 'ml';
+  }
+  if (kind === 'mass') return base >= US_LB_FROM_G ? 'lb' : 'oz';
+  if (base >= US_CUP_FROM_ML) return 'cup';
+  return base >= US_TBSP_FROM_ML ? 'tbsp' : 'tsp';
+}
+
+/**
+ * Reads a quantity as a number or range. The editors keep quantities as
+ * typed text, so numeric strings count; other text ("a pinch") does not.
+ */
+function numericQuantity(quantity: Quantity | string): Quantity {
+  if (typeof quantity !== 'string') return quantity;
+  const numeric = Number(quantity);
+  return quantity.trim() === '' || Number.isNaN(numeric) ? undefined : numeric;
+}
+
+/**
+ * Converts a structured ingredient to the metric or US system. Metric
+ * conversions weigh dry ingredients with a known density. Spoons,
+ * count units and quantities without a unit or a number are left alone.
+ */
+export function convertIngredient<T extends { name: string; quantity?: Quantity | string; unit?: string }>(
+  ingredient: T,
+  system: UnitSystem
+): T {
+  const unitId = normalizeUnit(ingredient.unit);
+  const quantity = numericQuantity(ingredient.quantity);
+  if (!unitId || quantity === undefined) return ingredient;
+
+  const definition = UNITS[unitId];
+  if (definition.system === system || definition.system === 'both') return ingredient;
+
+  const density = lookupDensity(ingredient.name);
+  const kind: UnitKind =
+    system === 'metric' && definition.kind === 'volume' && density && !density.liquid ? 'mass' : definition.kind;
+  const reference = typeof quantity === 'number' ? quantity : quantity.max;
+  const referenceBase = convertAmount(reference, unitId, kind === 'mass' ? 'g' : 'ml', ingredient.name);
+  if (referenceBase === null) return ingredient;
+
+  const unit = targetUnit(kind, referenceBase, system);
+  const convert = (value: number) =>
+    roundToKitchenFraction(convertAmount(value, unitId, unit, ingredient.name) ?? value, unit);
+  const converted = typeof quantity === 'number' ? convert(quantity) : { min: convert(quantity.min), max: convert(quantity.max) };
+  const largest = typeof converted === 'number' ? converted : converted.max;
+
+  return {
+    ...ingredient,
+    quantity: converted,
+    unit: unit === 'cup' && largest > 1 ? 'cups' : unit,
+  };
+}
+
+function convertItem(item: unknown, system: UnitSystem): unknown {
+  if (typeof item === 'string') {
+    // Free-text lines are converted when they parse confidently
+    const parsed = parseIngredientLine(item);
+    if (!parsed.ingredient || parsed.confidence < STRUCTURED_CONFIDENCE_THRESHOLD) return item;
+    const converted = convertIngredient(parsed.ingredient, system);
+    if (converted === parsed.ingredient) return item;
+    const quantity = formatKitchenQuantity(converted.quantity ?? '', converted.unit);
+    return `${quantity} ${formatIngredientLine({ ...converted, quantity: undefined })}`.trim();
+  }
+  if (typeof item !== 'object' || item === null) return item;
+  if ('section' in item) {
+    const section = (item as { section: { name: string; items?: unknown[] } }).section;
+    if (!Array.isArray(section.items)) return item;
+    return { ...item, section: { ...section, items: section.items.map((entry) => convertItem(entry, system)) } };
+  }
+  if ('name' in item) return convertIngredient(item as IngredientObject, system);
+  return item;
+}
+
+/**
+ * Returns a copy of the recipe with ingredients shown in one unit system;
+ * the input is not mutated
+ */
+export function convertRecipeUnits(recipe: SoustackLiteRecipe, system: UnitSystem): SoustackLiteRecipe {
+  const ingredients = Array.isArray(recipe.ingredients) ? recipe.ingredients : [];
+  return { ...recipe, ingredients: ingredients.map((item) => convertItem(item, system)) };
+}
@@ -1,15 +1,19 @@
-import type { SoustackLiteRecipe } from './types';
-import { compileLiteRecipe } from './liteCompiler';
+import type { LineOverrides, SoustackLiteRecipe } from './types';
+import { compileLiteRecipe, compileParseResult } from './liteCompiler';
+import { parseFreeform } from './parseFreeform';
+import { WORKBENCH_DOC_VERSION } from './docMigrations';
 
 /**
  * WorkbenchDoc - canonical application state
  * Matches the model defined in AGENTS.MD
  */
 export type WorkbenchDoc = {
+  formatVersion: number; // document shape version, see docMigrations
   recipe: SoustackLiteRecipe; // canonical, always valid
   draft: {
     mode: 'raw' | 'structured';
     rawText: string; // editable in raw mode; snapshot after conversion
+    lineOverrides?: LineOverrides; // manual parse corrections
     lastImport?: {
       source: 'paste' | 'upload' | 'manual';
       confidence: number;
@@ -36,6 +40,7 @@ export type WorkbenchDoc = {
 export function createEmptyWorkbenchDoc(): WorkbenchDoc {
   const now = new Date().toISOString();
   return {
+    formatVersion: WORKBENCH_DOC_VERSION,
     recipe: compileLiteRecipe({}),
     draft: {
       mode: 'raw',
@@ -48,6 +53,35 @@ export function createEmptyWorkbenchDoc(): WorkbenchDoc {
   };
 }
 
+/**
+ * Creates a structured WorkbenchDoc from pasted recipe text
+ */
+export function createWorkbenchDocFromText(
+  rawText: string,
+  source: 'paste' | 'upload' | 'manual' = 'paste'
+): WorkbenchDoc {
+  const now = nowIso();
+  const parseResult = parseFreeform(rawText);
+  return {
+    formatVersion: WORKBENCH_DOC_VERSION,
+    recipe: compileParseResult(parseResult),
+    draft: {
+      mode: 'structured',
+      rawText,
+      lastImport: {
+        source,
+        confidence: parseResult.confidence,
+        mode: parseResult.mode,
+        at: now,
+      },
+    },
+    meta: {
+      revision: 0,
+      updatedAt: now,
+    },
+  };
+}
+
 /**
  * Helper to get current ISO timestamp
  */
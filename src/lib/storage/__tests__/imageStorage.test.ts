@@ -0,0 +1,39 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalImageStorage } from '../imageStorage';
+
+describe('createLocalImageStorage', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'mise-images-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('writes files under the root and returns their URL', async () => {
+    const storage = createLocalImageStorage(root, '/uploads');
+    const url = await storage.put('user-1/img-1/480.jpg', new Uint8Array([1, 2, 3]), 'image/jpeg');
+
+    expect(url).toBe('/uploads/user-1/img-1/480.jpg');
+    expect(Array.from(await readFile(path.join(root, 'user-1/img-1/480.jpg')))).toEqual([1, 2, 3]);
+  });
+
+  it('removes files and ignores missing ones', async () => {
+    const storage = createLocalImageStorage(root, '/uploads');
+    await storage.put('user-1/img-1/480.jpg', new Uint8Array([1]), 'image/jpeg');
+
+    await storage.remove(['user-1/img-1/480.jpg', 'user-1/img-1/960.jpg']);
+
+    expect(existsSync(path.join(root, 'user-1/img-1/480.jpg'))).toBe(false);
+  });
+
+  it('rejects keys that escape the root', async () => {
+    const storage = createLocalImageStorage(root, '/uploads');
+    await expect(storage.put('../outside.jpg', new Uint8Array([1]), 'image/jpeg')).rejects.toThrow('INVALID_KEY');
+  });
+});
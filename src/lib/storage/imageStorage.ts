@@ -0,0 +1,74 @@
+import { mkdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Where uploaded recipe images live. Keys look like
+ * "<owner>/<image>/960.jpg" and are owned by the uploading user.
+ */
+export type ImageStorage = {
+  /** Stores bytes under `key` and returns their public URL */
+  put(key: string, body: Uint8Array, contentType: string): Promise<string>;
+  /** Removes stored keys; missing keys are ignored */
+  remove(keys: string[]): Promise<void>;
+};
+
+export const IMAGE_BUCKET = 'recipe-images';
+
+/**
+ * Supabase Storage, used in production. The bucket is public-read and
+ * writes are limited to the owner's folder (see migrations).
+ */
+export function createSupabaseImageStorage(supabase: SupabaseClient, bucket = IMAGE_BUCKET): ImageStorage {
+  return {
+    async put(key, body, contentType) {
+      const { error } = await supabase.storage.from(bucket).upload(key, body, {
+        contentType,
+        cacheControl: '31536000',
+        upsert: false,
+      });
+      if (error) throw new Error('UPLOAD_FAILED');
+      return supabase.storage.from(bucket).getPublicUrl(key).data.publicUrl;
+    },
+    async remove(keys) {
+      if (keys.length === 0) return;
+      const { error } = await supabase.storage.from(bucket).remove(keys);
+      if (error) throw new Error('REMOVE_FAILED');
+    },
+  };
+}
+
+/**
+ * Local filesystem stand-in for development and tests. Files written under
+ * `public/uploads` are served by `next dev` at `/uploads/...`.
+ */
+export function createLocalImageStorage(
+  rootDir = path.join(process.cwd(), 'public', 'uploads'),
+  baseUrl = '/uploads'
+): ImageStorage {
+  const resolve = (key: string) => {
+    const file = path.resolve(rootDir, key);
+    if (!file.startsWith(path.resolve(rootDir) + path.sep)) throw new Error('INVALID_KEY');
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+      return `${baseUrl}/${key}`;
+    },
+    async remove(keys) {
+      await Promise.all(keys.map((key) => rm(resolve(key), { force: true })));
+    },
+  };
+}
+
+/**
+ * Picks the storage backend: local files when IMAGE_STORAGE=local,
+ * Supabase Storage otherwise
+ */
+export function getImageStorage(supabase: SupabaseClient): ImageStorage {
+  return process.env.IMAGE_STORAGE === 'local' ? createLocalImageStorage() : createSupabaseImageStorage(supabase);
+}
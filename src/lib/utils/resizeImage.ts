@@ -0,0 +1,39 @@
+import { variantWidths } from '@/lib/mise/images';
+
+const JPEG_QUALITY = 0.85;
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('RESIZE_FAILED'))), type, JPEG_QUALITY);
+  });
+}
+
+/**
+ * Resizes an image in the browser to the fixed upload widths and returns
+ * the form expected by uploadRecipeImageAction. Browser-only.
+ */
+export async function prepareImageUpload(file: File, alt: string): Promise<FormData> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const form = new FormData();
+    const widths = variantWidths(bitmap.width);
+    let height = 0;
+    for (const width of widths) {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = Math.round((bitmap.height * width) / bitmap.width);
+      height = canvas.height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('RESIZE_FAILED');
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      const blob = await canvasToBlob(canvas, file.type);
+      form.append(`w${width}`, new File([blob], `${width}`, { type: blob.type }));
+    }
+    form.append('alt', alt);
+    form.append('width', String(widths[widths.length - 1] ?? 0));
+    form.append('height', String(height));
+    return form;
+  } finally {
+    bitmap.close();
+  }
+}